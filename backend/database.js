@@ -1,60 +1,220 @@
 const sqlite3 = require('sqlite3').verbose();
+const { backfillConversations } = require('./services/conversations');
+const { SEARCH_INDEX_SCHEMA, indexExistingRecords } = require('./services/search');
 
 const DBSOURCE = "db.sqlite";
 
+// Columns added after a table was first created. CREATE TABLE IF NOT EXISTS leaves existing
+// databases untouched, so each of these is applied with ALTER TABLE on startup.
+const COLUMN_MIGRATIONS = [
+    { table: 'analyses', column: 'biomarkers', definition: 'TEXT' },
+    { table: 'analyses', column: 'documents', definition: 'TEXT' },
+    { table: 'report_files', column: 'document_number', definition: 'INTEGER DEFAULT 1' },
+    { table: 'analyses', column: 'low_confidence', definition: 'INTEGER DEFAULT 0' },
+    { table: 'analyses', column: 'quality', definition: 'TEXT' },
+    { table: 'analyses', column: 'rule_score', definition: 'INTEGER' },
+    { table: 'analyses', column: 'score_breakdown', definition: 'TEXT' },
+    { table: 'users', column: 'sex', definition: 'TEXT' },
+    { table: 'users', column: 'height', definition: 'REAL' },
+    { table: 'users', column: 'unit_preference', definition: "TEXT DEFAULT 'conventional'" },
+    { table: 'analyses', column: 'source', definition: "TEXT DEFAULT 'report'" },
+    { table: 'users', column: 'medications', definition: 'TEXT' },
+    { table: 'users', column: 'allergies', definition: 'TEXT' },
+    { table: 'users', column: 'structured_symptoms', definition: 'TEXT' },
+    { table: 'symptom_interviews', column: 'structured_symptoms', definition: 'TEXT' },
+    { table: 'symptom_checks', column: 'structured_symptoms', definition: 'TEXT' },
+    { table: 'chats', column: 'conversation_id', definition: 'INTEGER REFERENCES conversations (id)' },
+];
+
 const db = new sqlite3.Database(DBSOURCE, (err) => {
     if (err) {
       console.error(err.message);
       throw err;
     } else {
         console.log('Connected to the SQLite database.');
-        db.exec(`CREATE TABLE IF NOT EXISTS users (
-            id INTEGER PRIMARY KEY AUTOINCREMENT,
-            name TEXT,
-            email TEXT UNIQUE,
-            password TEXT,
-            age INTEGER,
-            weight REAL,
-            medical_conditions TEXT,
-            symptoms TEXT,
-            CONSTRAINT email_unique UNIQUE (email)
-            )`,
-        (err) => {
-            if (err) {
-                // Table already created
-            }
-        });  
-
-        db.exec(`CREATE TABLE IF NOT EXISTS analyses (
-            id INTEGER PRIMARY KEY AUTOINCREMENT,
-            user_id INTEGER,
-            report_data TEXT,
-            summary TEXT,
-            predictions TEXT,
-            health_score INTEGER,
-            recommendations TEXT,
-            created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-            FOREIGN KEY (user_id) REFERENCES users (id)
-            )`,
-        (err) => {
-            if (err) {
-                // Table already created
-            }
-        });
+        // Run schema statements in order so migrations only see tables that already exist.
+        db.serialize(() => {
+            db.exec(`CREATE TABLE IF NOT EXISTS users (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                name TEXT,
+                email TEXT UNIQUE,
+                password TEXT,
+                age INTEGER,
+                weight REAL,
+                medical_conditions TEXT,
+                symptoms TEXT,
+                CONSTRAINT email_unique UNIQUE (email)
+                )`,
+            (err) => {
+                if (err) {
+                    // Table already created
+                }
+            });  
+
+            db.exec(`CREATE TABLE IF NOT EXISTS analyses (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                user_id INTEGER,
+                report_data TEXT,
+                summary TEXT,
+                predictions TEXT,
+                health_score INTEGER,
+                recommendations TEXT,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY (user_id) REFERENCES users (id)
+                )`,
+            (err) => {
+                if (err) {
+                    // Table already created
+                }
+            });
+
+            db.exec(`CREATE TABLE IF NOT EXISTS chats (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                user_id INTEGER,
+                role TEXT,
+                message TEXT,
+                metadata TEXT,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY (user_id) REFERENCES users (id)
+                )`,
+            (err) => {
+                if (err) {
+                    // Table already created
+                }
+            });
+
+            // Original uploaded report files. The bytes live on disk under UPLOADS_DIR; this table
+            // keeps the metadata needed to serve and verify them.
+            db.exec(`CREATE TABLE IF NOT EXISTS report_files (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                user_id INTEGER,
+                analysis_id INTEGER,
+                file_name TEXT,
+                mime_type TEXT,
+                size_bytes INTEGER,
+                checksum TEXT,
+                storage_path TEXT,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY (user_id) REFERENCES users (id),
+                FOREIGN KEY (analysis_id) REFERENCES analyses (id)
+                )`,
+            (err) => {
+                if (err) {
+                    // Table already created
+                }
+            });
+
+            // People to call from the SOS screen, in the order the user added them
+            db.exec(`CREATE TABLE IF NOT EXISTS emergency_contacts (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                user_id INTEGER,
+                name TEXT,
+                relationship TEXT,
+                phone TEXT,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY (user_id) REFERENCES users (id)
+                )`,
+            (err) => {
+                if (err) {
+                    // Table already created
+                }
+            });
+
+            // Guided symptom interviews. transcript holds the questions asked and the answers given, as
+            // JSON; predictions are filled in once the interview is complete.
+            db.exec(`CREATE TABLE IF NOT EXISTS symptom_interviews (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                user_id INTEGER,
+                initial_symptoms TEXT,
+                transcript TEXT,
+                status TEXT DEFAULT 'in_progress',
+                predictions TEXT,
+                triage TEXT,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                completed_at DATETIME,
+                FOREIGN KEY (user_id) REFERENCES users (id)
+                )`,
+            (err) => {
+                if (err) {
+                    // Table already created
+                }
+            });
+
+            // Every symptom check, quick or interviewed, with the outcome the user reports afterwards
+            db.exec(`CREATE TABLE IF NOT EXISTS symptom_checks (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                user_id INTEGER,
+                symptoms TEXT,
+                predictions TEXT,
+                triage TEXT,
+                interview_id INTEGER,
+                outcome_diagnosis TEXT,
+                outcome_resolved INTEGER DEFAULT 0,
+                outcome_updated_at DATETIME,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY (user_id) REFERENCES users (id),
+                FOREIGN KEY (interview_id) REFERENCES symptom_interviews (id)
+                )`,
+            (err) => {
+                if (err) {
+                    // Table already created
+                }
+            });
+
+            // One symptom diary entry per user and day; symptoms are [{ name, severity, location }] as JSON
+            db.exec(`CREATE TABLE IF NOT EXISTS symptom_entries (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                user_id INTEGER,
+                entry_date TEXT,
+                overall INTEGER,
+                symptoms TEXT,
+                notes TEXT,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                UNIQUE (user_id, entry_date),
+                FOREIGN KEY (user_id) REFERENCES users (id)
+                )`,
+            (err) => {
+                if (err) {
+                    // Table already created
+                }
+            });
+
+            // A chat thread; chats rows point at one through conversation_id. The title is generated
+            // from the first exchange unless the user renames it first.
+            db.exec(`CREATE TABLE IF NOT EXISTS conversations (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                user_id INTEGER,
+                title TEXT,
+                pinned INTEGER DEFAULT 0,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY (user_id) REFERENCES users (id)
+                )`,
+            (err) => {
+                if (err) {
+                    // Table already created
+                }
+            });
+
+            COLUMN_MIGRATIONS.forEach(({ table, column, definition }) => {
+                db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`, (err) => {
+                    if (err && !/duplicate column/i.test(err.message)) {
+                        console.error(`Migration failed for ${table}.${column}:`, err.message);
+                    }
+                });
+            });
+
+            // Full-text search over chats, analyses and symptom checks, kept in sync by triggers
+            db.exec(SEARCH_INDEX_SCHEMA, (err) => {
+                if (err) {
+                    console.error("Could not create the search index:", err.message);
+                }
+            });
 
-        db.exec(`CREATE TABLE IF NOT EXISTS chats (
-            id INTEGER PRIMARY KEY AUTOINCREMENT,
-            user_id INTEGER,
-            role TEXT,
-            message TEXT,
-            metadata TEXT,
-            created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-            FOREIGN KEY (user_id) REFERENCES users (id)
-            )`,
-        (err) => {
-            if (err) {
-                // Table already created
-            }
+            // Needs chats.conversation_id, so it is queued after the migrations
+            backfillConversations(db);
+            indexExistingRecords(db);
         });
     }
 });
@@ -1,13 +1,40 @@
 const express = require('express');
-const { analyzeHealthReport, getChatResponse, getChatResponseTextOnly, predictSymptomsFromText, findHospitalsNearLocation, generateHealthTips } = require('../services/geminiService');
+const { providerName, assessReportQuality, analyzeHealthReport, getChatResponse, getChatResponseTextOnly, streamChatResponse, textToSpeech, generateConversationTitle, predictSymptomsFromText, findHospitalsNearLocation, generateHealthTips, describeAnalysisChanges } = require('../services/aiService');
+const { compareAnalyses } = require('../services/analysisComparison');
+const { ALLOWED_MIME_TYPES, saveReportFile, saveReportFiles, listReportFiles, readReportFile, contentDisposition } = require('../services/reportFiles');
+const { documentsFromRequest, validateDocuments, buildDocumentProvenance, formatReportData, parseStoredDocuments } = require('../services/reportDocuments');
+const { normalizeBiomarkers, parseStoredBiomarkers } = require('../services/biomarkers');
+const { trendKey } = require('../services/biomarkerCatalog');
+const { UNIT_PREFERENCES, standardizeBiomarkers, displayMarker } = require('../services/labUnits');
+const { SEXES } = require('../services/referenceRanges');
+const { normalizePredictions } = require('../services/predictions');
+const { evaluateReportQuality, parseStoredQuality } = require('../services/reportQuality');
+const { computeHealthScore, parseStoredScoreBreakdown } = require('../services/healthScore');
+const { RISK_INPUTS, parseRiskInputs, collectRiskInputs, calculateRiskScores } = require('../services/riskCalculators');
+const { listLabTests, manualResultsFromRequest, validateManualResults, formatManualResults, summarizeManualResults } = require('../services/manualResults');
+const { EMERGENCY_NUMBERS, triageMessage, escalateTriage } = require('../services/triage');
+const { nextQuestion, validateAnswer, transcriptEntry, reportedRedFlags, summarizeInterview } = require('../services/symptomInterview');
+const { RECENT_ANALYSES, buildSymptomContext, outcomeFromRequest, validateOutcome, formatSymptomCheckRow } = require('../services/symptomChecks');
+const { MAX_CONTACTS, contactFromRequest, validateContact } = require('../services/emergencyContacts');
+const { cleanTitle, titleFromMessage, conversationUpdateFromRequest, validateConversationUpdate, formatConversationRow, formatChatRow } = require('../services/conversations');
+const { DIARY_CONTEXT_DAYS, entryFromRequest, validateEntry, diaryRangeFromQuery, formatSymptomEntryRow, symptomTrends, diaryDigest } = require('../services/symptomDiary');
+const { symptomOptions, structuredSymptomsFromRequest, validateStructuredSymptoms, describeSymptoms, parseStoredStructuredSymptoms } = require('../services/structuredSymptoms');
+const { searchQueryFromRequest, validateSearchQuery, formatSearchRow } = require('../services/search');
+const { retrieveRecords, citedSources } = require('../services/retrieval');
 const db = require('../database.js');
 
 const router = express.Router();
 
+const PROFILE_COLUMNS = `id, name, email, age, weight, sex, height, unit_preference, medical_conditions, symptoms, medications, allergies, structured_symptoms`;
+
+// The DB stores structured symptoms as a JSON string
+const formatProfileUser = (user) => ({ ...user, structured_symptoms: parseStoredStructuredSymptoms(user.structured_symptoms) });
+
 router.get('/profile', (req, res) => {
     const userId = req.user.id;
-    const userSql = "SELECT id, name, email, age, weight, medical_conditions, symptoms FROM users WHERE id = ?";
-    const analysesSql = "SELECT id, summary, health_score, created_at FROM analyses WHERE user_id = ? ORDER BY created_at DESC";
+    const userSql = `SELECT ${PROFILE_COLUMNS} FROM users WHERE id = ?`;
+    // Low-confidence analyses are left out so they don't distort the health score trend
+    const analysesSql = "SELECT id, summary, health_score, rule_score, created_at FROM analyses WHERE user_id = ? AND low_confidence = 0 ORDER BY created_at DESC";
 
     db.get(userSql, [userId], (err, user) => {
         if (err) {
@@ -21,141 +48,977 @@ router.get('/profile', (req, res) => {
             if (err) {
                 return res.status(500).json({ error: "Error fetching analyses." });
             }
-            res.json({ user, analyses });
+            res.json({ user: formatProfileUser(user), analyses });
         });
     });
 });
 
 router.put('/profile', (req, res) => {
     const userId = req.user.id;
-    const { medical_conditions, symptoms } = req.body;
+    const { medical_conditions, symptoms, sex, height, unit_preference, medications, allergies } = req.body;
+    const structuredSymptoms = structuredSymptomsFromRequest(req.body.structured_symptoms);
+
+    if (sex && !SEXES.includes(sex)) {
+        return res.status(400).json({ error: "Sex must be 'male' or 'female'." });
+    }
+    if (height !== undefined && height !== null && height !== '' && !(Number(height) > 0)) {
+        return res.status(400).json({ error: "Height must be a positive number of centimeters." });
+    }
+    if (unit_preference !== undefined && !UNIT_PREFERENCES.includes(unit_preference)) {
+        return res.status(400).json({ error: `Unit preference must be one of: ${UNIT_PREFERENCES.join(', ')}.` });
+    }
+    const symptomsError = validateStructuredSymptoms(structuredSymptoms);
+    if (symptomsError) {
+        return res.status(400).json({ error: symptomsError });
+    }
 
-    const sql = `UPDATE users SET medical_conditions = ?, symptoms = ? WHERE id = ?`;
-    db.run(sql, [medical_conditions, symptoms, userId], function(err) {
+    // Fields left out of the request keep their stored values
+    const sql = `UPDATE users SET
+        medical_conditions = CASE WHEN ? THEN ? ELSE medical_conditions END,
+        symptoms = CASE WHEN ? THEN ? ELSE symptoms END,
+        sex = CASE WHEN ? THEN ? ELSE sex END,
+        height = CASE WHEN ? THEN ? ELSE height END,
+        unit_preference = COALESCE(?, unit_preference),
+        medications = CASE WHEN ? THEN ? ELSE medications END,
+        allergies = CASE WHEN ? THEN ? ELSE allergies END,
+        structured_symptoms = CASE WHEN ? THEN ? ELSE structured_symptoms END
+        WHERE id = ?`;
+    const params = [
+        medical_conditions !== undefined ? 1 : 0, medical_conditions || '',
+        symptoms !== undefined ? 1 : 0, symptoms || '',
+        sex !== undefined ? 1 : 0, sex || null,
+        height !== undefined ? 1 : 0, Number(height) > 0 ? Number(height) : null,
+        unit_preference || null,
+        medications !== undefined ? 1 : 0, medications || '',
+        allergies !== undefined ? 1 : 0, allergies || '',
+        req.body.structured_symptoms !== undefined ? 1 : 0, JSON.stringify(structuredSymptoms),
+        userId,
+    ];
+    db.run(sql, params, function(err) {
         if (err) {
             console.error("DB Error updating profile:", err.message);
             return res.status(500).json({ error: "Could not update profile." });
         }
         // Fetch the updated user to return it
-        db.get("SELECT id, name, email, age, weight, medical_conditions, symptoms FROM users WHERE id = ?", [userId], (err, user) => {
+        db.get(`SELECT ${PROFILE_COLUMNS} FROM users WHERE id = ?`, [userId], (err, user) => {
             if (err) {
                 return res.status(500).json({ error: "Could not retrieve updated profile." });
             }
-            res.json({ user });
+            res.json({ user: formatProfileUser(user) });
         });
     });
 });
 
+// Body regions, durations and patterns the symptom picker offers
+router.get('/symptom-options', (req, res) => {
+    res.json(symptomOptions());
+});
+
+// Reference ranges and the rule-based score use the profile at the time of analysis
+const standardizeAndScore = (userId, analysisResult, callback) => {
+    db.get("SELECT age, weight, sex, height FROM users WHERE id = ?", [userId], (err, profile) => {
+        if (err) {
+            console.error("DB error fetching profile for scoring:", err.message);
+        }
+        analysisResult.biomarkers = standardizeBiomarkers(analysisResult.biomarkers, profile || {});
+        analysisResult.scoreBreakdown = computeHealthScore(analysisResult.biomarkers, profile || {});
+        analysisResult.ruleScore = analysisResult.scoreBreakdown.overall;
+        callback(analysisResult);
+    });
+};
+
+// Inserts an analysis and calls back with its id. `createdAt` backdates results entered for an earlier test date.
+const storeAnalysis = ({ userId, reportData, analysis, createdAt }, callback) => {
+    const { summary, predictions, healthScore, recommendations, biomarkers, documents, lowConfidence, quality, ruleScore, scoreBreakdown, source } = analysis;
+    const sql = `INSERT INTO analyses (user_id, report_data, summary, predictions, health_score, recommendations, biomarkers, documents, low_confidence, quality, rule_score, score_breakdown, source, created_at)
+                 VALUES (?,?,?,?,?,?,?,?,?,?,?,?,?,COALESCE(?, CURRENT_TIMESTAMP))`;
+    const params = [userId, reportData, summary, JSON.stringify(predictions), healthScore, JSON.stringify(recommendations), JSON.stringify(biomarkers), JSON.stringify(documents), lowConfidence ? 1 : 0, JSON.stringify(quality), ruleScore, JSON.stringify(scoreBreakdown), source, createdAt || null];
+    db.run(sql, params, function(err) {
+        callback(err, err ? null : this.lastID);
+    });
+};
+
 router.post('/analyze', async (req, res) => {
-    const { reportText, fileData } = req.body;
     const userId = req.user.id; // from auth middleware
+    const documents = documentsFromRequest(req.body);
 
-    if (!reportText && !fileData) {
-        return res.status(400).json({ error: "Report text or file is required." });
+    const documentError = validateDocuments(documents);
+    if (documentError) {
+        return res.status(400).json({ error: documentError });
     }
 
     try {
-        const analysisResult = await analyzeHealthReport({ reportText, fileData });
-        
-        // Store analysis in DB
-        const { summary, predictions, healthScore, recommendations } = analysisResult;
-        const reportDataToStore = reportText || `[Analyzed PDF file]`;
-        const sql = `INSERT INTO analyses (user_id, report_data, summary, predictions, health_score, recommendations) VALUES (?,?,?,?,?,?)`;
-        const params = [userId, reportDataToStore, summary, JSON.stringify(predictions), healthScore, JSON.stringify(recommendations)];
-        
-        db.run(sql, params, function(err) {
+        // Nothing is analyzed for a rejected bundle. A low-confidence one is only analyzed once the
+        // user has seen the warning and sent it again with acceptLowConfidence.
+        const quality = evaluateReportQuality(documents, await assessReportQuality({ documents }));
+        if (quality.status === 'rejected' || (quality.status === 'low_confidence' && !req.body.acceptLowConfidence)) {
+            return res.status(422).json({ error: quality.reasons.join(' '), quality });
+        }
+
+        const analysisResult = await analyzeHealthReport({ documents });
+        analysisResult.biomarkers = normalizeBiomarkers(analysisResult.biomarkers);
+        analysisResult.predictions = normalizePredictions(analysisResult.predictions, documents.length);
+        analysisResult.documents = buildDocumentProvenance(documents, analysisResult.documents);
+        analysisResult.quality = quality;
+        analysisResult.lowConfidence = quality.status === 'low_confidence';
+        analysisResult.source = 'report';
+
+        standardizeAndScore(userId, analysisResult, () => {
+            // Files keep a link to the bundle document they belong to
+            const attachments = documents.flatMap((document, index) =>
+                document.attachments.map(attachment => ({ ...attachment, documentNumber: index + 1 })));
+
+            storeAnalysis({ userId, reportData: formatReportData(documents), analysis: analysisResult }, (err, analysisId) => {
+                if (err) {
+                    console.error("DB Error storing analysis:", err.message);
+                    // Non-fatal: the user still gets the analysis, just without an id to attach files to
+                    return res.json(analysisResult);
+                }
+                if (attachments.length > 0) {
+                    saveReportFiles({ userId, analysisId, attachments }, (err) => {
+                        if (err) console.error("Error storing uploaded report files:", err.message);
+                    });
+                }
+                // The id lets the client upload originals it only sent as text, like PDFs read in the browser
+                res.json({ ...analysisResult, id: analysisId });
+            });
+        });
+
+    } catch (error) {
+        console.error("Error in /analyze route:", error);
+        res.status(500).json({ error: error.message || "An internal error occurred during analysis." });
+    }
+});
+
+const EMERGENCY_CONTACT_COLUMNS = `id, name, relationship, phone, created_at`;
+
+router.get('/profile/emergency-contacts', (req, res) => {
+    const sql = `SELECT ${EMERGENCY_CONTACT_COLUMNS} FROM emergency_contacts WHERE user_id = ? ORDER BY id ASC`;
+    db.all(sql, [req.user.id], (err, contacts) => {
+        if (err) {
+            console.error("DB Error fetching emergency contacts:", err.message);
+            return res.status(500).json({ error: "Could not fetch emergency contacts." });
+        }
+        res.json({ contacts });
+    });
+});
+
+router.post('/profile/emergency-contacts', (req, res) => {
+    const userId = req.user.id;
+    const contact = contactFromRequest(req.body);
+    const contactError = validateContact(contact);
+    if (contactError) {
+        return res.status(400).json({ error: contactError });
+    }
+
+    // The limit is checked in the INSERT itself, so requests sent at the same time can't go past it
+    const sql = `INSERT INTO emergency_contacts (user_id, name, relationship, phone)
+        SELECT ?, ?, ?, ? WHERE (SELECT COUNT(*) FROM emergency_contacts WHERE user_id = ?) < ?`;
+    db.run(sql, [userId, contact.name, contact.relationship, contact.phone, userId, MAX_CONTACTS], function (err) {
+        if (err) {
+            console.error("DB Error saving emergency contact:", err.message);
+            return res.status(500).json({ error: "Could not save the emergency contact." });
+        }
+        if (this.changes === 0) {
+            return res.status(400).json({ error: `At most ${MAX_CONTACTS} emergency contacts can be saved.` });
+        }
+        db.get(`SELECT ${EMERGENCY_CONTACT_COLUMNS} FROM emergency_contacts WHERE id = ?`, [this.lastID], (err, saved) => {
+            if (err) {
+                return res.status(500).json({ error: "Could not retrieve the saved emergency contact." });
+            }
+            res.json({ contact: saved });
+        });
+    });
+});
+
+router.put('/profile/emergency-contacts/:id', (req, res) => {
+    const userId = req.user.id;
+    const contact = contactFromRequest(req.body);
+    const contactError = validateContact(contact);
+    if (contactError) {
+        return res.status(400).json({ error: contactError });
+    }
+
+    const sql = `UPDATE emergency_contacts SET name = ?, relationship = ?, phone = ? WHERE id = ? AND user_id = ?`;
+    db.run(sql, [contact.name, contact.relationship, contact.phone, req.params.id, userId], function (err) {
+        if (err) {
+            console.error("DB Error updating emergency contact:", err.message);
+            return res.status(500).json({ error: "Could not update the emergency contact." });
+        }
+        if (this.changes === 0) {
+            return res.status(404).json({ error: "Emergency contact not found." });
+        }
+        db.get(`SELECT ${EMERGENCY_CONTACT_COLUMNS} FROM emergency_contacts WHERE id = ?`, [req.params.id], (err, saved) => {
             if (err) {
-                console.error("DB Error storing analysis:", err.message);
-                // Non-fatal, proceed with sending response to user
+                return res.status(500).json({ error: "Could not retrieve the updated emergency contact." });
             }
+            res.json({ contact: saved });
         });
+    });
+});
+
+router.delete('/profile/emergency-contacts/:id', (req, res) => {
+    db.run("DELETE FROM emergency_contacts WHERE id = ? AND user_id = ?", [req.params.id, req.user.id], function (err) {
+        if (err) {
+            console.error("DB Error deleting emergency contact:", err.message);
+            return res.status(500).json({ error: "Could not delete the emergency contact." });
+        }
+        if (this.changes === 0) {
+            return res.status(404).json({ error: "Emergency contact not found." });
+        }
+        res.json({ deleted: true });
+    });
+});
+
+// Everything the SOS screen shows in one request, since it is opened in a hurry and maybe on a poor connection
+router.get('/sos', (req, res) => {
+    const userId = req.user.id;
+    const userSql = `SELECT name, age, sex, medical_conditions, medications, allergies FROM users WHERE id = ?`;
+    db.get(userSql, [userId], (err, user) => {
+        if (err) {
+            return res.status(500).json({ error: "Error fetching user data." });
+        }
+        if (!user) {
+            return res.status(404).json({ error: "User not found." });
+        }
+        const contactsSql = `SELECT ${EMERGENCY_CONTACT_COLUMNS} FROM emergency_contacts WHERE user_id = ? ORDER BY id ASC`;
+        db.all(contactsSql, [userId], (err, contacts) => {
+            if (err) {
+                console.error("DB Error fetching emergency contacts:", err.message);
+                return res.status(500).json({ error: "Could not fetch emergency contacts." });
+            }
+            res.json({ user, contacts, emergencyNumbers: EMERGENCY_NUMBERS });
+        });
+    });
+});
+
+// Tests the manual entry form suggests, with the units each can be entered in.
+router.get('/lab-tests', (req, res) => {
+    res.json({ tests: listLabTests() });
+});
 
-        res.json(analysisResult);
+// Stores lab results typed in by the user as an analysis of their own. With `analyze` they also go
+// to the provider for a summary, risks and recommendations; the entered values are kept either way.
+router.post('/lab-results', async (req, res) => {
+    const userId = req.user.id;
+    const entry = manualResultsFromRequest(req.body);
+
+    const entryError = validateManualResults(entry);
+    if (entryError) {
+        return res.status(400).json({ error: entryError });
+    }
 
+    const documents = [{ title: 'Manually entered results', reportText: formatManualResults(entry), attachments: [] }];
+    try {
+        // Without analysis there is no AI score; the rule-based score still applies
+        const analysisResult = req.body.analyze
+            ? await analyzeHealthReport({ documents })
+            : { healthScore: null, predictions: [], recommendations: [] };
+        analysisResult.biomarkers = normalizeBiomarkers(entry.results.map(result => ({ ...result, documentNumber: 1 })));
+        analysisResult.predictions = normalizePredictions(analysisResult.predictions, documents.length);
+        analysisResult.documents = buildDocumentProvenance(documents, analysisResult.documents);
+        analysisResult.quality = null;
+        analysisResult.lowConfidence = false;
+        analysisResult.source = 'manual';
+
+        standardizeAndScore(userId, analysisResult, () => {
+            if (!req.body.analyze) {
+                analysisResult.summary = summarizeManualResults(analysisResult.biomarkers);
+            }
+            // Midday keeps the stored date on the test date in any time zone the app is viewed from
+            const createdAt = entry.measuredOn ? `${entry.measuredOn} 12:00:00` : null;
+            storeAnalysis({ userId, reportData: documents[0].reportText, analysis: analysisResult, createdAt }, (err, analysisId) => {
+                if (err) {
+                    console.error("DB Error storing lab results:", err.message);
+                    return res.status(500).json({ error: "Could not save the lab results." });
+                }
+                res.json({ ...analysisResult, id: analysisId });
+            });
+        });
     } catch (error) {
-        console.error("Error in /analyze route:", error);
-        res.status(500).json({ error: error.message || "An internal error occurred during analysis." });
+        console.error("Error in /lab-results route:", error);
+        res.status(500).json({ error: error.message || "An internal error occurred while saving the lab results." });
     }
 });
 
+// The last DIARY_CONTEXT_DAYS days of the symptom diary as prompt lines, newest first. Like the rest
+// of the personalization, a failed lookup is logged and leaves the diary out.
+const loadDiaryDigest = (userId, callback) => {
+    const sql = `SELECT ${SYMPTOM_ENTRY_COLUMNS} FROM symptom_entries WHERE user_id = ? AND entry_date >= date('now', ?) ORDER BY entry_date DESC`;
+    db.all(sql, [userId, `-${DIARY_CONTEXT_DAYS} days`], (err, rows) => {
+        if (err) console.error("DB error fetching symptom diary:", err.message);
+        callback(diaryDigest((rows || []).map(formatSymptomEntryRow)));
+    });
+};
+
+// The profile, the diary digest and the stored records relevant to `message` (see retrieveRecords),
+// numbered so the reply can cite them
+const loadChatContext = (userId, message, callback) => {
+    const userSql = "SELECT age, weight, medical_conditions, symptoms FROM users WHERE id = ?";
+    db.get(userSql, [userId], (err, user) => {
+        if (err || !user) {
+            if (err) console.error("DB error fetching user context:", err.message);
+            return callback(null);
+        }
+        loadDiaryDigest(userId, (symptomDiary) => retrieveRecords(db, userId, message, (records) => callback({ ...user, symptomDiary, records })));
+    });
+};
+
+// The conversation a chat message belongs to: the given one, checked to belong to the user, or a new
+// one when the client sends none. Calls back with (err, conversation); an unknown id gives null.
+const resolveConversation = (userId, conversationId, callback) => {
+    if (conversationId) {
+        return db.get("SELECT id, title FROM conversations WHERE id = ? AND user_id = ?", [conversationId, userId], callback);
+    }
+    db.run("INSERT INTO conversations (user_id) VALUES (?)", [userId], function (err) {
+        callback(err, err ? null : { id: this.lastID, title: null });
+    });
+};
+
+// Stores one chat message and moves its conversation to the top of the list.
+// Calls back with the id of the stored message, or null if it couldn't be saved.
+const saveChatMessage = ({ userId, conversationId, role, message, metadata }, callback) => {
+    const insertSql = `INSERT INTO chats (user_id, conversation_id, role, message, metadata) VALUES (?,?,?,?,?)`;
+    db.run(insertSql, [userId, conversationId, role, message, JSON.stringify(metadata)], function (err) {
+        if (err) console.error(`DB error saving ${role} message:`, err.message);
+        const messageId = err ? null : this.lastID;
+        db.run("UPDATE conversations SET updated_at = CURRENT_TIMESTAMP WHERE id = ?", [conversationId], (err) => {
+            if (err) console.error('DB error updating conversation:', err.message);
+            callback(messageId);
+        });
+    });
+};
+
+// Names an untitled conversation after its first exchange, falling back to the opening message when
+// the provider can't. A title the user set in the meantime wins. Calls back with the current title.
+const titleConversation = async (conversation, message, aiText, callback) => {
+    if (conversation.title) {
+        return callback(conversation.title);
+    }
+    let title = '';
+    try {
+        title = cleanTitle(await generateConversationTitle(message, aiText));
+    } catch (error) {
+        console.error("Error generating conversation title:", error.message);
+    }
+    title = title || titleFromMessage(message);
+    db.run("UPDATE conversations SET title = ? WHERE id = ? AND title IS NULL", [title, conversation.id], (err) => {
+        if (err) console.error("DB error saving conversation title:", err.message);
+        db.get("SELECT title FROM conversations WHERE id = ?", [conversation.id], (err, row) => {
+            callback(row && row.title ? row.title : title);
+        });
+    });
+};
+
+// Replies to a message in `conversationId`, or in a new conversation when none is given. The response
+// carries the conversation ({ id, title }) so the client can send the follow-ups to it, and the
+// user's records the reply cites as `sources` (see citedSources).
 router.post('/chat', async (req, res) => {
-    const { message, history, voiceConfig } = req.body;
+    const { message, history, voiceConfig, conversationId } = req.body;
     const userId = req.user.id;
 
     if (!message) {
         return res.status(400).json({ error: "Message is required." });
     }
 
-    // Fetch user context for personalization
-    const userSql = "SELECT age, weight, medical_conditions, symptoms FROM users WHERE id = ?";
-    db.get(userSql, [userId], async (err, userContext) => {
+    resolveConversation(userId, conversationId, (err, conversation) => {
         if (err) {
-            console.error("DB error fetching user context:", err.message);
-            userContext = null; 
+            console.error("DB Error opening conversation:", err.message);
+            return res.status(500).json({ error: "Could not open the conversation." });
         }
-        
-        try {
-            // Persist the user's message
-            try {
-                const insertSql = `INSERT INTO chats (user_id, role, message, metadata) VALUES (?,?,?,?)`;
-                db.run(insertSql, [userId, 'user', message, JSON.stringify({ fromFrontend: true })]);
-            } catch (dbErr) {
-                console.error('Unexpected DB error saving user message:', dbErr);
-            }
+        if (!conversation) {
+            return res.status(404).json({ error: "Conversation not found." });
+        }
+
+        // Triage runs alongside the reply; triageMessage never rejects
+        const triagePromise = triageMessage(message);
 
-            let responseData;
+        // Fetch user context for personalization
+        loadChatContext(userId, message, async (userContext) => {
+            let responsePromise;
             // Decide which service to call based on voiceConfig
             if (voiceConfig && voiceConfig.enabled) {
-                responseData = await getChatResponse(message, history, userContext, voiceConfig);
+                responsePromise = getChatResponse(message, history, userContext, voiceConfig);
             } else {
-                responseData = await getChatResponseTextOnly(message, history, userContext);
+                responsePromise = getChatResponseTextOnly(message, history, userContext);
             }
+            // Keeps a failed reply from surfacing as an unhandled rejection while triage is awaited
+            responsePromise.catch(() => {});
+
+            // The message is stored before the reply is awaited, so it stays in the conversation if the reply fails
+            const triage = await triagePromise;
+            const userMessage = { userId, conversationId: conversation.id, role: 'user', message, metadata: { fromFrontend: true, triage } };
+            saveChatMessage(userMessage, async () => {
+                try {
+                    const responseData = await responsePromise;
+                    const aiText = responseData.response || '';
+                    const sources = citedSources(aiText, userContext ? userContext.records : []);
+
+                    const reply = { userId, conversationId: conversation.id, role: 'ai', message: aiText, metadata: { generatedBy: providerName, sources } };
+                    saveChatMessage(reply, () => titleConversation(conversation, message, aiText, (title) => {
+                        res.json({ ...responseData, triage, sources, conversation: { id: conversation.id, title } });
+                    }));
+                } catch (error) {
+                    console.error("Error in /chat route:", error);
+                    res.status(500).json({ error: error.message });
+                }
+            });
+        });
+    });
+});
+
+// Streaming variant of /chat using Server-Sent Events.
+// Events: `conversation` ({ id, title }) first and again once a new conversation has its title,
+// `triage` (see triageMessage) as soon as the message is triaged, `delta` ({ text }) per chunk,
+// `message` ({ id, response, sources }) once the reply is stored, `audio` ({ audio }) when voice output is ready,
+// `error` ({ error }) and finally `done`.
+router.post('/chat/stream', (req, res) => {
+    const { message, history, voiceConfig, conversationId } = req.body;
+    const userId = req.user.id;
+
+    if (!message) {
+        return res.status(400).json({ error: "Message is required." });
+    }
+
+    resolveConversation(userId, conversationId, (err, conversation) => {
+        if (err) {
+            console.error("DB Error opening conversation:", err.message);
+            return res.status(500).json({ error: "Could not open the conversation." });
+        }
+        if (!conversation) {
+            return res.status(404).json({ error: "Conversation not found." });
+        }
 
-            // Persist the AI response
+        res.set({
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+        });
+        res.flushHeaders();
+
+        const sendEvent = (event, data) => {
+            if (res.writableEnded) return;
+            res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        };
+
+        // Sent before anything else, so a client that stops the reply still knows where it was stored
+        sendEvent('conversation', { id: conversation.id, title: conversation.title });
+
+        // The client cancels by closing the connection; stop generating and keep what we have so far.
+        const abortController = new AbortController();
+        res.on('close', () => {
+            if (!res.writableEnded) abortController.abort();
+        });
+
+        // Triage runs alongside the reply so the banner can show before the first delta. The message is
+        // stored as soon as it is triaged, so it is kept even if the reply fails.
+        const userMessageSaved = triageMessage(message).then((triage) => {
+            sendEvent('triage', triage);
+            const userMessage = { userId, conversationId: conversation.id, role: 'user', message, metadata: { fromFrontend: true, triage } };
+            return new Promise(resolve => saveChatMessage(userMessage, resolve));
+        });
+
+        loadChatContext(userId, message, async (userContext) => {
+            let aiText = '';
+            let failed = false;
             try {
-                const aiText = responseData.response || '';
-                const insertSql2 = `INSERT INTO chats (user_id, role, message, metadata) VALUES (?,?,?,?)`;
-                db.run(insertSql2, [userId, 'ai', aiText, JSON.stringify({ generatedBy: 'gemini' })]);
-            } catch (dbErr) {
-                console.error('Unexpected DB error saving ai message:', dbErr);
+                for await (const delta of streamChatResponse(message, history, userContext, abortController.signal)) {
+                    aiText += delta;
+                    sendEvent('delta', { text: delta });
+                }
+            } catch (error) {
+                if (!abortController.signal.aborted) {
+                    console.error("Error in /chat/stream route:", error);
+                    failed = true;
+                    sendEvent('error', { error: error.message || 'Failed to get chat response.' });
+                }
             }
 
-            res.json(responseData);
-        } catch (error) {
-            console.error("Error in /chat route:", error);
-            res.status(500).json({ error: error.message });
-        }
+            await userMessageSaved;
+            const aborted = abortController.signal.aborted;
+            // Nothing to store; the `error` event has been sent
+            if (failed && !aiText) {
+                sendEvent('done', {});
+                return res.end();
+            }
+
+            const sources = citedSources(aiText, userContext ? userContext.records : []);
+            const metadata = { generatedBy: providerName, streamed: true, aborted, failed, sources };
+            saveChatMessage({ userId, conversationId: conversation.id, role: 'ai', message: aiText, metadata }, (messageId) => {
+                if (aborted) return;
+                sendEvent('message', { id: messageId, response: aiText, sources });
+
+                titleConversation(conversation, message, aiText, async (title) => {
+                    if (title !== conversation.title) {
+                        sendEvent('conversation', { id: conversation.id, title });
+                    }
+                    if (voiceConfig && voiceConfig.enabled && aiText) {
+                        const audio = await textToSpeech(aiText, voiceConfig.voice);
+                        if (audio) sendEvent('audio', { audio });
+                    }
+                    sendEvent('done', {});
+                    res.end();
+                });
+            });
+        });
     });
 });
 
-
 // Return chat history for the authenticated user
 router.get('/chats', (req, res) => {
     const userId = req.user.id;
-    const sql = `SELECT id, role, message, metadata, created_at FROM chats WHERE user_id = ? ORDER BY created_at ASC`;
+    const sql = `SELECT id, conversation_id, role, message, metadata, created_at FROM chats WHERE user_id = ? ORDER BY created_at ASC`;
     db.all(sql, [userId], (err, rows) => {
         if (err) {
             console.error('DB error fetching chats:', err.message);
             return res.status(500).json({ error: 'Failed to fetch chat history.' });
         }
-        // Parse metadata JSON where present
-        const chats = (rows || []).map(r => ({ id: r.id, role: r.role, message: r.message, metadata: r.metadata ? JSON.parse(r.metadata) : null, created_at: r.created_at }));
-        res.json({ chats });
+        res.json({ chats: (rows || []).map(formatChatRow) });
+    });
+});
+
+// Message count and a preview of the latest message come along for the sidebar
+const CONVERSATION_COLUMNS = `id, title, pinned, created_at, updated_at,
+    (SELECT COUNT(*) FROM chats WHERE chats.conversation_id = conversations.id) AS message_count,
+    (SELECT substr(message, 1, 120) FROM chats WHERE chats.conversation_id = conversations.id ORDER BY chats.id DESC LIMIT 1) AS last_message`;
+
+const sendConversation = (res, id) => {
+    db.get(`SELECT ${CONVERSATION_COLUMNS} FROM conversations WHERE id = ?`, [id], (err, row) => {
+        if (err || !row) {
+            return res.status(500).json({ error: "Could not retrieve the conversation." });
+        }
+        res.json({ conversation: formatConversationRow(row) });
+    });
+};
+
+// Pinned conversations first, then the most recently active
+router.get('/conversations', (req, res) => {
+    const sql = `SELECT ${CONVERSATION_COLUMNS} FROM conversations WHERE user_id = ? ORDER BY pinned DESC, updated_at DESC, id DESC`;
+    db.all(sql, [req.user.id], (err, rows) => {
+        if (err) {
+            console.error("DB Error fetching conversations:", err.message);
+            return res.status(500).json({ error: "Could not fetch conversations." });
+        }
+        res.json({ conversations: rows.map(formatConversationRow) });
     });
 });
 
-router.post('/predict-symptoms', async (req, res) => {
-    const { symptoms } = req.body;
-    if (!symptoms) {
-        return res.status(400).json({ error: "Symptoms text is required." });
+// An empty conversation; without a title it is named after its first exchange
+router.post('/conversations', (req, res) => {
+    const title = cleanTitle(req.body.title) || null;
+    db.run("INSERT INTO conversations (user_id, title) VALUES (?,?)", [req.user.id, title], function (err) {
+        if (err) {
+            console.error("DB Error creating conversation:", err.message);
+            return res.status(500).json({ error: "Could not create the conversation." });
+        }
+        sendConversation(res, this.lastID);
+    });
+});
+
+// Renames and/or pins a conversation
+router.put('/conversations/:id', (req, res) => {
+    const update = conversationUpdateFromRequest(req.body);
+    const updateError = validateConversationUpdate(update);
+    if (updateError) {
+        return res.status(400).json({ error: updateError });
     }
-    try {
-        const result = await predictSymptomsFromText(symptoms);
-        res.json(result);
-    } catch (error) {
-        console.error("Error in /predict-symptoms route:", error);
-        res.status(500).json({ error: error.message || "An internal error occurred during symptom prediction." });
+
+    const sql = `UPDATE conversations SET title = COALESCE(?, title), pinned = COALESCE(?, pinned) WHERE id = ? AND user_id = ?`;
+    const params = [update.title ?? null, update.pinned === undefined ? null : (update.pinned ? 1 : 0), req.params.id, req.user.id];
+    db.run(sql, params, function (err) {
+        if (err) {
+            console.error("DB Error updating conversation:", err.message);
+            return res.status(500).json({ error: "Could not update the conversation." });
+        }
+        if (this.changes === 0) {
+            return res.status(404).json({ error: "Conversation not found." });
+        }
+        sendConversation(res, req.params.id);
+    });
+});
+
+router.delete('/conversations/:id', (req, res) => {
+    const userId = req.user.id;
+    db.run("DELETE FROM conversations WHERE id = ? AND user_id = ?", [req.params.id, userId], function (err) {
+        if (err) {
+            console.error("DB Error deleting conversation:", err.message);
+            return res.status(500).json({ error: "Could not delete the conversation." });
+        }
+        if (this.changes === 0) {
+            return res.status(404).json({ error: "Conversation not found." });
+        }
+        db.run("DELETE FROM chats WHERE conversation_id = ? AND user_id = ?", [req.params.id, userId], (err) => {
+            if (err) {
+                console.error("DB Error deleting conversation messages:", err.message);
+                return res.status(500).json({ error: "Could not delete the conversation's messages." });
+            }
+            res.json({ deleted: true });
+        });
+    });
+});
+
+// One conversation with its messages, oldest first
+router.get('/conversations/:id/messages', (req, res) => {
+    const userId = req.user.id;
+    db.get(`SELECT ${CONVERSATION_COLUMNS} FROM conversations WHERE id = ? AND user_id = ?`, [req.params.id, userId], (err, row) => {
+        if (err) {
+            console.error("DB Error fetching conversation:", err.message);
+            return res.status(500).json({ error: "Could not fetch the conversation." });
+        }
+        if (!row) {
+            return res.status(404).json({ error: "Conversation not found." });
+        }
+        const sql = `SELECT id, conversation_id, role, message, metadata, created_at FROM chats WHERE conversation_id = ? AND user_id = ? ORDER BY created_at ASC, id ASC`;
+        db.all(sql, [row.id, userId], (err, messages) => {
+            if (err) {
+                console.error("DB Error fetching conversation messages:", err.message);
+                return res.status(500).json({ error: "Could not fetch the conversation." });
+            }
+            res.json({ conversation: formatConversationRow(row), messages: messages.map(formatChatRow) });
+        });
+    });
+});
+
+// Profile, recent analyses and the symptom diary for personalizing a symptom check. A failed lookup only costs the
+// personalization, so it is logged and the check goes ahead with a null context.
+const loadSymptomContext = (userId, callback) => {
+    const userSql = "SELECT age, weight, sex, medical_conditions, symptoms, medications, allergies FROM users WHERE id = ?";
+    db.get(userSql, [userId], (err, user) => {
+        if (err || !user) {
+            if (err) console.error("DB error fetching user context:", err.message);
+            return callback(null);
+        }
+        const analysesSql = `SELECT created_at, summary, predictions, biomarkers FROM analyses WHERE user_id = ? AND low_confidence = 0 ORDER BY created_at DESC LIMIT ?`;
+        db.all(analysesSql, [userId, RECENT_ANALYSES], (err, analyses) => {
+            if (err) console.error("DB error fetching recent analyses:", err.message);
+            loadDiaryDigest(userId, (symptomDiary) => callback(buildSymptomContext(user, analyses || [], symptomDiary)));
+        });
+    });
+};
+
+// Saves a finished check for the Profile history. A failed save is logged rather than failing the
+// check, whose result the user is waiting for; the callback then gets a null id.
+const storeSymptomCheck = ({ userId, symptoms, structuredSymptoms = [], predictions, triage, interviewId = null }, callback) => {
+    const sql = `INSERT INTO symptom_checks (user_id, symptoms, structured_symptoms, predictions, triage, interview_id) VALUES (?,?,?,?,?,?)`;
+    const params = [userId, symptoms, JSON.stringify(structuredSymptoms), JSON.stringify(predictions), JSON.stringify(triage), interviewId];
+    db.run(sql, params, function (err) {
+        if (err) console.error("DB Error saving symptom check:", err.message);
+        callback(err ? null : this.lastID);
+    });
+};
+
+// Symptoms picked on the body map become the profile's current symptoms, replacing the previous set.
+// Free-text-only checks leave them alone. A failed save is logged and doesn't hold up the check.
+const saveProfileSymptoms = (userId, structuredSymptoms, callback) => {
+    if (structuredSymptoms.length === 0) {
+        return callback();
+    }
+    db.run("UPDATE users SET structured_symptoms = ? WHERE id = ?", [JSON.stringify(structuredSymptoms), userId], (err) => {
+        if (err) console.error("DB Error saving profile symptoms:", err.message);
+        callback();
+    });
+};
+
+// Predicts from a free-text description, symptoms picked on the body map, or both
+router.post('/predict-symptoms', (req, res) => {
+    const userId = req.user.id;
+    const text = typeof req.body.symptoms === 'string' ? req.body.symptoms.trim() : '';
+    const structuredSymptoms = structuredSymptomsFromRequest(req.body.structuredSymptoms);
+    if (!text && structuredSymptoms.length === 0) {
+        return res.status(400).json({ error: "Describe your symptoms or pick them on the body map." });
+    }
+    const symptomsError = validateStructuredSymptoms(structuredSymptoms);
+    if (symptomsError) {
+        return res.status(400).json({ error: symptomsError });
+    }
+    const symptoms = describeSymptoms(text, structuredSymptoms);
+    saveProfileSymptoms(userId, structuredSymptoms, () => loadSymptomContext(userId, async (userContext) => {
+        try {
+            const [result, triage] = await Promise.all([
+                predictSymptomsFromText(text, userContext, structuredSymptoms),
+                triageMessage(symptoms),
+            ]);
+            storeSymptomCheck({ userId, symptoms, structuredSymptoms, predictions: result.predictions, triage }, (id) => {
+                res.json({ ...result, triage, id });
+            });
+        } catch (error) {
+            console.error("Error in /predict-symptoms route:", error);
+            res.status(500).json({ error: error.message || "An internal error occurred during symptom prediction." });
+        }
+    }));
+});
+
+const SYMPTOM_CHECK_COLUMNS = `symptom_checks.id, symptoms, symptom_checks.structured_symptoms, symptom_checks.predictions, symptom_checks.triage, interview_id,
+    outcome_diagnosis, outcome_resolved, outcome_updated_at, symptom_checks.created_at`;
+
+router.get('/symptom-checks', (req, res) => {
+    const sql = `SELECT ${SYMPTOM_CHECK_COLUMNS} FROM symptom_checks WHERE user_id = ? ORDER BY created_at DESC, id DESC`;
+    db.all(sql, [req.user.id], (err, rows) => {
+        if (err) {
+            console.error("DB Error fetching symptom checks:", err.message);
+            return res.status(500).json({ error: "Could not fetch symptom checks." });
+        }
+        res.json({ checks: rows.map(formatSymptomCheckRow) });
+    });
+});
+
+// A past check, with the interview transcript when it was an interview
+router.get('/symptom-checks/:id', (req, res) => {
+    const sql = `SELECT ${SYMPTOM_CHECK_COLUMNS}, symptom_interviews.transcript
+        FROM symptom_checks LEFT JOIN symptom_interviews ON symptom_interviews.id = symptom_checks.interview_id
+        WHERE symptom_checks.id = ? AND symptom_checks.user_id = ?`;
+    db.get(sql, [req.params.id, req.user.id], (err, row) => {
+        if (err) {
+            console.error("DB Error fetching symptom check:", err.message);
+            return res.status(500).json({ error: "Could not fetch the symptom check." });
+        }
+        if (!row) {
+            return res.status(404).json({ error: "Symptom check not found." });
+        }
+        res.json(formatSymptomCheckRow(row));
+    });
+});
+
+// Records what the symptoms turned out to be, so past checks can be compared with real outcomes
+router.put('/symptom-checks/:id/outcome', (req, res) => {
+    const userId = req.user.id;
+    const outcome = outcomeFromRequest(req.body);
+    const outcomeError = validateOutcome(outcome);
+    if (outcomeError) {
+        return res.status(400).json({ error: outcomeError });
+    }
+
+    const sql = `UPDATE symptom_checks SET outcome_diagnosis = ?, outcome_resolved = ?, outcome_updated_at = CURRENT_TIMESTAMP WHERE id = ? AND user_id = ?`;
+    db.run(sql, [outcome.diagnosis, outcome.resolved ? 1 : 0, req.params.id, userId], function (err) {
+        if (err) {
+            console.error("DB Error updating symptom check outcome:", err.message);
+            return res.status(500).json({ error: "Could not save the outcome." });
+        }
+        if (this.changes === 0) {
+            return res.status(404).json({ error: "Symptom check not found." });
+        }
+        db.get(`SELECT ${SYMPTOM_CHECK_COLUMNS} FROM symptom_checks WHERE id = ?`, [req.params.id], (err, row) => {
+            if (err || !row) {
+                return res.status(500).json({ error: "Could not retrieve the updated symptom check." });
+            }
+            res.json(formatSymptomCheckRow(row));
+        });
+    });
+});
+
+const SYMPTOM_ENTRY_COLUMNS = `id, entry_date, overall, symptoms, notes, created_at, updated_at`;
+
+// Diary entries in a date range (the last 90 days by default), oldest first, with per-symptom trends
+router.get('/symptom-diary', (req, res) => {
+    const range = diaryRangeFromQuery(req.query);
+    if (range.error) {
+        return res.status(400).json({ error: range.error });
+    }
+    const sql = `SELECT ${SYMPTOM_ENTRY_COLUMNS} FROM symptom_entries WHERE user_id = ? AND entry_date BETWEEN ? AND ? ORDER BY entry_date ASC`;
+    db.all(sql, [req.user.id, range.from, range.to], (err, rows) => {
+        if (err) {
+            console.error("DB Error fetching symptom diary:", err.message);
+            return res.status(500).json({ error: "Could not fetch the symptom diary." });
+        }
+        const entries = rows.map(formatSymptomEntryRow);
+        res.json({ from: range.from, to: range.to, entries, trends: symptomTrends(entries) });
+    });
+});
+
+const sendSymptomEntry = (res, id) => {
+    db.get(`SELECT ${SYMPTOM_ENTRY_COLUMNS} FROM symptom_entries WHERE id = ?`, [id], (err, row) => {
+        if (err || !row) {
+            return res.status(500).json({ error: "Could not retrieve the diary entry." });
+        }
+        res.json({ entry: formatSymptomEntryRow(row) });
+    });
+};
+
+router.post('/symptom-diary', (req, res) => {
+    const entry = entryFromRequest(req.body);
+    const entryError = validateEntry(entry);
+    if (entryError) {
+        return res.status(400).json({ error: entryError });
+    }
+
+    const sql = `INSERT INTO symptom_entries (user_id, entry_date, overall, symptoms, notes) VALUES (?,?,?,?,?)`;
+    db.run(sql, [req.user.id, entry.entryDate, entry.overall, JSON.stringify(entry.symptoms), entry.notes], function (err) {
+        if (err && /UNIQUE/i.test(err.message)) {
+            return res.status(400).json({ error: `There is already a diary entry for ${entry.entryDate}; edit it instead.` });
+        }
+        if (err) {
+            console.error("DB Error saving diary entry:", err.message);
+            return res.status(500).json({ error: "Could not save the diary entry." });
+        }
+        sendSymptomEntry(res, this.lastID);
+    });
+});
+
+router.put('/symptom-diary/:id', (req, res) => {
+    const entry = entryFromRequest(req.body);
+    const entryError = validateEntry(entry);
+    if (entryError) {
+        return res.status(400).json({ error: entryError });
+    }
+
+    const sql = `UPDATE symptom_entries SET entry_date = ?, overall = ?, symptoms = ?, notes = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND user_id = ?`;
+    db.run(sql, [entry.entryDate, entry.overall, JSON.stringify(entry.symptoms), entry.notes, req.params.id, req.user.id], function (err) {
+        if (err && /UNIQUE/i.test(err.message)) {
+            return res.status(400).json({ error: `There is already a diary entry for ${entry.entryDate}.` });
+        }
+        if (err) {
+            console.error("DB Error updating diary entry:", err.message);
+            return res.status(500).json({ error: "Could not update the diary entry." });
+        }
+        if (this.changes === 0) {
+            return res.status(404).json({ error: "Diary entry not found." });
+        }
+        sendSymptomEntry(res, req.params.id);
+    });
+});
+
+router.delete('/symptom-diary/:id', (req, res) => {
+    db.run("DELETE FROM symptom_entries WHERE id = ? AND user_id = ?", [req.params.id, req.user.id], function (err) {
+        if (err) {
+            console.error("DB Error deleting diary entry:", err.message);
+            return res.status(500).json({ error: "Could not delete the diary entry." });
+        }
+        if (this.changes === 0) {
+            return res.status(404).json({ error: "Diary entry not found." });
+        }
+        res.json({ deleted: true });
+    });
+});
+
+// The DB stores the transcript, predictions and triage as JSON strings
+const formatInterviewRow = (row) => {
+    const transcript = JSON.parse(row.transcript || '[]');
+    return {
+        id: row.id,
+        status: row.status,
+        initialSymptoms: row.initial_symptoms,
+        structuredSymptoms: parseStoredStructuredSymptoms(row.structured_symptoms),
+        transcript,
+        nextQuestion: row.status === 'complete' ? null : nextQuestion(row.initial_symptoms, transcript),
+        predictions: row.predictions ? JSON.parse(row.predictions) : null,
+        triage: row.triage ? JSON.parse(row.triage) : null,
+        created_at: row.created_at,
+        completed_at: row.completed_at,
+    };
+};
+
+const INTERVIEW_COLUMNS = `id, initial_symptoms, structured_symptoms, transcript, status, predictions, triage, created_at, completed_at`;
+
+const sendInterview = (res, id) => {
+    db.get(`SELECT ${INTERVIEW_COLUMNS} FROM symptom_interviews WHERE id = ?`, [id], (err, row) => {
+        if (err || !row) {
+            return res.status(500).json({ error: "Could not retrieve the symptom interview." });
+        }
+        res.json(formatInterviewRow(row));
+    });
+};
+
+// Starts a guided symptom interview from the user's own description and/or symptoms picked on the
+// body map; the response carries the first question.
+router.post('/symptom-interviews', async (req, res) => {
+    const userId = req.user.id;
+    const text = typeof req.body.symptoms === 'string' ? req.body.symptoms.trim() : '';
+    const structuredSymptoms = structuredSymptomsFromRequest(req.body.structuredSymptoms);
+    if (!text && structuredSymptoms.length === 0) {
+        return res.status(400).json({ error: "Describe your symptoms or pick them on the body map." });
+    }
+    const symptomsError = validateStructuredSymptoms(structuredSymptoms);
+    if (symptomsError) {
+        return res.status(400).json({ error: symptomsError });
     }
+    const initialSymptoms = describeSymptoms(text, structuredSymptoms);
+    const triage = await triageMessage(initialSymptoms);
+    const sql = `INSERT INTO symptom_interviews (user_id, initial_symptoms, structured_symptoms, transcript, triage) VALUES (?,?,?,?,?)`;
+    db.run(sql, [userId, initialSymptoms, JSON.stringify(structuredSymptoms), '[]', JSON.stringify(triage)], function (err) {
+        if (err) {
+            console.error("DB Error starting symptom interview:", err.message);
+            return res.status(500).json({ error: "Could not start the symptom interview." });
+        }
+        const interviewId = this.lastID;
+        saveProfileSymptoms(userId, structuredSymptoms, () => sendInterview(res, interviewId));
+    });
+});
+
+// Answers the question the interview is waiting on. The answer to the last question completes the
+// interview: the transcript is summarized and sent for prediction, and the result is stored with it.
+router.post('/symptom-interviews/:id/answers', (req, res) => {
+    const userId = req.user.id;
+    const { questionId, answer } = req.body;
+
+    db.get(`SELECT ${INTERVIEW_COLUMNS} FROM symptom_interviews WHERE id = ? AND user_id = ?`, [req.params.id, userId], (err, row) => {
+        if (err) {
+            return res.status(500).json({ error: "Error fetching the symptom interview." });
+        }
+        if (!row) {
+            return res.status(404).json({ error: "Symptom interview not found." });
+        }
+        if (row.status === 'complete') {
+            return res.status(400).json({ error: "This symptom interview is already complete." });
+        }
+
+        const interview = formatInterviewRow(row);
+        const question = interview.nextQuestion;
+        if (!question || question.id !== questionId) {
+            return res.status(400).json({ error: "That question is not the one being asked; reload the interview." });
+        }
+        const answerError = validateAnswer(question, answer);
+        if (answerError) {
+            return res.status(400).json({ error: answerError });
+        }
+
+        const transcript = [...interview.transcript, transcriptEntry(question, answer)];
+        // Reported red flags raise the urgency straight away, without waiting for the end of the interview
+        let triage = escalateTriage(interview.triage, reportedRedFlags(transcript));
+
+        if (nextQuestion(interview.initialSymptoms, transcript)) {
+            const sql = `UPDATE symptom_interviews SET transcript = ?, triage = ? WHERE id = ?`;
+            return db.run(sql, [JSON.stringify(transcript), JSON.stringify(triage), row.id], (err) => {
+                if (err) {
+                    console.error("DB Error saving interview answer:", err.message);
+                    return res.status(500).json({ error: "Could not save the answer." });
+                }
+                sendInterview(res, row.id);
+            });
+        }
+
+        loadSymptomContext(userId, async (userContext) => {
+            try {
+                const summary = summarizeInterview(interview.initialSymptoms, transcript);
+                const [result, summaryTriage] = await Promise.all([
+                    predictSymptomsFromText(summary, userContext, interview.structuredSymptoms),
+                    triageMessage(summary),
+                ]);
+                triage = escalateTriage(summaryTriage, [
+                    ...reportedRedFlags(transcript),
+                    ...triage.reasons.map(reason => ({ urgency: triage.urgency, reason })),
+                ]);
+                const sql = `UPDATE symptom_interviews SET transcript = ?, triage = ?, predictions = ?, status = 'complete', completed_at = CURRENT_TIMESTAMP WHERE id = ?`;
+                db.run(sql, [JSON.stringify(transcript), JSON.stringify(triage), JSON.stringify(result.predictions), row.id], (err) => {
+                    if (err) {
+                        console.error("DB Error completing symptom interview:", err.message);
+                        return res.status(500).json({ error: "Could not save the interview results." });
+                    }
+                    const check = {
+                        userId,
+                        symptoms: interview.initialSymptoms,
+                        structuredSymptoms: interview.structuredSymptoms,
+                        predictions: result.predictions,
+                        triage,
+                        interviewId: row.id,
+                    };
+                    storeSymptomCheck(check, () => sendInterview(res, row.id));
+                });
+            } catch (error) {
+                console.error("Error completing symptom interview:", error);
+                res.status(500).json({ error: error.message || "An internal error occurred during symptom prediction." });
+            }
+        });
+    });
 });
 
 router.post('/find-hospitals', async (req, res) => {
@@ -172,28 +1035,286 @@ router.post('/find-hospitals', async (req, res) => {
     }
 });
 
-router.get('/latest-analysis', (req, res) => {
-    const userId = req.user.id;
-    const sql = `SELECT summary, predictions, health_score, recommendations FROM analyses WHERE user_id = ? ORDER BY created_at DESC LIMIT 1`;
+const ANALYSIS_COLUMNS = `id, report_data, summary, predictions, health_score, recommendations, biomarkers, documents, low_confidence, quality, rule_score, score_breakdown, source, created_at`;
+
+// The DB stores predictions, recommendations, biomarkers, documents, quality and the score breakdown as JSON strings
+const formatAnalysisRow = (row) => ({
+    ...row,
+    predictions: JSON.parse(row.predictions || '[]'),
+    recommendations: JSON.parse(row.recommendations || '[]'),
+    biomarkers: parseStoredBiomarkers(row.biomarkers),
+    documents: parseStoredDocuments(row.documents),
+    quality: parseStoredQuality(row.quality),
+    lowConfidence: !!row.low_confidence,
+    scoreBreakdown: parseStoredScoreBreakdown(row.score_breakdown),
+    ruleScore: row.rule_score,
+    healthScore: row.health_score
+});
 
-    db.get(sql, [userId], (err, row) => {
+// Sends a single stored analysis, or 404 when the query matched nothing.
+const sendAnalysis = (res, sql, params) => {
+    db.get(sql, params, (err, row) => {
         if (err) {
             return res.status(500).json({ error: "Database error." });
         }
         if (!row) {
             return res.status(404).json({ error: "No analysis found." });
         }
-        // The DB stores predictions and recommendations as JSON strings
-        const result = {
-            ...row,
-            predictions: JSON.parse(row.predictions || '[]'),
-            recommendations: JSON.parse(row.recommendations || '[]'),
-            healthScore: row.health_score
-        };
+        res.json(formatAnalysisRow(row));
+    });
+};
+
+// Paginated list of the user's analyses, newest first. Use /analyses/:id for the full record.
+router.get('/analyses', (req, res) => {
+    const userId = req.user.id;
+    const page = Math.max(1, parseInt(req.query.page, 10) || 1);
+    const limit = Math.min(50, Math.max(1, parseInt(req.query.limit, 10) || 10));
+    const offset = (page - 1) * limit;
+
+    db.get(`SELECT COUNT(*) AS total FROM analyses WHERE user_id = ?`, [userId], (err, countRow) => {
+        if (err) {
+            return res.status(500).json({ error: "Database error." });
+        }
+        // file_count is 0 for analyses of pasted text
+        const sql = `SELECT a.id, a.summary, a.health_score, a.rule_score, a.low_confidence, a.source, a.created_at,
+                            (SELECT COUNT(*) FROM report_files f WHERE f.analysis_id = a.id) AS file_count
+                     FROM analyses a
+                     WHERE a.user_id = ? ORDER BY a.created_at DESC, a.id DESC LIMIT ? OFFSET ?`;
+        db.all(sql, [userId, limit, offset], (err, rows) => {
+            if (err) {
+                return res.status(500).json({ error: "Database error." });
+            }
+            const total = countRow.total;
+            res.json({ analyses: rows, page, limit, total, hasMore: offset + rows.length < total });
+        });
+    });
+});
+
+// Loads two of the user's analyses for comparison. The older one always becomes `base`,
+// whichever order the ids were given in.
+const loadAnalysisPair = (userId, firstId, secondId, callback) => {
+    if (!firstId || !secondId || String(firstId) === String(secondId)) {
+        return callback({ status: 400, error: "Two different analysis ids are required." });
+    }
+    const sql = `SELECT ${ANALYSIS_COLUMNS} FROM analyses WHERE user_id = ? AND id IN (?, ?) ORDER BY created_at ASC, id ASC`;
+    db.all(sql, [userId, firstId, secondId], (err, rows) => {
+        if (err) {
+            return callback({ status: 500, error: "Database error." });
+        }
+        if (rows.length !== 2) {
+            return callback({ status: 404, error: "One or both analyses were not found." });
+        }
+        const [base, target] = rows.map(formatAnalysisRow);
+        callback(null, { base, target, comparison: compareAnalyses(base, target) });
+    });
+};
+
+router.get('/analyses/compare', (req, res) => {
+    loadAnalysisPair(req.user.id, req.query.base, req.query.target, (err, result) => {
+        if (err) {
+            return res.status(err.status).json({ error: err.error });
+        }
         res.json(result);
     });
 });
 
+// The narrative is a separate request so the diff itself renders without waiting on the AI.
+router.post('/analyses/compare/narrative', (req, res) => {
+    const { baseId, targetId } = req.body;
+    loadAnalysisPair(req.user.id, baseId, targetId, async (err, result) => {
+        if (err) {
+            return res.status(err.status).json({ error: err.error });
+        }
+        try {
+            const narrative = await describeAnalysisChanges(result.base, result.target, result.comparison);
+            res.json({ narrative });
+        } catch (error) {
+            res.status(500).json({ error: error.message || "Failed to generate comparison summary." });
+        }
+    });
+});
+
+router.get('/analyses/:id', (req, res) => {
+    const sql = `SELECT ${ANALYSIS_COLUMNS} FROM analyses WHERE user_id = ? AND id = ?`;
+    sendAnalysis(res, sql, [req.user.id, req.params.id]);
+});
+
+router.get('/analyses/:id/files', (req, res) => {
+    listReportFiles(req.user.id, req.params.id, (err, files) => {
+        if (err) {
+            return res.status(500).json({ error: "Database error." });
+        }
+        res.json({ files });
+    });
+});
+
+/**
+ * Stores an original next to an analysis that was made from its text, such as a PDF read in the
+ * browser. The body is the file itself, sent with its own Content-Type so it doesn't have to be
+ * base64-encoded into JSON; `name` and `document` (the 1-based bundle document) are query parameters.
+ */
+router.post('/analyses/:id/files', express.raw({ type: ALLOWED_MIME_TYPES, limit: '10mb' }), (req, res) => {
+    const userId = req.user.id;
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ error: "Send the file as the request body: a PDF or a JPEG, PNG or HEIC photo." });
+    }
+    db.get(`SELECT id, documents FROM analyses WHERE user_id = ? AND id = ?`, [userId, req.params.id], (err, analysis) => {
+        if (err) {
+            console.error("DB Error fetching analysis for upload:", err.message);
+            return res.status(500).json({ error: "Could not store the file." });
+        }
+        if (!analysis) {
+            return res.status(404).json({ error: "Analysis not found." });
+        }
+        const documentCount = Math.max(parseStoredDocuments(analysis.documents).length, 1);
+        const documentNumber = req.query.document === undefined ? 1 : Number(req.query.document);
+        if (!Number.isInteger(documentNumber) || documentNumber < 1 || documentNumber > documentCount) {
+            return res.status(400).json({ error: `Document must be a number from 1 to ${documentCount}.` });
+        }
+        const fileData = { data: req.body, mimeType: req.get('Content-Type').split(';')[0].trim(), name: req.query.name, documentNumber };
+        saveReportFile({ userId, analysisId: analysis.id, fileData }, (err, file) => {
+            if (err) {
+                console.error("Error storing uploaded report file:", err.message);
+                return res.status(500).json({ error: "Could not store the file." });
+            }
+            res.json({ file });
+        });
+    });
+});
+
+// Serves an original uploaded file exactly as it was analyzed. Without a file id, the first one.
+const sendReportFile = (req, res) => {
+    readReportFile(req.user.id, req.params.id, req.params.fileId, (err, file) => {
+        if (err) {
+            console.error("Error reading report file:", err.message);
+            return res.status(500).json({ error: "Could not read the stored report file." });
+        }
+        if (!file) {
+            return res.status(404).json({ error: "No original file is stored for this analysis." });
+        }
+        // A header Node refuses would otherwise throw out of this callback and take the server down
+        try {
+            res.set({
+                'Content-Type': file.mime_type,
+                'Content-Length': file.size_bytes,
+                'Content-Disposition': contentDisposition(file.file_name),
+                'X-Content-SHA256': file.checksum,
+            });
+        } catch (error) {
+            console.error("Error sending report file:", error.message);
+            ['Content-Disposition', 'Content-Length', 'X-Content-SHA256'].forEach(header => res.removeHeader(header));
+            return res.status(500).json({ error: "Could not send the stored report file." });
+        }
+        res.send(file.buffer);
+    });
+};
+
+router.get('/analyses/:id/file', sendReportFile);
+router.get('/analyses/:id/files/:fileId', sendReportFile);
+
+router.get('/latest-analysis', (req, res) => {
+    const sql = `SELECT ${ANALYSIS_COLUMNS} FROM analyses WHERE user_id = ? ORDER BY created_at DESC, id DESC LIMIT 1`;
+    sendAnalysis(res, sql, [req.user.id]);
+});
+
+// Each trend row carries the user's unit preference so values can be converted for display
+const UNIT_PREFERENCE_COLUMN = `(SELECT unit_preference FROM users WHERE users.id = analyses.user_id) AS unit_preference`;
+
+// List every biomarker the user has on record, with its most recent value.
+// Here and in the history below, low-confidence analyses are skipped so misread values don't enter trends,
+// and values are shown in the unit the user prefers.
+router.get('/biomarkers', (req, res) => {
+    const userId = req.user.id;
+    const sql = `SELECT biomarkers, created_at, ${UNIT_PREFERENCE_COLUMN} FROM analyses WHERE user_id = ? AND biomarkers IS NOT NULL AND low_confidence = 0 ORDER BY created_at ASC, id ASC`;
+
+    db.all(sql, [userId], (err, rows) => {
+        if (err) {
+            return res.status(500).json({ error: "Database error." });
+        }
+        const byKey = new Map();
+        rows.forEach(row => {
+            parseStoredBiomarkers(row.biomarkers).forEach(marker => {
+                const key = trendKey(marker.name);
+                const entry = byKey.get(key) || { name: marker.name, count: 0 };
+                const { value, unit } = displayMarker(marker, row.unit_preference);
+                entry.count += 1;
+                entry.latestValue = value;
+                entry.unit = unit;
+                entry.latestFlag = marker.flag;
+                entry.lastMeasuredAt = row.created_at;
+                byKey.set(key, entry);
+            });
+        });
+        const biomarkers = [...byKey.values()].sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+        res.json({ biomarkers });
+    });
+});
+
+// Values of a single biomarker across all of the user's analyses, oldest first.
+router.get('/biomarkers/:name/history', (req, res) => {
+    const userId = req.user.id;
+    const key = trendKey(req.params.name);
+    const sql = `SELECT id, biomarkers, created_at, ${UNIT_PREFERENCE_COLUMN} FROM analyses WHERE user_id = ? AND biomarkers IS NOT NULL AND low_confidence = 0 ORDER BY created_at ASC, id ASC`;
+
+    db.all(sql, [userId], (err, rows) => {
+        if (err) {
+            return res.status(500).json({ error: "Database error." });
+        }
+        const points = [];
+        let displayName = req.params.name;
+        rows.forEach(row => {
+            const marker = parseStoredBiomarkers(row.biomarkers).find(m => trendKey(m.name) === key);
+            if (marker) {
+                displayName = marker.name;
+                points.push({
+                    analysisId: row.id,
+                    date: row.created_at,
+                    ...displayMarker(marker, row.unit_preference),
+                    flag: marker.flag,
+                });
+            }
+        });
+        if (points.length === 0) {
+            return res.status(404).json({ error: "No values found for this biomarker." });
+        }
+        // The reference band shown with the chart comes from the most recent report.
+        const latest = points[points.length - 1];
+        res.json({
+            name: displayName,
+            unit: latest.unit,
+            referenceLow: latest.referenceLow,
+            referenceHigh: latest.referenceHigh,
+            points,
+        });
+    });
+});
+
+// Validated risk scores from the profile and stored lab values. Inputs that can't be derived can be
+// passed in the query string (see RISK_INPUTS), which also overrides derived values.
+router.get('/risk-scores', (req, res) => {
+    const userId = req.user.id;
+    db.get("SELECT age, weight, sex, height, medical_conditions FROM users WHERE id = ?", [userId], (err, profile) => {
+        if (err) {
+            return res.status(500).json({ error: "Database error." });
+        }
+        if (!profile) {
+            return res.status(404).json({ error: "User not found." });
+        }
+        const sql = `SELECT biomarkers FROM analyses WHERE user_id = ? AND biomarkers IS NOT NULL AND low_confidence = 0 ORDER BY created_at DESC, id DESC`;
+        db.all(sql, [userId], (err, rows) => {
+            if (err) {
+                return res.status(500).json({ error: "Database error." });
+            }
+            const { inputs, sources } = collectRiskInputs({
+                profile,
+                biomarkerSets: rows.map(row => parseStoredBiomarkers(row.biomarkers)),
+                provided: parseRiskInputs(req.query),
+            });
+            res.json({ inputs, sources, definitions: RISK_INPUTS, scores: calculateRiskScores(inputs) });
+        });
+    });
+});
+
 router.post('/health-tips', async (req, res) => {
     const { analysis } = req.body;
     if (!analysis) {
@@ -207,5 +1328,33 @@ router.post('/health-tips', async (req, res) => {
     }
 });
 
+// Full-text search over the user's chat messages, analyses and symptom checks, best matches first.
+// Query: q (required), type (chat, analysis or symptom_check) and limit.
+router.get('/search', (req, res) => {
+    const query = searchQueryFromRequest(req.query);
+    const validationError = validateSearchQuery(query);
+    if (validationError) {
+        return res.status(400).json({ error: validationError });
+    }
+
+    const sql = `SELECT s.kind, s.source_id, s.created_at,
+            snippet(search_index, 0, char(1), char(2), '…', 16) AS snippet,
+            c.conversation_id, c.role AS chat_role, conv.title AS conversation_title, a.source AS analysis_source
+        FROM search_index s
+        LEFT JOIN chats c ON s.kind = 'chat' AND c.id = s.source_id
+        LEFT JOIN conversations conv ON conv.id = c.conversation_id
+        LEFT JOIN analyses a ON s.kind = 'analysis' AND a.id = s.source_id
+        WHERE search_index MATCH ? AND s.user_id = ? AND (? IS NULL OR s.kind = ?)
+        ORDER BY bm25(search_index)
+        LIMIT ?`;
+    db.all(sql, [query.match, req.user.id, query.kind, query.kind, query.limit], (err, rows) => {
+        if (err) {
+            console.error("DB Error searching:", err.message);
+            return res.status(500).json({ error: "Could not run the search." });
+        }
+        res.json({ query: query.text, results: rows.map(formatSearchRow) });
+    });
+});
+
 
 module.exports = router;
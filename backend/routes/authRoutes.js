@@ -2,6 +2,7 @@ const express = require('express');
 const bcrypt = require('bcryptjs');
 const jwt = require('jsonwebtoken');
 const db = require('../database.js');
+const { SEXES } = require('../services/referenceRanges');
 
 const router = express.Router();
 require('dotenv').config();
@@ -10,17 +11,24 @@ const JWT_SECRET = process.env.JWT_SECRET || 'your-default-super-secret-key';
 
 // Register
 router.post('/register', async (req, res) => {
-    const { name, email, password, age, weight, medical_conditions, symptoms } = req.body;
+    const { name, email, password, age, weight, sex, height, medical_conditions, symptoms } = req.body;
 
     if (!name || !email || !password || !age || !weight) {
         return res.status(400).json({ "error": "Please provide all required fields." });
     }
+    // Sex and height are optional; they select reference ranges and allow BMI-based scoring
+    if (sex && !SEXES.includes(sex)) {
+        return res.status(400).json({ "error": "Sex must be 'male' or 'female'." });
+    }
+    if (height !== undefined && height !== null && height !== '' && !(Number(height) > 0)) {
+        return res.status(400).json({ "error": "Height must be a positive number of centimeters." });
+    }
 
     const salt = await bcrypt.genSalt(10);
     const hashedPassword = await bcrypt.hash(password, salt);
 
-    const sql = `INSERT INTO users (name, email, password, age, weight, medical_conditions, symptoms) VALUES (?,?,?,?,?,?,?)`;
-    const params = [name, email, hashedPassword, age, weight, medical_conditions || '', symptoms || ''];
+    const sql = `INSERT INTO users (name, email, password, age, weight, sex, height, medical_conditions, symptoms) VALUES (?,?,?,?,?,?,?,?,?)`;
+    const params = [name, email, hashedPassword, age, weight, sex || null, Number(height) > 0 ? Number(height) : null, medical_conditions || '', symptoms || ''];
 
     db.run(sql, params, function (err, result) {
         if (err) {
@@ -6,6 +6,7 @@ require('./database.js'); // Initializes DB connection
 const authRoutes = require('./routes/authRoutes');
 const aiRoutes = require('./routes/aiRoutes');
 const authMiddleware = require('./middleware/auth');
+const { providerName } = require('./services/aiService');
 
 const app = express();
 
@@ -81,5 +82,5 @@ process.on('unhandledRejection', (reason) => {
 });
 
 app.listen(PORT, () => {
-    log('info', `Server is running on port ${PORT}`, { apiKeysInfo });
+    log('info', `Server is running on port ${PORT}`, { aiProvider: providerName, apiKeysInfo });
 });
\ No newline at end of file
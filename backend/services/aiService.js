@@ -0,0 +1,53 @@
+require('dotenv').config();
+
+/**
+ * Every AI feature goes through a provider. A provider is a module exporting:
+ *  - name: string
+ *  - assessReportQuality({ documents }) -> { documents: [{ number, isMedicalReport, documentType, legibility, language, issues }] }
+ *      Classifies each document before analysis; legibility is 'clear', 'partial' or 'unreadable'.
+ *  - analyzeHealthReport({ documents: [{ title, reportText, attachments: [{ data, mimeType, name }] }] })
+ *      -> { summary, predictions, healthScore, recommendations, biomarkers, documents }
+ *      Predictions carry documentNumbers and biomarkers a documentNumber (1-based) pointing back at their source.
+ *  - getChatResponse(message, history, userContext, voiceConfig) -> { response, audio }
+ *  - getChatResponseTextOnly(message, history, userContext) -> { response }
+ *  - streamChatResponse(message, history, userContext, signal) -> async iterable of text deltas
+ *  - textToSpeech(text, voice) -> base64 audio, or null when unavailable
+ *  - predictSymptomsFromText(symptomsText, userContext, structuredSymptoms) -> { predictions }
+ *  - assessUrgency(text) -> { urgency: 'routine'|'urgent'|'emergency', reasons: string[] }
+ *      Second opinion for triage.js on how urgently a chat message or symptom description needs care.
+ *  - generateConversationTitle(userMessage, aiReply) -> short title for a conversation from its first exchange
+ *  - findHospitalsNearLocation({ latitude, longitude, query }) -> { summary, hospitals }
+ *  - generateHealthTips(analysisData) -> string[]
+ *  - describeAnalysisChanges(base, target, comparison) -> narrative string
+ *
+ * Select one with AI_PROVIDER: "gemini" (default) or "local" for the offline, deterministic provider.
+ */
+const PROVIDERS = {
+    gemini: './providers/geminiProvider',
+    local: './providers/localProvider',
+};
+
+const providerName = (process.env.AI_PROVIDER || 'gemini').toLowerCase();
+
+if (!PROVIDERS[providerName]) {
+    throw new Error(`Unknown AI_PROVIDER "${providerName}". Use one of: ${Object.keys(PROVIDERS).join(', ')}.`);
+}
+
+// Providers are loaded lazily so the Gemini client (and its API key check) is only created when selected.
+const provider = require(PROVIDERS[providerName]);
+
+module.exports = {
+    providerName: provider.name,
+    assessReportQuality: (...args) => provider.assessReportQuality(...args),
+    analyzeHealthReport: (...args) => provider.analyzeHealthReport(...args),
+    getChatResponse: (...args) => provider.getChatResponse(...args),
+    getChatResponseTextOnly: (...args) => provider.getChatResponseTextOnly(...args),
+    streamChatResponse: (...args) => provider.streamChatResponse(...args),
+    textToSpeech: (...args) => provider.textToSpeech(...args),
+    predictSymptomsFromText: (...args) => provider.predictSymptomsFromText(...args),
+    assessUrgency: (...args) => provider.assessUrgency(...args),
+    generateConversationTitle: (...args) => provider.generateConversationTitle(...args),
+    findHospitalsNearLocation: (...args) => provider.findHospitalsNearLocation(...args),
+    generateHealthTips: (...args) => provider.generateHealthTips(...args),
+    describeAnalysisChanges: (...args) => provider.describeAnalysisChanges(...args),
+};
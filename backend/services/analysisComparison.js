@@ -0,0 +1,81 @@
+const { trendKey } = require('./biomarkerCatalog');
+const { canonicalValue } = require('./labUnits');
+
+// Probability moves smaller than this (5 percentage points) are reported as unchanged.
+const PROBABILITY_THRESHOLD = 0.05;
+
+const normalizeText = (text) => String(text || '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Diffs two formatted analyses (see formatAnalysisRow). `base` is the earlier report and `target`
+ * the later one, so a positive scoreDelta means the health score went up. ruleScoreDelta is the same
+ * for the rule-based score. Either is null unless both analyses have that score; manually entered
+ * results saved without analysis have no AI score.
+ * @returns {{ scoreDelta: number|null, ruleScoreDelta: number|null, predictions: object, recommendations: object, biomarkers: Array<object> }}
+ */
+const compareAnalyses = (base, target) => {
+    const basePredictions = new Map(base.predictions.map(p => [normalizeText(p.disease), p]));
+    const targetPredictions = new Map(target.predictions.map(p => [normalizeText(p.disease), p]));
+
+    const predictions = { appeared: [], resolved: [], changed: [], unchanged: [] };
+    for (const [key, p] of targetPredictions) {
+        const before = basePredictions.get(key);
+        if (!before) {
+            predictions.appeared.push({ disease: p.disease, probability: p.probability });
+            continue;
+        }
+        const delta = p.probability - before.probability;
+        const entry = { disease: p.disease, before: before.probability, after: p.probability, delta };
+        if (Math.abs(delta) >= PROBABILITY_THRESHOLD) predictions.changed.push(entry);
+        else predictions.unchanged.push(entry);
+    }
+    for (const [key, p] of basePredictions) {
+        if (!targetPredictions.has(key)) {
+            predictions.resolved.push({ disease: p.disease, probability: p.probability });
+        }
+    }
+
+    const baseRecommendations = new Set(base.recommendations.map(normalizeText));
+    const targetRecommendations = new Set(target.recommendations.map(normalizeText));
+    const recommendations = {
+        added: target.recommendations.filter(r => !baseRecommendations.has(normalizeText(r))),
+        removed: base.recommendations.filter(r => !targetRecommendations.has(normalizeText(r))),
+        kept: target.recommendations.filter(r => baseRecommendations.has(normalizeText(r))),
+    };
+
+    // Only lab values measured in both reports can be compared. Known tests are compared in their
+    // canonical unit, since older analyses may hold values in the unit printed on the report. Values
+    // that can't be brought to the same unit are shown as reported, without a delta.
+    const sameUnit = (a, b) => normalizeText(a) === normalizeText(b);
+    const baseBiomarkers = new Map(base.biomarkers.map(b => [trendKey(b.name), b]));
+    const biomarkers = target.biomarkers
+        .filter(b => baseBiomarkers.has(trendKey(b.name)))
+        .map(b => {
+            const before = baseBiomarkers.get(trendKey(b.name));
+            const canonicalBefore = canonicalValue(before);
+            const canonicalAfter = canonicalValue(b);
+            const [valueBefore, unitBefore, valueAfter, unit] = canonicalBefore && canonicalAfter
+                ? [canonicalBefore.value, canonicalBefore.entry.unit, canonicalAfter.value, canonicalAfter.entry.unit]
+                : [before.value, before.unit, b.value, b.unit];
+            return {
+                name: b.name,
+                unit,
+                unitBefore,
+                before: valueBefore,
+                after: valueAfter,
+                delta: sameUnit(unitBefore, unit) ? Number((valueAfter - valueBefore).toFixed(2)) : null,
+                flagBefore: before.flag,
+                flagAfter: b.flag,
+            };
+        });
+
+    return {
+        scoreDelta: base.healthScore != null && target.healthScore != null ? target.healthScore - base.healthScore : null,
+        ruleScoreDelta: base.ruleScore != null && target.ruleScore != null ? target.ruleScore - base.ruleScore : null,
+        predictions,
+        recommendations,
+        biomarkers,
+    };
+};
+
+module.exports = { compareAnalyses };
@@ -0,0 +1,72 @@
+const { biomarkerKey } = require('./biomarkers');
+
+/**
+ * Lab tests the backend understands, with the body system each belongs to and typical adult
+ * reference limits. `unit` is the canonical unit values are stored in and `units` lists spellings
+ * of it; other units are converted by labUnits.js. Age- and sex-specific limits are in referenceRanges.js.
+ */
+const BIOMARKER_CATALOG = [
+    // Cardiovascular
+    { name: 'LDL cholesterol', category: 'cardiovascular', unit: 'mg/dL', units: ['mg/dl'], low: null, high: 129, aliases: ['ldl', 'ldl c', 'ldl cholesterol', 'low density lipoprotein', 'ldl direct'] },
+    { name: 'HDL cholesterol', category: 'cardiovascular', unit: 'mg/dL', units: ['mg/dl'], low: 40, high: null, aliases: ['hdl', 'hdl c', 'hdl cholesterol', 'high density lipoprotein'] },
+    { name: 'Total cholesterol', category: 'cardiovascular', unit: 'mg/dL', units: ['mg/dl'], low: null, high: 199, aliases: ['cholesterol', 'total cholesterol', 'serum cholesterol', 'cholesterol total'] },
+    { name: 'Triglycerides', category: 'cardiovascular', unit: 'mg/dL', units: ['mg/dl'], low: null, high: 149, aliases: ['triglycerides', 'triglyceride', 'tg', 'serum triglycerides'] },
+    // Metabolic
+    { name: 'Fasting blood glucose', category: 'metabolic', unit: 'mg/dL', units: ['mg/dl'], low: 70, high: 99, aliases: ['fasting blood glucose', 'fasting glucose', 'fasting blood sugar', 'fbs', 'glucose fasting', 'blood glucose fasting', 'fasting plasma glucose'] },
+    // A glucose result is only comparable with the limits for when it was taken, so a bare "glucose" matches none of these
+    { name: 'Random blood glucose', category: 'metabolic', unit: 'mg/dL', units: ['mg/dl'], low: 70, high: 139, aliases: ['random blood glucose', 'random glucose', 'random blood sugar', 'rbs', 'glucose random', 'blood glucose random', 'random plasma glucose', 'casual blood glucose'] },
+    { name: 'Postprandial blood glucose', category: 'metabolic', unit: 'mg/dL', units: ['mg/dl'], low: 70, high: 139, aliases: ['postprandial blood glucose', 'postprandial glucose', 'post prandial blood glucose', 'post prandial glucose', 'postprandial blood sugar', 'post prandial blood sugar', 'ppbs', 'pp glucose', 'glucose pp', 'glucose postprandial', 'blood glucose pp', '2 hour postprandial glucose', '2 hr pp glucose', '2h pp glucose', 'ppbg'] },
+    { name: 'HbA1c', category: 'metabolic', unit: '%', units: ['%'], low: 4, high: 5.6, aliases: ['hba1c', 'a1c', 'glycated hemoglobin', 'glycated haemoglobin', 'glycosylated hemoglobin', 'hemoglobin a1c'] },
+    { name: 'TSH', category: 'metabolic', unit: 'mIU/L', units: ['miu/l', 'uiu/ml', 'µiu/ml'], low: 0.4, high: 4.5, aliases: ['tsh', 'thyroid stimulating hormone'] },
+    { name: 'Uric acid', category: 'metabolic', unit: 'mg/dL', units: ['mg/dl'], low: 3.4, high: 7, aliases: ['uric acid', 'serum uric acid'] },
+    // Renal
+    { name: 'Serum creatinine', category: 'renal', unit: 'mg/dL', units: ['mg/dl'], low: 0.6, high: 1.3, aliases: ['creatinine', 'serum creatinine', 's creatinine'] },
+    { name: 'Blood urea nitrogen', category: 'renal', unit: 'mg/dL', units: ['mg/dl'], low: 7, high: 20, aliases: ['bun', 'blood urea nitrogen', 'urea nitrogen'] },
+    { name: 'eGFR', category: 'renal', unit: 'mL/min/1.73m²', units: ['ml/min/1.73m2', 'ml/min/1.73m²', 'ml/min'], low: 60, high: null, aliases: ['egfr', 'estimated gfr', 'gfr'] },
+    // Hepatic
+    { name: 'ALT (SGPT)', category: 'hepatic', unit: 'U/L', units: ['u/l', 'iu/l'], low: 7, high: 56, aliases: ['alt', 'sgpt', 'alt sgpt', 'alanine aminotransferase', 'alanine transaminase'] },
+    { name: 'AST (SGOT)', category: 'hepatic', unit: 'U/L', units: ['u/l', 'iu/l'], low: 10, high: 40, aliases: ['ast', 'sgot', 'ast sgot', 'aspartate aminotransferase', 'aspartate transaminase'] },
+    { name: 'Alkaline phosphatase', category: 'hepatic', unit: 'U/L', units: ['u/l', 'iu/l'], low: 44, high: 147, aliases: ['alp', 'alkaline phosphatase'] },
+    { name: 'Total bilirubin', category: 'hepatic', unit: 'mg/dL', units: ['mg/dl'], low: 0.1, high: 1.2, aliases: ['bilirubin', 'total bilirubin', 'bilirubin total'] },
+    { name: 'Albumin', category: 'hepatic', unit: 'g/dL', units: ['g/dl'], low: 3.5, high: 5, aliases: ['albumin', 'serum albumin'] },
+    // Hematologic
+    { name: 'Hemoglobin', category: 'hematologic', unit: 'g/dL', units: ['g/dl'], low: 12, high: 17.5, aliases: ['hemoglobin', 'haemoglobin', 'hb', 'hgb'] },
+    { name: 'Hematocrit', category: 'hematologic', unit: '%', units: ['%'], low: 36, high: 50, aliases: ['hematocrit', 'haematocrit', 'hct', 'pcv', 'packed cell volume'] },
+    { name: 'White blood cells', category: 'hematologic', unit: '10^3/µL', units: ['10^3/ul', '10^9/l', 'k/ul', 'thou/ul'], low: 4, high: 11, aliases: ['wbc', 'white blood cells', 'white blood cell count', 'total leukocyte count', 'tlc', 'total wbc count'] },
+    { name: 'Platelets', category: 'hematologic', unit: '10^3/µL', units: ['10^3/ul', '10^9/l', 'k/ul', 'thou/ul'], low: 150, high: 450, aliases: ['platelets', 'platelet count', 'plt'] },
+];
+
+const ALIAS_INDEX = new Map();
+BIOMARKER_CATALOG.forEach(entry => entry.aliases.forEach(alias => ALIAS_INDEX.set(biomarkerKey(alias), entry)));
+
+/**
+ * Finds the catalog entry for a report's test name, e.g. "Fasting Blood Glucose (FBS)".
+ * Names are tried as given and with any parenthesized part removed.
+ * @returns {object|null}
+ */
+const findCatalogEntry = (name) => {
+    const withoutParens = String(name || '').replace(/\([^)]*\)/g, ' ');
+    return ALIAS_INDEX.get(biomarkerKey(name)) || ALIAS_INDEX.get(biomarkerKey(withoutParens)) || null;
+};
+
+// "x10³/µL", "10^3/uL" and "10*3/ul" all normalize to "10^3/ul"
+const normalizeUnit = (unit) => String(unit || '')
+    .toLowerCase()
+    .replace(/\s+/g, '')
+    .replace(/µ|μ/g, 'u')
+    .replace(/³/g, '^3')
+    .replace(/\*/g, '^')
+    .replace(/^[x×]/, '');
+
+const unitMatches = (entry, unit) => entry.units.map(normalizeUnit).includes(normalizeUnit(unit));
+
+/**
+ * Key used to follow one test across reports in trends. Catalog tests match under any of their
+ * aliases ("FBS" and "Fasting Blood Glucose"); other names fall back to biomarkerKey.
+ */
+const trendKey = (name) => {
+    const entry = findCatalogEntry(name);
+    return entry ? biomarkerKey(entry.name) : biomarkerKey(name);
+};
+
+module.exports = { BIOMARKER_CATALOG, findCatalogEntry, normalizeUnit, unitMatches, trendKey };
@@ -0,0 +1,74 @@
+const FLAGS = ['high', 'low', 'normal'];
+
+const toNumberOrNull = (value) => {
+    if (value === null || value === undefined || value === '') return null;
+    const n = typeof value === 'number' ? value : parseFloat(value);
+    return Number.isFinite(n) ? n : null;
+};
+
+// Range text for numeric limits, e.g. "70-99", "≤ 129" or "≥ 40"; empty when there are none.
+const formatReferenceRange = (low, high) => {
+    if (low !== null && high !== null) return `${low}-${high}`;
+    if (high !== null) return `≤ ${high}`;
+    if (low !== null) return `≥ ${low}`;
+    return '';
+};
+
+/**
+ * Cleans up the biomarker list returned by a provider before it is stored or sent to the client.
+ * Entries without a name or numeric value are dropped. When numeric reference limits are present
+ * the flag is recomputed from them, so it always agrees with the value shown next to it.
+ * @param {Array<object>} biomarkers Raw biomarkers from the AI response.
+ * @returns {Array<{name: string, value: number, unit: string, referenceRange: string, referenceLow: number|null, referenceHigh: number|null, flag: string, documentNumber: number|null}>}
+ */
+const normalizeBiomarkers = (biomarkers) => {
+    if (!Array.isArray(biomarkers)) return [];
+
+    return biomarkers
+        .filter(b => b && typeof b.name === 'string' && b.name.trim() && toNumberOrNull(b.value) !== null)
+        .map(b => {
+            const value = toNumberOrNull(b.value);
+            const referenceLow = toNumberOrNull(b.referenceLow);
+            const referenceHigh = toNumberOrNull(b.referenceHigh);
+
+            let flag = FLAGS.includes(b.flag) ? b.flag : 'normal';
+            if (referenceLow !== null && value < referenceLow) flag = 'low';
+            else if (referenceHigh !== null && value > referenceHigh) flag = 'high';
+            else if (referenceLow !== null || referenceHigh !== null) flag = 'normal';
+
+            const printedRange = typeof b.referenceRange === 'string' ? b.referenceRange.trim() : '';
+            const referenceRange = printedRange || formatReferenceRange(referenceLow, referenceHigh);
+
+            return {
+                name: b.name.trim(),
+                value,
+                unit: typeof b.unit === 'string' ? b.unit.trim() : '',
+                referenceRange,
+                referenceLow,
+                referenceHigh,
+                flag,
+                // 1-based index of the bundle document the value came from
+                documentNumber: Number.isInteger(b.documentNumber) ? b.documentNumber : null,
+            };
+        });
+};
+
+/**
+ * Parses the JSON stored in analyses.biomarkers. Rows created before biomarkers existed return [].
+ */
+const parseStoredBiomarkers = (json) => {
+    if (!json) return [];
+    try {
+        const parsed = JSON.parse(json);
+        return Array.isArray(parsed) ? parsed : [];
+    } catch (e) {
+        return [];
+    }
+};
+
+/**
+ * Key used to match the same test across reports, e.g. "Fasting Blood Glucose" and "fasting blood-glucose".
+ */
+const biomarkerKey = (name) => String(name || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+module.exports = { normalizeBiomarkers, parseStoredBiomarkers, biomarkerKey, formatReferenceRange };
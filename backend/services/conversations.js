@@ -0,0 +1,140 @@
+// Chats stored before conversations existed are split into sessions wherever 30 minutes pass
+// between two messages, the rule the chat sidebar used to apply on the client.
+const LEGACY_SESSION_GAP_MS = 30 * 60 * 1000;
+const MAX_TITLE_LENGTH = 80;
+const DEFAULT_TITLE = 'New conversation';
+
+// SQLite's CURRENT_TIMESTAMP is UTC without a zone marker
+const parseTimestamp = (value) => Date.parse(`${String(value).replace(' ', 'T')}Z`);
+
+/**
+ * Trims a title from a user or a model: one line, no surrounding quotes, at most MAX_TITLE_LENGTH characters.
+ * @returns {string} The cleaned title; empty when nothing usable was given.
+ */
+const cleanTitle = (title) => {
+    const line = String(title || '').split('\n').map(l => l.trim()).find(Boolean) || '';
+    const unquoted = line.replace(/^["'*#\s]+|["'*\s.]+$/g, '');
+    return unquoted.length > MAX_TITLE_LENGTH ? `${unquoted.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…` : unquoted;
+};
+
+/**
+ * A title from the opening message alone, for the offline provider, for legacy chats and whenever
+ * the provider can't produce one: its first sentence, cut at a word boundary.
+ */
+const titleFromMessage = (message) => {
+    const sentence = String(message || '').trim().split(/(?<=[.?!।])\s|\n/)[0] || '';
+    if (!sentence) return DEFAULT_TITLE;
+    if (sentence.length <= 50) return cleanTitle(sentence.charAt(0).toUpperCase() + sentence.slice(1)) || DEFAULT_TITLE;
+    const cut = sentence.slice(0, 50);
+    const atWord = cut.slice(0, Math.max(cut.lastIndexOf(' '), 20));
+    return cleanTitle(`${atWord.charAt(0).toUpperCase()}${atWord.slice(1)}…`) || DEFAULT_TITLE;
+};
+
+/**
+ * Reads a rename and/or pin from a request body. Fields left out are undefined and keep their stored value.
+ * @returns {{ title: string|undefined, pinned: boolean|undefined }}
+ */
+const conversationUpdateFromRequest = ({ title, pinned } = {}) => ({
+    title: title === undefined ? undefined : cleanTitle(title),
+    pinned: pinned === undefined ? undefined : pinned === true,
+});
+
+/**
+ * @returns {string|null} An error message, or null when the update can be applied.
+ */
+const validateConversationUpdate = ({ title, pinned }) => {
+    if (title === undefined && pinned === undefined) return "Give a new title or pinned state.";
+    if (title !== undefined && !title) return "The title can't be empty.";
+    return null;
+};
+
+const formatConversationRow = (row) => ({
+    id: row.id,
+    title: row.title || DEFAULT_TITLE,
+    pinned: !!row.pinned,
+    messageCount: row.message_count || 0,
+    lastMessage: row.last_message || null,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+});
+
+// The DB stores message metadata (triage, provider, streaming state) as a JSON string
+const formatChatRow = (row) => ({
+    id: row.id,
+    conversationId: row.conversation_id,
+    role: row.role,
+    message: row.message,
+    metadata: row.metadata ? JSON.parse(row.metadata) : null,
+    created_at: row.created_at,
+});
+
+/**
+ * Groups legacy chat rows into sessions.
+ * @param {Array<{ id: number, user_id: number, role: string, message: string, created_at: string }>} rows Ordered by user, then time.
+ * @returns {Array<{ userId: number, title: string, createdAt: string, updatedAt: string }>}
+ */
+const groupLegacyChats = (rows) => {
+    const sessions = [];
+    let current = null;
+    rows.forEach(row => {
+        const startsNew = !current || current.userId !== row.user_id
+            || parseTimestamp(row.created_at) - parseTimestamp(current.updatedAt) > LEGACY_SESSION_GAP_MS;
+        if (startsNew) {
+            current = { userId: row.user_id, firstUserMessage: null, createdAt: row.created_at, updatedAt: row.created_at };
+            sessions.push(current);
+        }
+        current.updatedAt = row.created_at;
+        if (!current.firstUserMessage && row.role === 'user') current.firstUserMessage = row.message;
+    });
+    return sessions.map(({ firstUserMessage, ...session }) => ({ ...session, title: titleFromMessage(firstUserMessage) }));
+};
+
+/**
+ * Moves chats without a conversation into conversations of their own, one per legacy session. Runs
+ * on every startup and only touches rows that still have no conversation, so it is a no-op once done.
+ * @param {object} db The sqlite3 database.
+ */
+const backfillConversations = (db) => {
+    const sql = "SELECT id, user_id, role, message, created_at FROM chats WHERE conversation_id IS NULL ORDER BY user_id, created_at, id";
+    db.all(sql, [], (err, rows) => {
+        if (err) {
+            return console.error("Conversation backfill failed:", err.message);
+        }
+        const sessions = groupLegacyChats(rows);
+        if (sessions.length === 0) return;
+
+        const insertSession = (index) => {
+            if (index === sessions.length) {
+                return console.log(`Grouped ${rows.length} earlier chat messages into ${sessions.length} conversations.`);
+            }
+            const session = sessions[index];
+            const insertSql = "INSERT INTO conversations (user_id, title, created_at, updated_at) VALUES (?,?,?,?)";
+            db.run(insertSql, [session.userId, session.title, session.createdAt, session.updatedAt], function (err) {
+                if (err) {
+                    return console.error("Conversation backfill failed:", err.message);
+                }
+                // A user's sessions never overlap in time, so the session's time span selects exactly its chats
+                const updateSql = "UPDATE chats SET conversation_id = ? WHERE user_id = ? AND conversation_id IS NULL AND created_at BETWEEN ? AND ?";
+                db.run(updateSql, [this.lastID, session.userId, session.createdAt, session.updatedAt], (err) => {
+                    if (err) {
+                        return console.error("Conversation backfill failed:", err.message);
+                    }
+                    insertSession(index + 1);
+                });
+            });
+        };
+        insertSession(0);
+    });
+};
+
+module.exports = {
+    DEFAULT_TITLE,
+    cleanTitle,
+    titleFromMessage,
+    conversationUpdateFromRequest,
+    validateConversationUpdate,
+    formatConversationRow,
+    formatChatRow,
+    groupLegacyChats,
+    backfillConversations,
+};
@@ -0,0 +1,28 @@
+const MAX_CONTACTS = 10;
+
+// Digits with an optional leading +, allowing the spaces, dashes and brackets people type
+const PHONE_PATTERN = /^\+?[0-9][0-9 ()-]{4,19}$/;
+
+const text = (value) => (typeof value === 'string' ? value.trim() : '');
+
+/**
+ * Reads an emergency contact from a request body.
+ * @returns {{ name: string, relationship: string, phone: string }}
+ */
+const contactFromRequest = ({ name, relationship, phone } = {}) => ({
+    name: text(name),
+    relationship: text(relationship),
+    phone: text(phone),
+});
+
+/**
+ * @returns {string|null} An error message, or null when the contact can be stored.
+ */
+const validateContact = ({ name, relationship, phone }) => {
+    if (!name) return "A contact name is required.";
+    if (name.length > 100 || relationship.length > 50) return "The contact name or relationship is too long.";
+    if (!PHONE_PATTERN.test(phone)) return "Enter a phone number using digits, optionally starting with +.";
+    return null;
+};
+
+module.exports = { MAX_CONTACTS, contactFromRequest, validateContact };
@@ -0,0 +1,114 @@
+const { canonicalValue } = require('./labUnits');
+const { referenceRangeFor } = require('./referenceRanges');
+
+/**
+ * Rule-based health score. Unlike the AI's healthScore it depends only on the extracted lab values
+ * and the user's profile, so the same inputs always give the same score and trends stay comparable.
+ * Bump SCORING_VERSION whenever the rules below change, so stored breakdowns can be told apart.
+ */
+const SCORING_VERSION = 2;
+
+// Weights of each body system in the overall score; categories without data are left out and the rest re-weighted.
+const CATEGORIES = [
+    { key: 'cardiovascular', label: 'Cardiovascular', weight: 0.25 },
+    { key: 'metabolic', label: 'Metabolic', weight: 0.25 },
+    { key: 'renal', label: 'Renal', weight: 0.15 },
+    { key: 'hepatic', label: 'Hepatic', weight: 0.1 },
+    { key: 'hematologic', label: 'Hematologic', weight: 0.1 },
+    { key: 'lifestyle', label: 'Lifestyle', weight: 0.15 },
+];
+
+// Points lost per 1% a value is beyond its reference limit, so 20% out of range scores 70.
+const POINTS_PER_PERCENT_OUT = 1.5;
+
+const clampScore = (n) => Math.max(0, Math.min(100, Math.round(n)));
+
+// Values are scored in canonical units against the age- and sex-specific limits, not those printed on the report
+const scoreLabValue = ({ low, high }, value, unit) => {
+    if (high !== null && value > high) {
+        const percentOut = ((value - high) / high) * 100;
+        return { score: clampScore(100 - percentOut * POINTS_PER_PERCENT_OUT), reason: `${Math.round(percentOut)}% above the upper limit of ${high} ${unit}.` };
+    }
+    if (low !== null && value < low) {
+        const percentOut = ((low - value) / low) * 100;
+        return { score: clampScore(100 - percentOut * POINTS_PER_PERCENT_OUT), reason: `${Math.round(percentOut)}% below the lower limit of ${low} ${unit}.` };
+    }
+    return { score: 100, reason: 'Within the reference range.' };
+};
+
+// BMI uses the WHO adult bands. Without height weight is scored against broad adult bands instead.
+// Age adds a small penalty either way.
+const lifestyleFactors = ({ age, weight, height }) => {
+    const factors = [];
+    if (Number.isFinite(weight) && weight > 0 && Number.isFinite(height) && height > 0) {
+        const bmi = Math.round((weight / Math.pow(height / 100, 2)) * 10) / 10;
+        const score = bmi >= 35 ? 55 : bmi >= 30 ? 70 : bmi >= 25 ? 85 : bmi < 18.5 ? 75 : 100;
+        factors.push({ name: 'BMI', value: bmi, unit: 'kg/m²', score, reason: score === 100 ? 'Within the healthy range (18.5-24.9).' : bmi < 18.5 ? 'Below the healthy range (18.5-24.9).' : 'Above the healthy range (18.5-24.9).' });
+    } else if (Number.isFinite(weight) && weight > 0) {
+        const score = weight > 120 ? 55 : weight > 100 ? 70 : weight > 90 ? 85 : weight < 45 ? 75 : 100;
+        factors.push({ name: 'Weight', value: weight, unit: 'kg', score, reason: score === 100 ? 'Within the typical adult range.' : weight < 45 ? 'Below the typical adult range.' : 'Above the typical adult range.' });
+    }
+    if (Number.isFinite(age) && age > 0) {
+        const score = clampScore(100 - Math.min(20, Math.max(0, (age - 40) / 2)));
+        factors.push({ name: 'Age', value: age, unit: 'years', score, reason: score === 100 ? 'No age-related adjustment.' : 'Risk rises with age after 40.' });
+    }
+    return factors;
+};
+
+const average = (numbers) => numbers.reduce((sum, n) => sum + n, 0) / numbers.length;
+
+/**
+ * @param {Array<object>} biomarkers Normalized biomarkers (see normalizeBiomarkers).
+ * @param {{ age?: number, weight?: number, sex?: string, height?: number }} profile The user's profile values at analysis time.
+ * @returns {{ version: number, overall: number|null, categories: Array<object>, unscored: string[] }}
+ *   `overall` is null when no lab value could be scored, since the profile alone says too little.
+ */
+const computeHealthScore = (biomarkers, profile = {}) => {
+    const factorsByCategory = new Map(CATEGORIES.map(c => [c.key, []]));
+    const unscored = [];
+    const seen = new Set();
+    const patient = { age: Number(profile.age), sex: profile.sex };
+
+    for (const marker of biomarkers || []) {
+        const canonical = canonicalValue(marker);
+        if (!canonical) {
+            unscored.push(marker.name);
+            continue;
+        }
+        const { entry, value } = canonical;
+        // The first value of a test wins, matching how bundles put the most recent document first
+        if (seen.has(entry.name)) continue;
+        seen.add(entry.name);
+        const { score, reason } = scoreLabValue(referenceRangeFor(entry, patient), value, entry.unit);
+        factorsByCategory.get(entry.category).push({ name: marker.name, value, unit: entry.unit, score, reason });
+    }
+    const hasLabScores = [...factorsByCategory.values()].some(factors => factors.length > 0);
+    factorsByCategory.set('lifestyle', lifestyleFactors({ age: Number(profile.age), weight: Number(profile.weight), height: Number(profile.height) }));
+
+    const categories = CATEGORIES.map(({ key, label, weight }) => {
+        const factors = factorsByCategory.get(key);
+        return { key, label, weight, score: factors.length > 0 ? clampScore(average(factors.map(f => f.score))) : null, factors };
+    });
+
+    const scored = categories.filter(c => c.score !== null);
+    const totalWeight = scored.reduce((sum, c) => sum + c.weight, 0);
+    const overall = hasLabScores
+        ? clampScore(scored.reduce((sum, c) => sum + c.score * c.weight, 0) / totalWeight)
+        : null;
+
+    return { version: SCORING_VERSION, overall, categories, unscored };
+};
+
+/**
+ * Parses analyses.score_breakdown. Analyses stored before rule-based scoring return null.
+ */
+const parseStoredScoreBreakdown = (json) => {
+    if (!json) return null;
+    try {
+        return JSON.parse(json);
+    } catch (e) {
+        return null;
+    }
+};
+
+module.exports = { computeHealthScore, parseStoredScoreBreakdown };
@@ -0,0 +1,132 @@
+const { findCatalogEntry, normalizeUnit, unitMatches } = require('./biomarkerCatalog');
+const { formatReferenceRange } = require('./biomarkers');
+const { referenceRangeFor } = require('./referenceRanges');
+
+/**
+ * Other units a catalog test is reported in, keyed by catalog name. A value in `unit` converts to
+ * the canonical unit as value * factor + offset. `si` marks the unit shown to users who prefer SI
+ * units; tests without one are shown in their canonical unit either way.
+ */
+const CONVERSIONS = {
+    'Total cholesterol': [{ unit: 'mmol/L', factor: 38.67, si: true }],
+    'LDL cholesterol': [{ unit: 'mmol/L', factor: 38.67, si: true }],
+    'HDL cholesterol': [{ unit: 'mmol/L', factor: 38.67, si: true }],
+    'Triglycerides': [{ unit: 'mmol/L', factor: 88.57, si: true }],
+    'Fasting blood glucose': [{ unit: 'mmol/L', factor: 18.016, si: true }],
+    'Random blood glucose': [{ unit: 'mmol/L', factor: 18.016, si: true }],
+    'Postprandial blood glucose': [{ unit: 'mmol/L', factor: 18.016, si: true }],
+    // IFCC to NGSP master equation
+    'HbA1c': [{ unit: 'mmol/mol', factor: 0.09148, offset: 2.152, si: true }],
+    'Uric acid': [{ unit: 'µmol/L', factor: 1 / 59.48, si: true }, { unit: 'mmol/L', factor: 16.81 }],
+    'Serum creatinine': [{ unit: 'µmol/L', factor: 1 / 88.42, si: true }],
+    'Blood urea nitrogen': [{ unit: 'mmol/L', factor: 2.801, si: true }],
+    'Total bilirubin': [{ unit: 'µmol/L', factor: 1 / 17.1, si: true }],
+    'Albumin': [{ unit: 'g/L', factor: 0.1, si: true }],
+    'Hemoglobin': [{ unit: 'g/L', factor: 0.1, si: true }, { unit: 'mmol/L', factor: 1.611 }],
+    'Hematocrit': [{ unit: 'L/L', factor: 100, si: true }],
+    'ALT (SGPT)': [{ unit: 'µkat/L', factor: 60 }],
+    'AST (SGOT)': [{ unit: 'µkat/L', factor: 60 }],
+    'Alkaline phosphatase': [{ unit: 'µkat/L', factor: 60 }],
+};
+
+const UNIT_PREFERENCES = ['conventional', 'si'];
+
+const round = (n) => Math.round(n * 100) / 100;
+
+const conversionFor = (entry, unit) =>
+    (CONVERSIONS[entry.name] || []).find(c => normalizeUnit(c.unit) === normalizeUnit(unit)) || null;
+
+/**
+ * Converts a value of a catalog test to its canonical unit.
+ * @returns {number|null} null when the unit is missing or not one the test is known to be reported in.
+ */
+const toCanonical = (entry, value, unit) => {
+    if (unitMatches(entry, unit)) return value;
+    const conversion = conversionFor(entry, unit);
+    return conversion ? round(value * conversion.factor + (conversion.offset || 0)) : null;
+};
+
+/**
+ * Catalog entry and canonical value of a stored or extracted biomarker, or null when either is unknown.
+ * Biomarkers stored before standardization may still be in the report's unit, so this works for both.
+ */
+const canonicalValue = (marker) => {
+    const entry = findCatalogEntry(marker.name);
+    if (!entry) return null;
+    const value = toCanonical(entry, marker.value, marker.unit);
+    return value === null ? null : { entry, value };
+};
+
+/**
+ * Converts a canonical value to the unit a user prefers to read.
+ * @param {'conventional'|'si'} preference
+ * @returns {{ value: number, unit: string }}
+ */
+const toPreferredUnit = (entry, value, preference) => {
+    const conversion = preference === 'si' ? (CONVERSIONS[entry.name] || []).find(c => c.si) : null;
+    if (!conversion) return { value, unit: entry.unit };
+    return { value: round((value - (conversion.offset || 0)) / conversion.factor), unit: conversion.unit };
+};
+
+/**
+ * Converts extracted biomarkers to canonical units and evaluates them against reference limits.
+ * Limits printed on the report are kept (converted along with the value); otherwise the age- and
+ * sex-specific limits from referenceRanges.js are used. Converted entries keep the printed value
+ * in originalValue/originalUnit. Tests not in the catalog, or in an unknown unit, pass through unchanged.
+ * @param {Array<object>} biomarkers Normalized biomarkers (see normalizeBiomarkers).
+ * @param {{ age?: number, sex?: string }} profile The user's profile values at analysis time.
+ */
+const standardizeBiomarkers = (biomarkers, profile = {}) => biomarkers.map(marker => {
+    const canonical = canonicalValue(marker);
+    if (!canonical) return marker;
+    const { entry, value } = canonical;
+    const converted = !unitMatches(entry, marker.unit);
+    const convertLimit = (limit) => (limit === null ? null : toCanonical(entry, limit, marker.unit));
+
+    const hasReportLimits = marker.referenceLow !== null || marker.referenceHigh !== null;
+    const { low, high } = hasReportLimits
+        ? { low: convertLimit(marker.referenceLow), high: convertLimit(marker.referenceHigh) }
+        : referenceRangeFor(entry, { age: Number(profile.age), sex: profile.sex });
+
+    let flag = marker.flag;
+    if (low !== null && value < low) flag = 'low';
+    else if (high !== null && value > high) flag = 'high';
+    else if (low !== null || high !== null) flag = 'normal';
+
+    return {
+        ...marker,
+        value,
+        unit: entry.unit,
+        // A printed range is only shown as-is when it is still in the unit of the value next to it
+        referenceRange: hasReportLimits && !converted && marker.referenceRange ? marker.referenceRange : formatReferenceRange(low, high),
+        referenceLow: low,
+        referenceHigh: high,
+        referenceSource: hasReportLimits ? 'report' : 'table',
+        flag,
+        ...(converted ? { originalValue: marker.value, originalUnit: marker.unit } : {}),
+    };
+});
+
+/**
+ * Value and limits of a stored biomarker in the user's preferred unit, for trend charts.
+ * Tests that can't be converted are returned as stored.
+ * @returns {{ value: number, unit: string, referenceLow: number|null, referenceHigh: number|null }}
+ */
+const displayMarker = (marker, preference) => {
+    const canonical = canonicalValue(marker);
+    if (!canonical) {
+        return { value: marker.value, unit: marker.unit, referenceLow: marker.referenceLow, referenceHigh: marker.referenceHigh };
+    }
+    const { entry, value } = canonical;
+    const convertLimit = (limit) => {
+        const canonicalLimit = limit === null || limit === undefined ? null : toCanonical(entry, limit, marker.unit);
+        return canonicalLimit === null ? null : toPreferredUnit(entry, canonicalLimit, preference).value;
+    };
+    return {
+        ...toPreferredUnit(entry, value, preference),
+        referenceLow: convertLimit(marker.referenceLow),
+        referenceHigh: convertLimit(marker.referenceHigh),
+    };
+};
+
+module.exports = { CONVERSIONS, UNIT_PREFERENCES, toCanonical, canonicalValue, toPreferredUnit, standardizeBiomarkers, displayMarker };
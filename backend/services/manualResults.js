@@ -0,0 +1,74 @@
+const { BIOMARKER_CATALOG } = require('./biomarkerCatalog');
+const { CONVERSIONS } = require('./labUnits');
+const { formatReferenceRange } = require('./biomarkers');
+
+const MAX_RESULTS = 50;
+
+/**
+ * Tests offered by the manual entry form's picker, with the units each can be entered in.
+ * Any other test name can still be typed; it is stored as entered.
+ */
+const listLabTests = () => BIOMARKER_CATALOG.map(entry => ({
+    name: entry.name,
+    category: entry.category,
+    units: [entry.unit, ...(CONVERSIONS[entry.name] || []).map(c => c.unit)],
+    aliases: entry.aliases,
+}));
+
+const isFiniteNumber = (value) => value !== null && value !== '' && Number.isFinite(Number(value));
+const optionalNumber = (value) => (isFiniteNumber(value) ? Number(value) : null);
+
+/**
+ * Reads lab results typed in by the user from a /lab-results request body.
+ * @returns {{ results: Array<{ name: string, value: number, unit: string, referenceLow: number|null, referenceHigh: number|null }>, measuredOn: string|null }}
+ */
+const manualResultsFromRequest = ({ results, measuredOn }) => ({
+    results: Array.isArray(results) ? results.map(result => ({
+        name: result && typeof result.name === 'string' ? result.name.trim() : '',
+        value: result ? result.value : null,
+        unit: result && typeof result.unit === 'string' ? result.unit.trim() : '',
+        referenceLow: result ? optionalNumber(result.referenceLow) : null,
+        referenceHigh: result ? optionalNumber(result.referenceHigh) : null,
+    })) : [],
+    measuredOn: typeof measuredOn === 'string' && measuredOn ? measuredOn : null,
+});
+
+/**
+ * @returns {string|null} An error message, or null when the results can be stored.
+ */
+const validateManualResults = ({ results, measuredOn }) => {
+    if (results.length === 0) return "At least one lab result is required.";
+    if (results.length > MAX_RESULTS) return `At most ${MAX_RESULTS} lab results can be entered at once.`;
+    for (const result of results) {
+        if (!result.name) return "Every result needs a test name.";
+        if (!isFiniteNumber(result.value)) return `"${result.name}" needs a numeric value.`;
+        if (result.referenceLow !== null && result.referenceHigh !== null && result.referenceLow > result.referenceHigh) {
+            return `The reference range for "${result.name}" is reversed.`;
+        }
+    }
+    if (measuredOn !== null) {
+        const date = new Date(`${measuredOn}T00:00:00Z`);
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(measuredOn) || Number.isNaN(date.getTime())) return "The test date must be given as YYYY-MM-DD.";
+        if (date.getTime() > Date.now()) return "The test date can't be in the future.";
+    }
+    return null;
+};
+
+// The results as a report, so they can be analyzed like a pasted one and are readable as analyses.report_data
+const formatManualResults = ({ results, measuredOn }) => {
+    const lines = results.map(result => {
+        const range = formatReferenceRange(result.referenceLow, result.referenceHigh);
+        return `${result.name}: ${result.value} ${result.unit}${range ? ` (reference ${range})` : ''}`.trim();
+    });
+    return [`Lab results entered manually${measuredOn ? `, tested on ${measuredOn}` : ''}`, ...lines].join('\n');
+};
+
+// Summary stored when the results are saved without being analyzed
+const summarizeManualResults = (biomarkers) => {
+    const outOfRange = biomarkers.filter(b => b.flag !== 'normal').map(b => b.name);
+    const count = `${biomarkers.length} lab value(s) entered manually.`;
+    if (outOfRange.length === 0) return `${count} None are outside their reference range.`;
+    return `${count} ${outOfRange.join(', ')} ${outOfRange.length === 1 ? 'is' : 'are'} outside the reference range.`;
+};
+
+module.exports = { listLabTests, manualResultsFromRequest, validateManualResults, formatManualResults, summarizeManualResults };
@@ -0,0 +1,35 @@
+const EVIDENCE_TYPES = ['quote', 'biomarker'];
+
+const isDocumentNumber = (n, documentCount) => Number.isInteger(n) && n >= 1 && n <= documentCount;
+
+/**
+ * Cleans up the predictions returned by a provider. Document references that don't exist in the
+ * bundle are dropped, and evidence entries without text are removed so the "Why?" section never
+ * shows an empty citation. Predictions from older analyses simply have no evidence or rationale.
+ * @param {Array<object>} predictions Raw predictions from the AI response.
+ * @param {number} documentCount Number of documents that were analyzed.
+ * @returns {Array<{disease: string, probability: number, documentNumbers: number[], rationale: string, evidence: Array<{type: string, text: string, documentNumber: number|null}>}>}
+ */
+const normalizePredictions = (predictions, documentCount) => {
+    if (!Array.isArray(predictions)) return [];
+
+    return predictions
+        .filter(p => p && typeof p.disease === 'string' && typeof p.probability === 'number')
+        .map(p => ({
+            disease: p.disease,
+            probability: Math.max(0, Math.min(1, p.probability)),
+            documentNumbers: Array.isArray(p.documentNumbers)
+                ? [...new Set(p.documentNumbers.filter(n => isDocumentNumber(n, documentCount)))]
+                : [],
+            rationale: typeof p.rationale === 'string' ? p.rationale.trim() : '',
+            evidence: (Array.isArray(p.evidence) ? p.evidence : [])
+                .filter(e => e && EVIDENCE_TYPES.includes(e.type) && typeof e.text === 'string' && e.text.trim())
+                .map(e => ({
+                    type: e.type,
+                    text: e.text.trim(),
+                    documentNumber: isDocumentNumber(e.documentNumber, documentCount) ? e.documentNumber : null,
+                })),
+        }));
+};
+
+module.exports = { normalizePredictions };
@@ -1,5 +1,6 @@
 const { GoogleGenAI, Type, Modality } = require("@google/genai");
 require('dotenv').config();
+const { formatStructuredSymptoms } = require('../structuredSymptoms');
 
 // Support multiple API keys for different purposes. Fall back to single API_KEY when specific ones are not provided.
 const ANALYZE_API_KEY = process.env.ANALYZE_API_KEY || process.env.API_KEY;
@@ -9,7 +10,7 @@ const TTS_API_KEY = process.env.TTS_API_KEY || process.env.API_KEY;
 const MAPS_API_KEY = process.env.MAPS_API_KEY || process.env.API_KEY;
 
 if (!ANALYZE_API_KEY && !SYMPTOMS_API_KEY && !CHAT_API_KEY && !TTS_API_KEY && !MAPS_API_KEY) {
-    throw new Error("No API keys found. Set ANALYZE_API_KEY, SYMPTOMS_API_KEY, CHAT_API_KEY, TTS_API_KEY or API_KEY in backend .env");
+    throw new Error("No API keys found. Set ANALYZE_API_KEY, SYMPTOMS_API_KEY, CHAT_API_KEY, TTS_API_KEY or API_KEY in backend .env, or set AI_PROVIDER=local to run offline.");
 }
 
 // Create separate clients so different keys can be used for different features.
@@ -51,6 +52,59 @@ const retryWithBackoff = async (fn, retries = 5, delay = 1000, jitter = 200) =>
 };
 
 
+// Each document is introduced by a numbered header part, followed by its text and/or files
+const buildDocumentParts = (prompt, documents) => {
+    const parts = [{ text: prompt }];
+    documents.forEach((document, index) => {
+        parts.push({ text: `\n\nDocument ${index + 1}: ${document.title || 'Untitled'}${document.reportText ? `\n\n${document.reportText}` : ''}` });
+        (document.attachments || []).forEach(attachment => {
+            parts.push({ inlineData: { mimeType: attachment.mimeType, data: attachment.data } });
+        });
+    });
+    return parts;
+};
+
+const qualitySchema = {
+    type: Type.OBJECT,
+    properties: {
+        documents: {
+            type: Type.ARRAY,
+            description: "One entry per provided document, in the order given.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    number: { type: Type.INTEGER },
+                    isMedicalReport: { type: Type.BOOLEAN, description: "True for lab results, prescriptions, discharge summaries, imaging and other clinical documents. False for receipts, invoices, IDs, unrelated photos or text." },
+                    documentType: { type: Type.STRING, description: "What the document is, e.g. 'Lipid Panel', 'Prescription', 'Pharmacy receipt', 'Selfie'." },
+                    legibility: { type: Type.STRING, enum: ["clear", "partial", "unreadable"], description: "'partial' when some values are blurred, cut off or obscured; 'unreadable' when the findings can't be read at all." },
+                    language: { type: Type.STRING, description: "ISO 639-1 code of the document's main language, e.g. 'en' or 'ne'." },
+                    issues: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Short notes on anything that limits how reliably the document can be read." },
+                },
+                required: ["number", "isMedicalReport", "documentType", "legibility", "language", "issues"],
+            },
+        },
+    },
+    required: ["documents"],
+};
+
+const assessReportQuality = async ({ documents }) => {
+    try {
+        const prompt = "Before any analysis, check the quality of the documents below. They are numbered starting at 1. For each one, decide whether it is a medical document, what kind of document it is, how legible its findings are and what language it is written in. Do not analyze the findings themselves.";
+        const response = await retryWithBackoff(() => aiAnalyze.models.generateContent({
+            model: 'gemini-2.5-flash',
+            contents: { parts: buildDocumentParts(prompt, documents) },
+            config: {
+                responseMimeType: "application/json",
+                responseSchema: qualitySchema,
+            },
+        }));
+        return JSON.parse(response.text.trim());
+    } catch (error) {
+        console.error("Error assessing report quality with Gemini:", error);
+        throw new Error("Failed to check the uploaded documents.");
+    }
+};
+
 const analysisSchema = {
     type: Type.OBJECT,
     properties: {
@@ -66,8 +120,23 @@ const analysisSchema = {
                 properties: {
                     disease: { type: Type.STRING },
                     probability: { type: Type.NUMBER },
+                    documentNumbers: { type: Type.ARRAY, items: { type: Type.INTEGER }, description: "Numbers of the documents whose findings support this prediction." },
+                    rationale: { type: Type.STRING, description: "One or two sentences explaining why the evidence points to this condition." },
+                    evidence: {
+                        type: Type.ARRAY,
+                        description: "The specific findings behind this prediction. Quote the report verbatim; never paraphrase or invent values.",
+                        items: {
+                            type: Type.OBJECT,
+                            properties: {
+                                type: { type: Type.STRING, enum: ["quote", "biomarker"], description: "'biomarker' when referring to an entry of the biomarkers list, 'quote' for any other text from the report." },
+                                text: { type: Type.STRING, description: "For 'quote', the exact snippet from the report. For 'biomarker', the biomarker name exactly as in the biomarkers list." },
+                                documentNumber: { type: Type.INTEGER, description: "Number of the document the evidence comes from." },
+                            },
+                            required: ["type", "text", "documentNumber"],
+                        },
+                    },
                 },
-                 required: ["disease", "probability"],
+                 required: ["disease", "probability", "documentNumbers", "rationale", "evidence"],
             },
         },
         healthScore: {
@@ -79,32 +148,49 @@ const analysisSchema = {
             description: "A list of 3-5 actionable health recommendations or next steps for the user.",
             items: { type: Type.STRING }
         },
+        biomarkers: {
+            type: Type.ARRAY,
+            description: "Every numeric lab value reported (e.g. HbA1c, LDL, creatinine, hemoglobin), exactly as printed in the report.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    name: { type: Type.STRING, description: "Test name as commonly known, e.g. 'Fasting Blood Glucose'." },
+                    value: { type: Type.NUMBER },
+                    unit: { type: Type.STRING, description: "Unit as printed, e.g. 'mg/dL'. Empty string if none." },
+                    referenceRange: { type: Type.STRING, description: "Reference range as printed, e.g. '70-100'. Empty string if not given." },
+                    referenceLow: { type: Type.NUMBER, nullable: true, description: "Lower reference limit, if any." },
+                    referenceHigh: { type: Type.NUMBER, nullable: true, description: "Upper reference limit, if any." },
+                    flag: { type: Type.STRING, enum: ["high", "low", "normal"], description: "Whether the value is above, below or within the reference range." },
+                    documentNumber: { type: Type.INTEGER, description: "Number of the document this value was read from." },
+                },
+                required: ["name", "value", "unit", "flag", "documentNumber"],
+            },
+        },
+        documents: {
+            type: Type.ARRAY,
+            description: "One entry per provided document, in the order given.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    number: { type: Type.INTEGER },
+                    type: { type: Type.STRING, description: "Kind of document, e.g. 'Complete Blood Count', 'Lipid Panel', 'Ultrasound Report'." },
+                    summary: { type: Type.STRING, description: "One sentence on what this document shows." },
+                },
+                required: ["number", "type", "summary"],
+            },
+        },
     },
-    required: ["summary", "predictions", "healthScore", "recommendations"],
+    required: ["summary", "predictions", "healthScore", "recommendations", "biomarkers", "documents"],
 };
 
-const analyzeHealthReport = async ({ reportText, fileData }) => {
+const analyzeHealthReport = async ({ documents }) => {
     try {
-        let contents;
-        const prompt = "Analyze the provided medical report. Based on the data, generate a health analysis according to the provided JSON schema. The report content is either in the following text or in the attached PDF file.";
-
-        if (fileData && fileData.data) {
-            contents = {
-                parts: [
-                    { text: prompt },
-                    {
-                        inlineData: {
-                            mimeType: fileData.mimeType,
-                            data: fileData.data,
-                        },
-                    },
-                ],
-            };
-        } else if (reportText) {
-            contents = `${prompt}\n\nHere is the report:\n\n${reportText}`;
-        } else {
+        if (!documents || documents.length === 0) {
             throw new Error("No report data provided to analyze.");
         }
+        const prompt = "Analyze the provided medical documents together as one checkup. They are numbered starting at 1 and may include lab panels, imaging notes and other reports for the same patient. Based on all of them, generate one combined health analysis according to the provided JSON schema, extract every numeric lab result into the biomarkers list, and record which document each finding came from. Every prediction must cite the report findings that support it and explain the link in its rationale. Multiple attached images within one document are pages or photos of that document, in order.";
+
+        const contents = { parts: buildDocumentParts(prompt, documents) };
 
         const response = await retryWithBackoff(() => aiAnalyze.models.generateContent({
             model: 'gemini-2.5-flash',
@@ -163,6 +249,17 @@ async function textToSpeech(text, voice, model) {
     }
 }
 
+// The symptom diary digest (see diaryDigest) as one prompt paragraph
+const describeSymptomDiary = (symptomDiary) =>
+    (symptomDiary && symptomDiary.length > 0 ? `Symptom diary, newest day first: ${symptomDiary.join(' | ')}` : 'No recent symptom diary entries.');
+
+// The user's records picked for this message (see retrieveRecords), labelled so the reply can cite them
+const describeUserRecords = (records) => {
+    if (!records || records.length === 0) return 'No stored reports or symptom checks are relevant to this message.';
+    const lines = records.map(record => `[${record.ref}] ${record.title}, ${record.date}${record.matched ? '' : ' (their most recent analysis)'}: ${record.excerpt}`);
+    return `Relevant records from the user's own history. Use them where they help answer, cite each one you use by its label in square brackets (e.g. [R1]) and never cite a label that is not listed:\n${lines.join('\n')}`;
+};
+
 async function getChatResponseTextOnly(message, history, userContext) {
     return await retryWithBackoff(async () => {
         const model = aiChat.getGenerativeModel({ model: "gemini-2.5-flash" });
@@ -179,6 +276,9 @@ async function getChatResponseTextOnly(message, history, userContext) {
             - Weight: ${userContext?.weight || 'Not provided'}
             - Known Medical Conditions: ${userContext?.medical_conditions || 'None'}
             - Current Symptoms: ${userContext?.symptoms || 'None'}
+            - ${describeSymptomDiary(userContext?.symptomDiary)}
+
+            ${describeUserRecords(userContext?.records)}
 
             Based on this context and the conversation history, provide a helpful, safe, and informative response. 
             **Disclaimer: Always remind the user that you are an AI and they should consult a real doctor for medical advice.**
@@ -194,19 +294,22 @@ async function getChatResponseTextOnly(message, history, userContext) {
     });
 }
 
-async function getChatResponse(message, history, userContext, voiceConfig) {
-    const model = 'gemini-2.5-flash'; // Use a supported gemini model
-
+const buildChatSystemInstruction = (userContext) => {
     let systemInstruction = 'You are a friendly and helpful AI health assistant providing information relevant to Nepal. You can answer general health questions. When providing emergency contact information, use Nepali emergency numbers (e.g., Police: 100, Ambulance: 102). You are not a doctor and must always remind the user to consult a healthcare professional for medical advice. Keep your answers concise and easy to understand. Do Not Reply if User Answers are Inappropriate or Irrelevant or out of Context. Answer only Medical Related Questions.';
 
     if (userContext) {
-        systemInstruction += ` Personalize your response for the following user: Age: ${userContext.age}, Weight: ${userContext.weight || 'N/A'}kg. Pre-existing conditions: ${userContext.medical_conditions || 'None'}. Current symptoms: ${userContext.symptoms || 'None'}.`;
+        systemInstruction += ` Personalize your response for the following user: Age: ${userContext.age}, Weight: ${userContext.weight || 'N/A'}kg. Pre-existing conditions: ${userContext.medical_conditions || 'None'}. Current symptoms: ${userContext.symptoms || 'None'}. ${describeSymptomDiary(userContext.symptomDiary)}\n\n${describeUserRecords(userContext.records)}`;
     }
+    return systemInstruction;
+};
+
+async function getChatResponse(message, history, userContext, voiceConfig) {
+    const model = 'gemini-2.5-flash'; // Use a supported gemini model
 
     const chat = aiChat.chats.create({
         model,
         config: {
-            systemInstruction,
+            systemInstruction: buildChatSystemInstruction(userContext),
         },
         history: history,
     });
@@ -237,6 +340,37 @@ async function getChatResponse(message, history, userContext, voiceConfig) {
     }
 };
 
+/**
+ * Streams the assistant's reply as text deltas.
+ * @param {AbortSignal} [signal] Aborts the underlying Gemini request when the client goes away.
+ * @returns {AsyncGenerator<string>}
+ */
+async function* streamChatResponse(message, history, userContext, signal) {
+    const chat = aiChat.chats.create({
+        model: 'gemini-2.5-flash',
+        config: {
+            systemInstruction: buildChatSystemInstruction(userContext),
+        },
+        history: history,
+    });
+
+    let stream;
+    try {
+        // Only the initial request is retried; once tokens are flowing a failure ends the stream.
+        stream = await retryWithBackoff(() => chat.sendMessageStream({ message, config: { abortSignal: signal } }));
+    } catch (error) {
+        console.error("Error starting chat stream:", error);
+        throw new Error("Could not get a response from the assistant.");
+    }
+
+    for await (const chunk of stream) {
+        if (signal && signal.aborted) return;
+        if (chunk.text) {
+            yield chunk.text;
+        }
+    }
+}
+
 const symptomPredictionSchema = {
     type: Type.OBJECT,
     properties: {
@@ -258,14 +392,33 @@ const symptomPredictionSchema = {
     required: ["predictions"],
 };
 
-const predictSymptomsFromText = async (symptomsText, userContext = null) => {
+const predictSymptomsFromText = async (symptomsText, userContext = null, structuredSymptoms = []) => {
     const primaryModel = 'gemini-2.5-flash';
     const fallbackModel = 'gemini-pro'; // A reliable fallback
 
-    let prompt = `You are an AI Symptom Checker. Analyze the following symptoms for a user and provide a list of potential diseases. For each disease, include its probability, a brief description, and the recommended medical specialist. IMPORTANT: This is for informational purposes only and is not a substitute for professional medical advice. Symptoms: "${symptomsText}"`;
+    let prompt = `You are an AI Symptom Checker. Analyze the following symptoms for a user and provide a list of potential diseases. For each disease, include its probability, a brief description, and the recommended medical specialist. IMPORTANT: This is for informational purposes only and is not a substitute for professional medical advice.`;
+    if (symptomsText) {
+        prompt += ` Symptoms: "${symptomsText}"`;
+    }
+    // Symptoms picked on the body map; severity, onset and pattern matter as much as the names
+    if (structuredSymptoms.length > 0) {
+        prompt += `\n\nSymptoms selected by the user (name, body location, severity 0-10, onset date, duration, pattern):\n${formatStructuredSymptoms(structuredSymptoms)}`;
+    }
 
     if (userContext) {
-        prompt += `\n\nUser context: Age: ${userContext.age}, Pre-existing conditions: ${userContext.medical_conditions || 'None'}.`;
+        prompt += `\n\nUser context: Age: ${userContext.age}, Sex: ${userContext.sex || 'Not provided'}, Pre-existing conditions: ${userContext.medical_conditions || 'None'}, Current medications: ${userContext.medications || 'None'}, Allergies: ${userContext.allergies || 'None'}.`;
+        // Recent report findings, so e.g. fatigue is weighed against a known low hemoglobin
+        const recentAnalyses = userContext.recentAnalyses || [];
+        if (recentAnalyses.length > 0) {
+            prompt += `\nRecent health report analyses, newest first:`;
+            recentAnalyses.forEach(analysis => {
+                prompt += `\n- ${analysis.date}: ${analysis.summary || 'No summary'} Possible conditions: ${analysis.conditions.join(', ') || 'None'}. Out-of-range results: ${analysis.abnormalResults.join(', ') || 'None'}.`;
+            });
+        }
+        // How the symptoms have developed day by day, from the user's diary
+        if (userContext.symptomDiary && userContext.symptomDiary.length > 0) {
+            prompt += `\n${describeSymptomDiary(userContext.symptomDiary)}`;
+        }
     }
 
     const generate = async (model) => {
@@ -382,7 +535,7 @@ const generateHealthTips = async (analysisData) => {
             Based on the following health summary, generate 3-4 personalized, actionable, and encouraging health tips.
             The tips should be directly related to the provided data. Be creative and helpful.
             
-            Health Score: ${healthScore}/100
+            Health Score: ${healthScore !== null && healthScore !== undefined ? `${healthScore}/100` : 'Not scored'}
             AI Summary: "${summary}"
             Potential Risks: ${potentialRisks || "None detected"}
             
@@ -412,5 +565,101 @@ const generateHealthTips = async (analysisData) => {
     }
 };
 
+const describeAnalysisChanges = async (base, target, comparison) => {
+    try {
+        const prompt = `
+            You are helping a doctor review a follow-up visit. Two health report analyses for the same patient are given below,
+            followed by a computed diff between them. Write a short narrative (one or two paragraphs, under 150 words) explaining
+            what changed between the reports, what improved, what got worse, and what is worth discussing at the visit.
+            Do not invent values that are not in the data. Plain text only, no markdown headings.
+
+            Earlier report (${base.created_at}): ${JSON.stringify({ summary: base.summary, healthScore: base.healthScore, predictions: base.predictions })}
+            Later report (${target.created_at}): ${JSON.stringify({ summary: target.summary, healthScore: target.healthScore, predictions: target.predictions })}
+            Diff: ${JSON.stringify(comparison)}
+        `;
+
+        const response = await retryWithBackoff(() => aiAnalyze.models.generateContent({
+            model: 'gemini-2.5-flash',
+            contents: prompt,
+        }));
+        return response.text.trim();
+    } catch (error) {
+        console.error("Error describing analysis changes with Gemini:", error);
+        throw new Error("Failed to generate a comparison summary from the AI.");
+    }
+};
+
+const urgencySchema = {
+    type: Type.OBJECT,
+    properties: {
+        urgency: { type: Type.STRING, enum: ['routine', 'urgent', 'emergency'] },
+        reasons: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "One short sentence per warning sign found, addressed to the user. Empty for routine messages.",
+        },
+    },
+    required: ["urgency", "reasons"],
+};
+
+const assessUrgency = async (text) => {
+    try {
+        const prompt = `
+            You are a medical triage nurse. Classify how urgently the person writing the message below needs care.
+            The message may be in English or Nepali (Devanagari or romanized) and may contain typos.
+            - "emergency": call an ambulance now (e.g. someone unconscious or not waking up, chest pain, trouble breathing, stroke signs, heavy bleeding, seizure, poisoning, suicidal thoughts).
+            - "urgent": should see a doctor today.
+            - "routine": anything else, including general health questions.
+            Message: "${text}"
+        `;
+
+        const response = await retryWithBackoff(() => aiSymptoms.models.generateContent({
+            model: 'gemini-2.5-flash',
+            contents: prompt,
+            config: {
+                responseMimeType: "application/json",
+                responseSchema: urgencySchema,
+            },
+        }));
+        return JSON.parse(response.text.trim());
+    } catch (error) {
+        console.error("Error assessing urgency with Gemini:", error);
+        throw new Error("Failed to assess urgency with the AI.");
+    }
+};
+
+const generateConversationTitle = async (userMessage, aiReply) => {
+    try {
+        const prompt = `
+            Write a title of at most six words for a health chat that starts with the exchange below.
+            Use the language of the user's message. Reply with the title only, without quotes.
+            User: "${userMessage}"
+            Assistant: "${aiReply.slice(0, 1000)}"
+        `;
+        const response = await retryWithBackoff(() => aiSymptoms.models.generateContent({
+            model: 'gemini-2.5-flash',
+            contents: prompt,
+        }));
+        return response.text.trim();
+    } catch (error) {
+        console.error("Error generating conversation title with Gemini:", error);
+        throw new Error("Failed to generate a conversation title with the AI.");
+    }
+};
+
 
-module.exports = { analyzeHealthReport, getChatResponse, getChatResponseTextOnly, predictSymptomsFromText, findHospitalsNearLocation, generateHealthTips };
+module.exports = {
+    name: 'gemini',
+    assessReportQuality,
+    analyzeHealthReport,
+    getChatResponse,
+    getChatResponseTextOnly,
+    streamChatResponse,
+    textToSpeech,
+    predictSymptomsFromText,
+    assessUrgency,
+    generateConversationTitle,
+    findHospitalsNearLocation,
+    generateHealthTips,
+    describeAnalysisChanges,
+};
@@ -0,0 +1,421 @@
+const fs = require('fs');
+const path = require('path');
+const { findCatalogEntry, unitMatches } = require('../biomarkerCatalog');
+const { toCanonical } = require('../labUnits');
+const { titleFromMessage } = require('../conversations');
+require('dotenv').config();
+
+/**
+ * An offline provider that never touches the network. Every answer is derived deterministically
+ * from the input and the fixtures in ./fixtures/local.json, so the same request always gets the
+ * same response. Point LOCAL_AI_FIXTURES at another JSON file to override any of the fixture keys.
+ */
+const loadFixtures = () => {
+    const defaults = JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', 'local.json'), 'utf8'));
+    if (!process.env.LOCAL_AI_FIXTURES) {
+        return defaults;
+    }
+    const overrides = JSON.parse(fs.readFileSync(path.resolve(process.env.LOCAL_AI_FIXTURES), 'utf8'));
+    return { ...defaults, ...overrides };
+};
+
+const fixtures = loadFixtures();
+
+// Lab values the offline analyzer can recognise in plain-text reports, with typical adult reference limits.
+// `risk` is called with the parsed value and returns a prediction (or null when the value is fine).
+const LAB_RULES = [
+    {
+        label: 'Fasting blood glucose',
+        unit: 'mg/dL', low: 70, high: 99,
+        // Only glucose labelled as fasting; random and after-meal results have higher limits
+        pattern: /(?:fasting (?:blood |plasma )?(?:sugar|glucose)|glucose,? fasting|\bfbs\b)/i,
+        risk: (v) => v >= 126 ? { disease: 'Type 2 Diabetes', probability: 0.75 } : v >= 100 ? { disease: 'Prediabetes', probability: 0.5 } : null,
+    },
+    {
+        label: 'HbA1c',
+        unit: '%', low: 4, high: 5.6,
+        pattern: /\bhba1c\b|glycated ha?emoglobin/i,
+        risk: (v) => v >= 6.5 ? { disease: 'Type 2 Diabetes', probability: 0.8 } : v >= 5.7 ? { disease: 'Prediabetes', probability: 0.55 } : null,
+    },
+    {
+        label: 'LDL cholesterol',
+        unit: 'mg/dL', low: null, high: 129,
+        pattern: /\bldl\b/i,
+        risk: (v) => v >= 160 ? { disease: 'Hyperlipidemia', probability: 0.7 } : v >= 130 ? { disease: 'Hyperlipidemia', probability: 0.45 } : null,
+    },
+    {
+        label: 'Total cholesterol',
+        unit: 'mg/dL', low: null, high: 199,
+        pattern: /total cholesterol|\bcholesterol\b/i,
+        exclude: /\b(?:ldl|hdl|vldl)\b/i,
+        risk: (v) => v >= 240 ? { disease: 'Hypercholesterolemia', probability: 0.65 } : v >= 200 ? { disease: 'Hypercholesterolemia', probability: 0.4 } : null,
+    },
+    {
+        label: 'Triglycerides',
+        unit: 'mg/dL', low: null, high: 149,
+        pattern: /triglycerides?|\btg\b/i,
+        risk: (v) => v >= 200 ? { disease: 'Hypertriglyceridemia', probability: 0.6 } : null,
+    },
+    {
+        label: 'Serum creatinine',
+        unit: 'mg/dL', low: 0.6, high: 1.3,
+        pattern: /creatinine/i,
+        risk: (v) => v > 1.3 ? { disease: 'Chronic Kidney Disease', probability: v > 2 ? 0.7 : 0.4 } : null,
+    },
+    {
+        label: 'Hemoglobin',
+        unit: 'g/dL', low: 12, high: 17.5,
+        pattern: /\bha?emoglobin\b|\bhb\b|\bhgb\b/i,
+        exclude: /a1c|glycated/i,
+        risk: (v) => v < 12 ? { disease: 'Anemia', probability: v < 10 ? 0.75 : 0.5 } : null,
+    },
+    {
+        label: 'ALT (SGPT)',
+        unit: 'U/L', low: 7, high: 56,
+        pattern: /\balt\b|sgpt/i,
+        risk: (v) => v > 56 ? { disease: 'Fatty Liver Disease', probability: 0.45 } : null,
+    },
+    {
+        label: 'TSH',
+        unit: 'mIU/L', low: 0.4, high: 4.5,
+        pattern: /\btsh\b/i,
+        risk: (v) => v > 4.5 ? { disease: 'Hypothyroidism', probability: 0.6 } : v < 0.4 ? { disease: 'Hyperthyroidism', probability: 0.55 } : null,
+    },
+];
+
+const RECOMMENDATIONS = {
+    'Type 2 Diabetes': 'Consult an endocrinologist about your blood sugar and repeat HbA1c testing.',
+    'Prediabetes': 'Cut back on sugary drinks and refined rice, and recheck your blood sugar in 3 months.',
+    'Hyperlipidemia': 'Limit fried and processed foods and discuss cholesterol management with your doctor.',
+    'Hypercholesterolemia': 'Add more vegetables, fruits and whole grains to your meals to help lower cholesterol.',
+    'Hypertriglyceridemia': 'Reduce alcohol and sweets, which strongly raise triglyceride levels.',
+    'Chronic Kidney Disease': 'See a nephrologist to assess kidney function and review any medicines that affect the kidneys.',
+    'Anemia': 'Include iron-rich foods such as leafy greens, lentils and meat, and ask your doctor about iron supplements.',
+    'Fatty Liver Disease': 'Avoid alcohol and aim for gradual weight loss to support liver health.',
+    'Hypothyroidism': 'Ask your doctor whether thyroid hormone treatment is needed.',
+    'Hyperthyroidism': 'Follow up with an endocrinologist to evaluate your thyroid function.',
+};
+
+const GENERAL_RECOMMENDATIONS = [
+    'Stay physically active for at least 30 minutes on most days.',
+    'Drink enough water and get 7-8 hours of sleep each night.',
+    'Share this report with your doctor at your next visit.',
+];
+
+const HEALTH_DISCLAIMER = 'Remember, I am an AI assistant and not a doctor—please consult a healthcare professional for medical advice.';
+
+// Small stable hash so "random-looking" choices are repeatable for the same input.
+const hashString = (text) => {
+    let hash = 0;
+    for (let i = 0; i < text.length; i++) {
+        hash = (hash * 31 + text.charCodeAt(i)) | 0;
+    }
+    return Math.abs(hash);
+};
+
+const round2 = (n) => Math.round(n * 100) / 100;
+
+// Returns the first value matching the rule along with the unit printed after it (or '') and the
+// report line it was read from, or null.
+const findLabResult = (reportText, { pattern, exclude }) => {
+    for (const line of reportText.split(/\r?\n/)) {
+        if (exclude && exclude.test(line)) continue;
+        const match = line.match(pattern);
+        if (!match) continue;
+        const rest = line.slice(match.index + match[0].length);
+        const number = rest.match(/-?\d+(?:\.\d+)?/);
+        if (number) {
+            const unit = rest.slice(number.index + number[0].length).trim().split(/[\s,;(]/)[0];
+            return { value: parseFloat(number[0]), unit, line: line.trim() };
+        }
+    }
+    return null;
+};
+
+// Rules and their limits use the catalog's canonical units; a value printed in another known unit
+// (e.g. glucose in mmol/L) is converted for the checks but reported as printed.
+const readLabValue = (rule, { value, unit }) => {
+    const entry = findCatalogEntry(rule.label);
+    const canonical = entry && unit && !unitMatches(entry, unit) ? toCanonical(entry, value, unit) : null;
+    return canonical === null ? { value, printed: null } : { value: canonical, printed: { value, unit } };
+};
+
+const explainValue = (rule, value) => {
+    if (rule.high !== null && value > rule.high) return `${rule.label} of ${value} ${rule.unit} is above the upper reference limit of ${rule.high} ${rule.unit}.`;
+    if (rule.low !== null && value < rule.low) return `${rule.label} of ${value} ${rule.unit} is below the lower reference limit of ${rule.low} ${rule.unit}.`;
+    return `${rule.label} of ${value} ${rule.unit} is at the edge of the typical range.`;
+};
+
+// Files can't be read offline, so a document only contributes what is in its text.
+const describeDocument = (document, index, labCount) => ({
+    number: index + 1,
+    type: labCount > 0 ? 'Lab report' : document.reportText ? 'Clinical note' : 'Uploaded file',
+    summary: labCount > 0
+        ? `${labCount} recognised lab value(s) from ${document.title || `document ${index + 1}`}.`
+        : document.reportText ? 'No recognised lab values; included as supporting text.' : 'Could not be read in offline mode.',
+});
+
+// Words common in medical documents, and in shop receipts and invoices, used to tell them apart offline.
+const MEDICAL_TERMS = /\b(?:patient|specimen|sample|reference|range|result|test|diagnosis|hospital|clinic|laboratory|lab|doctor|blood|urine|serum|prescription|impression|findings|mg\/dl|g\/dl|mmol\/l|u\/l)\b/gi;
+const RECEIPT_TERMS = /\b(?:receipt|invoice|subtotal|sub total|total amount|grand total|qty|quantity|vat|cashier|change due|discount|bill no)\b/gi;
+// Characters that legible report text is made of; OCR noise shows up as anything else.
+const READABLE_CHARACTER = /[\p{L}\p{M}\p{N}.,:;%/()\-+<>=*'"#&]/gu;
+
+const countMatches = (text, pattern) => (text.match(pattern) || []).length;
+
+const assessDocument = (document, index) => {
+    const number = index + 1;
+    if (!document.reportText) {
+        // Files can't be inspected offline, so they are given the benefit of the doubt
+        return { number, isMedicalReport: true, documentType: 'Uploaded file', legibility: 'clear', language: null, issues: [] };
+    }
+    const text = document.reportText;
+    const labCount = LAB_RULES.filter(rule => findLabResult(text, rule) !== null).length;
+    const medicalTerms = countMatches(text, MEDICAL_TERMS);
+    const receiptTerms = countMatches(text, RECEIPT_TERMS);
+    const visible = text.replace(/\s/g, '');
+    const readableRatio = visible.length > 0 ? countMatches(visible, READABLE_CHARACTER) / visible.length : 0;
+    const letters = countMatches(text, /[\p{L}\p{M}]/gu);
+    const devanagari = countMatches(text, /[\u0900-\u097F]/g);
+
+    const isMedicalReport = labCount > 0 || (medicalTerms >= 2 && medicalTerms > receiptTerms);
+    const documentType = labCount > 0 ? 'Lab report'
+        : receiptTerms > medicalTerms ? 'Receipt'
+        : isMedicalReport ? 'Clinical note' : '';
+    const legibility = visible.length < 20 || readableRatio < 0.6 ? 'unreadable' : readableRatio < 0.85 ? 'partial' : 'clear';
+
+    const issues = [];
+    if (!isMedicalReport) issues.push(receiptTerms > 0 ? 'Contains billing terms and no lab results.' : 'No lab results or medical terms found.');
+    if (legibility !== 'clear') issues.push(`${Math.round((1 - readableRatio) * 100)}% of the characters look like OCR noise.`);
+    return {
+        number,
+        isMedicalReport,
+        documentType,
+        legibility,
+        language: letters > 0 && devanagari / letters > 0.3 ? 'ne' : 'en',
+        issues,
+    };
+};
+
+const assessReportQuality = async ({ documents }) => ({
+    documents: documents.map(assessDocument),
+});
+
+const analyzeHealthReport = async ({ documents }) => {
+    if (!documents || documents.length === 0) {
+        throw new Error("No report data provided to analyze.");
+    }
+    if (!documents.some(document => document.reportText)) {
+        // PDFs and photos cannot be read offline; return the sample analysis instead.
+        const sample = JSON.parse(JSON.stringify(fixtures.sampleReportAnalysis));
+        sample.predictions.forEach(p => {
+            p.documentNumbers = [1];
+            p.evidence.forEach(e => { e.documentNumber = 1; });
+        });
+        sample.biomarkers.forEach(b => { b.documentNumber = 1; });
+        sample.documents = documents.map((document, index) => describeDocument(document, index, 0));
+        return sample;
+    }
+
+    const findings = [];
+    const biomarkers = [];
+    const predictionsByDisease = new Map();
+    const labCounts = documents.map(() => 0);
+    for (const rule of LAB_RULES) {
+        // The first document reporting a value wins, so put the most recent panel first
+        const documentIndex = documents.findIndex(document => document.reportText && findLabResult(document.reportText, rule) !== null);
+        if (documentIndex === -1) continue;
+        const result = findLabResult(documents[documentIndex].reportText, rule);
+        const { line } = result;
+        const { value, printed } = readLabValue(rule, result);
+        labCounts[documentIndex]++;
+        const prediction = rule.risk(value);
+        findings.push({ label: rule.label, value, abnormal: !!prediction });
+        biomarkers.push({
+            name: rule.label,
+            ...(printed || { value, unit: rule.unit }),
+            // The rule's limits are in the canonical unit, so they're left for the backend to fill in
+            referenceLow: printed ? null : rule.low,
+            referenceHigh: printed ? null : rule.high,
+            flag: rule.low !== null && value < rule.low ? 'low' : value > rule.high ? 'high' : 'normal',
+            documentNumber: documentIndex + 1,
+        });
+        if (prediction) {
+            // Several rules can point at the same disease (e.g. glucose and HbA1c); their evidence is combined
+            const existing = predictionsByDisease.get(prediction.disease);
+            const documentNumbers = [...new Set([...(existing ? existing.documentNumbers : []), documentIndex + 1])];
+            const probability = existing ? Math.max(existing.probability, prediction.probability) : prediction.probability;
+            const evidence = (existing ? existing.evidence : []).concat(
+                { type: 'biomarker', text: rule.label, documentNumber: documentIndex + 1 },
+                { type: 'quote', text: line, documentNumber: documentIndex + 1 },
+            );
+            const rationale = [existing && existing.rationale, explainValue(rule, value)].filter(Boolean).join(' ');
+            predictionsByDisease.set(prediction.disease, { ...prediction, probability, documentNumbers, evidence, rationale });
+        }
+    }
+
+    const predictions = [...predictionsByDisease.values()].sort((a, b) => b.probability - a.probability);
+    const penalty = predictions.reduce((sum, p) => sum + Math.round(p.probability * 20), 0);
+    const healthScore = Math.max(20, Math.min(95, 92 - penalty));
+
+    const abnormal = findings.filter(f => f.abnormal).map(f => f.label);
+    let summary;
+    const subject = documents.length > 1 ? `These ${documents.length} documents include` : 'The report includes';
+    if (findings.length === 0) {
+        summary = 'No recognisable lab values were found in this report. The overall picture could not be assessed in detail offline.';
+    } else if (abnormal.length === 0) {
+        summary = `${subject} ${findings.length} recognised lab value(s), all within typical ranges. Keep up your current healthy habits.`;
+    } else {
+        summary = `${subject} ${findings.length} recognised lab value(s). ${abnormal.join(', ')} ${abnormal.length === 1 ? 'is' : 'are'} outside the typical range and should be reviewed with a doctor.`;
+    }
+
+    const recommendations = [...new Set(predictions.map(p => RECOMMENDATIONS[p.disease]).filter(Boolean))]
+        .concat(GENERAL_RECOMMENDATIONS)
+        .slice(0, 5);
+
+    const documentSummaries = documents.map((document, index) => describeDocument(document, index, labCounts[index]));
+
+    return { summary, predictions, healthScore, recommendations, biomarkers, documents: documentSummaries };
+};
+
+const buildChatReply = (message, userContext) => {
+    const lower = message.toLowerCase();
+    const topic = fixtures.chatTopics.find(t => t.keywords.some(k => lower.includes(k)));
+    let reply = topic ? topic.reply : fixtures.defaultChatReply;
+    if (userContext && userContext.medical_conditions) {
+        reply += ` Since you have noted ${userContext.medical_conditions}, keep your regular doctor informed.`;
+    }
+    // Point at the most relevant stored record the message matched, cited the way the online provider is asked to
+    const record = userContext && userContext.records && userContext.records.find(r => r.matched);
+    if (record) {
+        reply += `\n\nFrom your ${record.title.toLowerCase()} on ${record.date.slice(0, 10)}: ${record.excerpt.length > 200 ? `${record.excerpt.slice(0, 199)}…` : record.excerpt} [${record.ref}]`;
+    }
+    return `${reply}\n\n${HEALTH_DISCLAIMER}`;
+};
+
+async function getChatResponseTextOnly(message, history, userContext) {
+    return { response: buildChatReply(message, userContext) };
+}
+
+async function getChatResponse(message, history, userContext, voiceConfig) {
+    // There is no offline speech synthesis, so audio is always null and the UI falls back to text.
+    return { response: buildChatReply(message, userContext), audio: null };
+}
+
+const STREAM_CHUNK_DELAY_MS = 20;
+
+async function* streamChatResponse(message, history, userContext, signal) {
+    // Emit the reply word by word so the UI exercises the same progressive rendering as a live model.
+    const words = buildChatReply(message, userContext).split(/(?<=\s)/);
+    for (const word of words) {
+        if (signal && signal.aborted) return;
+        await new Promise(res => setTimeout(res, STREAM_CHUNK_DELAY_MS));
+        yield word;
+    }
+}
+
+async function textToSpeech(text, voice) {
+    return null;
+}
+
+const predictSymptomsFromText = async (symptomsText, userContext = null, structuredSymptoms = []) => {
+    const lower = [symptomsText, ...structuredSymptoms.map(s => s.name)].join(' ').toLowerCase();
+    const scored = fixtures.symptomConditions
+        .map(condition => {
+            const matches = condition.keywords.filter(k => lower.includes(k)).length;
+            return { condition, matches, ratio: matches / condition.keywords.length };
+        })
+        .filter(s => s.matches > 0)
+        .sort((a, b) => b.matches - a.matches || b.ratio - a.ratio || a.condition.disease.localeCompare(b.condition.disease))
+        .slice(0, 5);
+
+    if (scored.length === 0) {
+        return { predictions: [{ ...fixtures.fallbackCondition, probability: 0.2 }] };
+    }
+
+    const predictions = scored.map(({ condition, ratio }) => ({
+        disease: condition.disease,
+        probability: round2(Math.min(0.9, 0.25 + ratio * 0.6)),
+        description: condition.description,
+        specialist: condition.specialist,
+    }));
+    return { predictions };
+};
+
+// There is no model offline, so triage rests on the rules in triage.js alone.
+const assessUrgency = async () => ({ urgency: 'routine', reasons: [] });
+
+const generateConversationTitle = async (userMessage) => titleFromMessage(userMessage);
+
+const findHospitalsNearLocation = async ({ latitude, longitude, query }) => {
+    if (!(latitude && longitude) && !query) {
+        throw new Error("No location data provided to find hospitals.");
+    }
+    const where = query || `${latitude}, ${longitude}`;
+    const hospitals = fixtures.hospitals.map(name => ({
+        name,
+        uri: `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(name)}`,
+    }));
+    return {
+        summary: `Offline mode: showing well-known hospitals in the Kathmandu valley instead of live results for "${where}".`,
+        hospitals,
+    };
+};
+
+const generateHealthTips = async (analysisData) => {
+    const { healthScore, predictions = [] } = analysisData;
+    const tips = predictions
+        .map(p => RECOMMENDATIONS[p.disease])
+        .filter(Boolean);
+    if (healthScore >= 80) {
+        tips.push('Your health score is good—keep up your routine and schedule a yearly checkup.');
+    }
+    const general = [...GENERAL_RECOMMENDATIONS];
+    const offset = hashString(String(healthScore)) % general.length;
+    const rotated = general.slice(offset).concat(general.slice(0, offset));
+    return [...new Set(tips.concat(rotated))].slice(0, 4);
+};
+
+const percent = (p) => `${Math.round(p * 100)}%`;
+
+const describeAnalysisChanges = async (base, target, comparison) => {
+    const { scoreDelta, predictions, biomarkers } = comparison;
+    const sentences = [];
+
+    if (scoreDelta === null) sentences.push('Only one of these analyses has an AI health score, so scores are not compared.');
+    else if (scoreDelta > 0) sentences.push(`The health score improved by ${scoreDelta} points, from ${base.healthScore} to ${target.healthScore}.`);
+    else if (scoreDelta < 0) sentences.push(`The health score dropped by ${-scoreDelta} points, from ${base.healthScore} to ${target.healthScore}.`);
+    else sentences.push(`The health score stayed at ${target.healthScore}.`);
+
+    if (predictions.appeared.length) {
+        sentences.push(`New potential risks: ${predictions.appeared.map(p => `${p.disease} (${percent(p.probability)})`).join(', ')}.`);
+    }
+    if (predictions.resolved.length) {
+        sentences.push(`No longer flagged: ${predictions.resolved.map(p => p.disease).join(', ')}.`);
+    }
+    for (const p of predictions.changed) {
+        sentences.push(`${p.disease} risk ${p.delta > 0 ? 'rose' : 'fell'} from ${percent(p.before)} to ${percent(p.after)}.`);
+    }
+    for (const b of biomarkers.filter(b => b.flagBefore !== b.flagAfter)) {
+        sentences.push(`${b.name} went from ${b.before}${b.unitBefore === b.unit ? '' : ` ${b.unitBefore}`} to ${b.after} ${b.unit} and is now ${b.flagAfter}.`);
+    }
+
+    sentences.push('Please review these changes with your doctor.');
+    return sentences.join(' ');
+};
+
+module.exports = {
+    name: 'local',
+    assessReportQuality,
+    analyzeHealthReport,
+    getChatResponse,
+    getChatResponseTextOnly,
+    streamChatResponse,
+    textToSpeech,
+    predictSymptomsFromText,
+    assessUrgency,
+    generateConversationTitle,
+    findHospitalsNearLocation,
+    generateHealthTips,
+    describeAnalysisChanges,
+};
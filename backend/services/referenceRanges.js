@@ -0,0 +1,52 @@
+const { findCatalogEntry } = require('./biomarkerCatalog');
+
+// Values accepted for users.sex; reference limits only distinguish these two.
+const SEXES = ['male', 'female'];
+
+/**
+ * Age- and sex-specific reference limits, in the catalog's canonical units. A row applies when its
+ * sex (if any) and age band (minAge/maxAge in years, inclusive) match the patient; the first
+ * matching row for a test wins, so specific rows come before general ones. Tests without a
+ * matching row use the adult limits in biomarkerCatalog.js.
+ */
+const REFERENCE_RANGES = [
+    { test: 'Hemoglobin', maxAge: 11, low: 11.5, high: 15.5 },
+    { test: 'Hemoglobin', sex: 'male', low: 13.5, high: 17.5 },
+    { test: 'Hemoglobin', sex: 'female', low: 12, high: 15.5 },
+    { test: 'Hematocrit', sex: 'male', minAge: 18, low: 41, high: 50 },
+    { test: 'Hematocrit', sex: 'female', minAge: 18, low: 36, high: 44 },
+    { test: 'Serum creatinine', sex: 'male', minAge: 18, low: 0.74, high: 1.35 },
+    { test: 'Serum creatinine', sex: 'female', minAge: 18, low: 0.59, high: 1.04 },
+    { test: 'HDL cholesterol', sex: 'male', low: 40, high: null },
+    { test: 'HDL cholesterol', sex: 'female', low: 50, high: null },
+    { test: 'Uric acid', sex: 'male', low: 3.4, high: 7 },
+    { test: 'Uric acid', sex: 'female', low: 2.4, high: 6 },
+    { test: 'ALT (SGPT)', sex: 'male', minAge: 18, low: 7, high: 55 },
+    { test: 'ALT (SGPT)', sex: 'female', minAge: 18, low: 7, high: 45 },
+    { test: 'Blood urea nitrogen', minAge: 60, low: 8, high: 23 },
+];
+
+const rowApplies = (row, { age, sex }) =>
+    (!row.sex || row.sex === sex)
+    && (row.minAge === undefined || (age > 0 && age >= row.minAge))
+    && (row.maxAge === undefined || (age > 0 && age <= row.maxAge));
+
+/**
+ * @param {object} entry A catalog entry (see findCatalogEntry).
+ * @param {{ age?: number, sex?: string }} patient Rows for another sex or age band are skipped; unknown values match only general rows.
+ * @returns {{ low: number|null, high: number|null }}
+ */
+const referenceRangeFor = (entry, patient = {}) => {
+    const row = REFERENCE_RANGES.find(r => r.test === entry.name && rowApplies(r, patient));
+    return row ? { low: row.low, high: row.high } : { low: entry.low, high: entry.high };
+};
+
+/**
+ * Reference limits for a test by name, e.g. for a client showing a range; null for unknown tests.
+ */
+const referenceRangeForTest = (name, patient) => {
+    const entry = findCatalogEntry(name);
+    return entry ? referenceRangeFor(entry, patient) : null;
+};
+
+module.exports = { SEXES, REFERENCE_RANGES, referenceRangeFor, referenceRangeForTest };
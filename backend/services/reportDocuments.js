@@ -0,0 +1,81 @@
+const { validateAttachments } = require('./reportFiles');
+
+const MAX_DOCUMENTS = 10;
+
+/**
+ * Reads the documents to analyze from an /analyze request body. A bundle is sent as `documents`;
+ * the older single-report fields (reportText, attachments, fileData) become a one-document bundle.
+ * @returns {Array<{ title: string, reportText?: string, attachments: Array<object> }>}
+ */
+const documentsFromRequest = ({ documents, reportText, attachments, fileData }) => {
+    if (Array.isArray(documents)) {
+        return documents.map((document, index) => ({
+            title: (document && typeof document.title === 'string' && document.title.trim()) || `Document ${index + 1}`,
+            reportText: document && typeof document.reportText === 'string' && document.reportText.trim() ? document.reportText : undefined,
+            attachments: (document && document.attachments) || [],
+        }));
+    }
+    const legacyAttachments = attachments || (fileData ? [fileData] : []);
+    if (!reportText && legacyAttachments.length === 0) return [];
+    return [{ title: 'Report', reportText, attachments: legacyAttachments }];
+};
+
+/**
+ * @returns {string|null} An error message, or null when the bundle can be analyzed.
+ */
+const validateDocuments = (documents) => {
+    if (documents.length === 0) return "Report text or file is required.";
+    if (documents.length > MAX_DOCUMENTS) return `At most ${MAX_DOCUMENTS} documents can be analyzed together.`;
+    for (const document of documents) {
+        if (!Array.isArray(document.attachments)) return "Attachments must be a list.";
+        if (!document.reportText && document.attachments.length === 0) {
+            return `"${document.title}" has no text or files.`;
+        }
+    }
+    return validateAttachments(documents.flatMap(document => document.attachments));
+};
+
+/**
+ * Combines what the client sent with the provider's per-document notes into the provenance list
+ * stored with the analysis. `number` is 1-based and matches documentNumber(s) on biomarkers and predictions.
+ */
+const buildDocumentProvenance = (documents, analyzedDocuments = []) =>
+    documents.map((document, index) => {
+        const analyzed = (analyzedDocuments || []).find(d => d && d.number === index + 1) || {};
+        return {
+            number: index + 1,
+            title: document.title,
+            type: analyzed.type || '',
+            summary: analyzed.summary || '',
+            fileNames: document.attachments.map(a => a.name || 'report'),
+            hasText: !!document.reportText,
+        };
+    });
+
+// Text saved as analyses.report_data. Single documents are stored as before; bundles get a header per document.
+const formatReportData = (documents) => {
+    const describe = (document) => document.reportText || `[Uploaded files: ${document.attachments.map(a => a.name || 'report').join(', ')}]`;
+    if (documents.length === 1) return describe(documents[0]);
+    return documents.map((document, index) => `=== Document ${index + 1}: ${document.title} ===\n${describe(document)}`).join('\n\n');
+};
+
+/**
+ * Parses analyses.documents. Rows created before bundles existed return [].
+ */
+const parseStoredDocuments = (json) => {
+    if (!json) return [];
+    try {
+        const parsed = JSON.parse(json);
+        return Array.isArray(parsed) ? parsed : [];
+    } catch (e) {
+        return [];
+    }
+};
+
+module.exports = {
+    documentsFromRequest,
+    validateDocuments,
+    buildDocumentProvenance,
+    formatReportData,
+    parseStoredDocuments,
+};
@@ -0,0 +1,126 @@
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+const db = require('../database.js');
+
+// Like db.sqlite, this is resolved relative to the directory the server is started from.
+const UPLOADS_DIR = process.env.UPLOADS_DIR || 'uploads';
+
+// What /analyze accepts as attachments, and what can be uploaded to an analysis afterwards.
+// HEIC is passed through as-is because most browsers can't decode it to downscale it first.
+const ALLOWED_MIME_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif'];
+const MAX_ATTACHMENTS = 10;
+
+/**
+ * Checks an attachments list from a request body.
+ * @returns {string|null} An error message, or null when the list is valid.
+ */
+const validateAttachments = (attachments) => {
+    if (!Array.isArray(attachments)) return "Attachments must be a list.";
+    if (attachments.length > MAX_ATTACHMENTS) return `At most ${MAX_ATTACHMENTS} files can be analyzed at once.`;
+    for (const attachment of attachments) {
+        if (!attachment || typeof attachment.data !== 'string' || !attachment.data) {
+            return "Each attachment needs base64 data.";
+        }
+        if (!ALLOWED_MIME_TYPES.includes(attachment.mimeType)) {
+            return `Unsupported file type: ${attachment.mimeType || 'unknown'}. Upload a PDF or a JPEG, PNG or HEIC photo.`;
+        }
+    }
+    return null;
+};
+
+const MAX_FILE_NAME_LENGTH = 200;
+
+// The name an upload is stored under: no directories or control characters, and never empty.
+// Non-ASCII letters are kept; contentDisposition takes care of sending them.
+const cleanFileName = (name) => {
+    const base = String(name || '').split(/[\\/]/).pop().replace(/[\u0000-\u001f\u007f]/g, '').trim();
+    return base.slice(0, MAX_FILE_NAME_LENGTH) || 'report';
+};
+
+/**
+ * A Content-Disposition header for a stored file. HTTP headers only carry ASCII, so the plain
+ * filename is an ASCII stand-in and the real name goes in filename* (RFC 6266), which browsers prefer.
+ */
+const contentDisposition = (fileName, type = 'inline') => {
+    const name = cleanFileName(fileName);
+    const fallback = name.replace(/[^\x20-\x7e]|["\\%]/g, '_');
+    const encoded = encodeURIComponent(name).replace(/['()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+    return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+};
+
+const sha256 = (buffer) => crypto.createHash('sha256').update(buffer).digest('hex');
+
+/**
+ * Writes an uploaded report to disk and records it in report_files, linked to its analysis.
+ * Files are stored per user and named by checksum, so uploading the same file twice reuses it.
+ * @param {{ userId: number, analysisId: number, fileData: { data: string|Buffer, mimeType: string, name?: string, documentNumber?: number } }} options
+ *   `data` is base64 for JSON attachments or the raw bytes of a binary upload.
+ * @param {Function} callback Called with (err, { id, checksum, size }).
+ */
+const saveReportFile = ({ userId, analysisId, fileData }, callback) => {
+    const buffer = Buffer.isBuffer(fileData.data) ? fileData.data : Buffer.from(fileData.data, 'base64');
+    const checksum = sha256(buffer);
+    const relativePath = path.join(String(userId), checksum);
+    const fullPath = path.join(UPLOADS_DIR, relativePath);
+
+    fs.mkdir(path.dirname(fullPath), { recursive: true }, (err) => {
+        if (err) return callback(err);
+        fs.writeFile(fullPath, buffer, (err) => {
+            if (err) return callback(err);
+            const sql = `INSERT INTO report_files (user_id, analysis_id, document_number, file_name, mime_type, size_bytes, checksum, storage_path) VALUES (?,?,?,?,?,?,?,?)`;
+            const params = [userId, analysisId, fileData.documentNumber || 1, cleanFileName(fileData.name), fileData.mimeType, buffer.length, checksum, relativePath];
+            db.run(sql, params, function(err) {
+                if (err) return callback(err);
+                callback(null, { id: this.lastID, checksum, size: buffer.length });
+            });
+        });
+    });
+};
+
+/**
+ * Saves several attachments for one analysis, one after another so they keep their upload order.
+ */
+const saveReportFiles = ({ userId, analysisId, attachments }, callback) => {
+    const saved = [];
+    const next = (index) => {
+        if (index >= attachments.length) return callback(null, saved);
+        saveReportFile({ userId, analysisId, fileData: attachments[index] }, (err, file) => {
+            if (err) return callback(err);
+            saved.push(file);
+            next(index + 1);
+        });
+    };
+    next(0);
+};
+
+const listReportFiles = (userId, analysisId, callback) => {
+    const sql = `SELECT id, document_number, file_name, mime_type, size_bytes, checksum, created_at FROM report_files WHERE user_id = ? AND analysis_id = ? ORDER BY id ASC`;
+    db.all(sql, [userId, analysisId], callback);
+};
+
+/**
+ * Loads an original file for one of the user's analyses: the one with `fileId`, or the first one
+ * when `fileId` is omitted. The contents are checked against the checksum recorded at upload time,
+ * so a download always matches what was analyzed.
+ * @param {Function} callback Called with (err, file) where file is null when no stored file matched.
+ */
+const readReportFile = (userId, analysisId, fileId, callback) => {
+    const sql = fileId
+        ? `SELECT * FROM report_files WHERE user_id = ? AND analysis_id = ? AND id = ?`
+        : `SELECT * FROM report_files WHERE user_id = ? AND analysis_id = ? ORDER BY id ASC LIMIT 1`;
+    const params = fileId ? [userId, analysisId, fileId] : [userId, analysisId];
+    db.get(sql, params, (err, row) => {
+        if (err) return callback(err);
+        if (!row) return callback(null, null);
+        fs.readFile(path.join(UPLOADS_DIR, row.storage_path), (err, buffer) => {
+            if (err) return callback(err);
+            if (sha256(buffer) !== row.checksum) {
+                return callback(new Error(`Checksum mismatch for report file ${row.id}.`));
+            }
+            callback(null, { ...row, buffer });
+        });
+    });
+};
+
+module.exports = { ALLOWED_MIME_TYPES, validateAttachments, saveReportFile, saveReportFiles, listReportFiles, readReportFile, contentDisposition };
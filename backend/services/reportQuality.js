@@ -0,0 +1,79 @@
+// Turns the provider's per-document quality assessment into a decision about whether to analyze.
+// A bundle is rejected when any document is not a medical report or can't be read at all, and is
+// analyzed with low confidence when some of it is only partly legible or in an unsupported language.
+
+const LEGIBILITY_LEVELS = ['clear', 'partial', 'unreadable'];
+
+// Reports in other languages are still analyzed, but flagged as low confidence.
+const SUPPORTED_LANGUAGES = ['en'];
+
+const LANGUAGE_NAMES = { en: 'English', ne: 'Nepali', hi: 'Hindi' };
+
+const GUIDANCE = {
+    notMedical: 'Remove documents that are not medical reports. Lab results, prescriptions, discharge summaries and imaging reports can be analyzed.',
+    illegible: 'Retake photos in good light with the whole page in frame and the text in focus, or upload the PDF from the lab instead.',
+    language: 'If the lab can give you an English copy of the report, upload that for more reliable results.',
+};
+
+const normalizeAssessment = (document, index, assessment) => {
+    const assessed = ((assessment && assessment.documents) || []).find(d => d && d.number === index + 1) || {};
+    return {
+        number: index + 1,
+        title: document.title,
+        isMedicalReport: assessed.isMedicalReport !== false,
+        documentType: typeof assessed.documentType === 'string' ? assessed.documentType.trim() : '',
+        legibility: LEGIBILITY_LEVELS.includes(assessed.legibility) ? assessed.legibility : 'clear',
+        language: typeof assessed.language === 'string' && assessed.language.trim() ? assessed.language.trim().toLowerCase() : null,
+        issues: Array.isArray(assessed.issues) ? assessed.issues.filter(i => typeof i === 'string' && i.trim()) : [],
+    };
+};
+
+/**
+ * @param {Array<{ title: string }>} documents The documents sent for analysis.
+ * @param {{ documents: Array<object> }} assessment What the provider's assessReportQuality returned.
+ * @returns {{ status: 'ok'|'low_confidence'|'rejected', reasons: string[], guidance: string[], documents: Array<object> }}
+ */
+const evaluateReportQuality = (documents, assessment) => {
+    const assessed = documents.map((document, index) => normalizeAssessment(document, index, assessment));
+    const rejections = [];
+    const warnings = [];
+    const guidance = new Set();
+
+    for (const document of assessed) {
+        const name = `"${document.title}"`;
+        if (!document.isMedicalReport) {
+            const looksLike = document.documentType ? ` (it looks like ${/^[aeiou]/i.test(document.documentType) ? 'an' : 'a'} ${document.documentType.toLowerCase()})` : '';
+            rejections.push(`${name} doesn't look like a medical report${looksLike}.`);
+            guidance.add(GUIDANCE.notMedical);
+        } else if (document.legibility === 'unreadable') {
+            rejections.push(`${name} is too blurry, faint or cut off to read.`);
+            guidance.add(GUIDANCE.illegible);
+        } else {
+            if (document.legibility === 'partial') {
+                warnings.push(`Parts of ${name} are hard to read, so some values may be missed or misread.`);
+                guidance.add(GUIDANCE.illegible);
+            }
+            if (document.language && !SUPPORTED_LANGUAGES.includes(document.language)) {
+                warnings.push(`${name} appears to be in ${LANGUAGE_NAMES[document.language] || document.language}; analysis is most reliable for English reports.`);
+                guidance.add(GUIDANCE.language);
+            }
+        }
+    }
+
+    const status = rejections.length > 0 ? 'rejected' : warnings.length > 0 ? 'low_confidence' : 'ok';
+    return { status, reasons: rejections.concat(warnings), guidance: [...guidance], documents: assessed };
+};
+
+/**
+ * Parses analyses.quality. Analyses stored before quality checks existed return null.
+ */
+const parseStoredQuality = (json) => {
+    if (!json) return null;
+    try {
+        return JSON.parse(json);
+    } catch (e) {
+        return null;
+    }
+};
+
+module.exports = { evaluateReportQuality, parseStoredQuality };
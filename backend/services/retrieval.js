@@ -0,0 +1,193 @@
+const { parseStoredBiomarkers } = require('./biomarkers');
+const { formatSymptomCheckRow } = require('./symptomChecks');
+const { formatSymptomEntryRow, diaryDigest } = require('./symptomDiary');
+
+// How many records of each kind a chat message can pull into its context. The latest analysis is
+// always one of the analyses, so "what did my last report say?" works without matching words.
+// Like everywhere else, analyses the quality check flagged as low confidence are left out.
+const MAX_ANALYSES = 3;
+const MAX_SYMPTOM_CHECKS = 2;
+const MAX_DIARY_ENTRIES = 3;
+// Diary entries further back than this are not searched
+const DIARY_SEARCH_DAYS = 90;
+const MAX_BIOMARKERS_PER_ANALYSIS = 10;
+const MAX_TERMS = 12;
+
+// Words too common in health questions to say anything about which record is meant
+const STOPWORDS = new Set([
+    'about', 'after', 'again', 'also', 'and', 'any', 'are', 'because', 'been', 'before', 'but', 'can', 'could',
+    'did', 'does', 'doing', 'for', 'from', 'had', 'has', 'have', 'how', 'into', 'its', 'just', 'last', 'like',
+    'mean', 'means', 'more', 'most', 'much', 'not', 'now', 'off', 'one', 'only', 'other', 'our', 'out',
+    'over', 'said', 'say', 'says', 'should', 'since', 'some', 'still', 'tell', 'than', 'that', 'the', 'their',
+    'them', 'then', 'there', 'these', 'they', 'this', 'those', 'too', 'very', 'was', 'were', 'what', 'when',
+    'where', 'which', 'while', 'who', 'why', 'will', 'with', 'would', 'you', 'your', 'feel', 'feeling', 'get',
+    'got', 'know', 'need', 'please', 'really', 'take', 'want', 'doctor', 'health', 'report', 'result', 'results',
+]);
+
+/**
+ * The words of a chat message worth looking up in the user's records, lowercased and without duplicates.
+ */
+const retrievalTerms = (message) => {
+    const words = (String(message || '').toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+        .filter(word => word.length >= 3 && !STOPWORDS.has(word));
+    return [...new Set(words)].slice(0, MAX_TERMS);
+};
+
+// Any term may match, each as a prefix; quoting keeps FTS5 from parsing the words as operators
+const ftsAnyQuery = (terms) => terms.map(term => `"${term}"*`).join(' OR ');
+
+// How many of the terms the text mentions; words match as prefixes either way, so "headaches" finds "headache"
+const mentionsTerm = (text, terms) => {
+    const words = String(text || '').toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+    return terms.filter(term => words.some(word => word.startsWith(term) || (word.length >= 4 && term.startsWith(word)))).length;
+};
+
+// Joins the parts of an excerpt into sentences, whether or not a part already ends with a full stop
+const sentences = (parts) => parts.filter(Boolean).map(part => part.replace(/[.\s]+$/, '')).join('. ');
+
+const percent = (probability) => (typeof probability === 'number' ? ` (${Math.round(probability * 100)}%)` : '');
+
+/**
+ * An analysis as a record: its summary, predicted conditions, out-of-range results and any result
+ * the message names.
+ */
+const analysisRecord = (row, terms) => {
+    let predictions = [];
+    try {
+        predictions = JSON.parse(row.predictions || '[]');
+    } catch (e) {
+        predictions = [];
+    }
+    const biomarkers = parseStoredBiomarkers(row.biomarkers)
+        .filter(b => (b.flag && b.flag !== 'normal') || mentionsTerm(b.name, terms) > 0)
+        .slice(0, MAX_BIOMARKERS_PER_ANALYSIS)
+        .map(b => `${b.name} ${b.value} ${b.unit || ''}${b.flag ? ` (${b.flag})` : ''}`.replace(/\s+/g, ' '));
+    return {
+        kind: 'analysis',
+        id: row.id,
+        title: row.source === 'manual' ? 'Lab results entered manually' : 'Report analysis',
+        date: row.created_at,
+        excerpt: sentences([
+            `Summary: ${row.summary || 'none'}`,
+            predictions.length > 0 ? `Possible conditions: ${predictions.map(p => `${p.disease}${percent(p.probability)}`).join(', ')}` : null,
+            biomarkers.length > 0 ? `Results: ${biomarkers.join(', ')}` : null,
+        ]),
+    };
+};
+
+const symptomCheckRecord = (row) => {
+    const check = formatSymptomCheckRow(row);
+    return {
+        kind: 'symptom_check',
+        id: check.id,
+        title: 'Symptom check',
+        date: check.created_at,
+        excerpt: sentences([
+            `Symptoms: ${check.symptoms || 'none given'}`,
+            check.predictions.length > 0 ? `Likely conditions: ${check.predictions.map(p => `${p.disease}${percent(p.probability)}`).join(', ')}` : null,
+            check.triage && check.triage.urgency ? `Urgency: ${check.triage.urgency}` : null,
+            check.outcome.diagnosis ? `Later diagnosed as ${check.outcome.diagnosis}${check.outcome.resolved ? ', since resolved' : ''}` : null,
+        ]),
+    };
+};
+
+const diaryEntryRecord = (entry) => ({
+    kind: 'diary_entry',
+    id: entry.id,
+    title: 'Symptom diary',
+    date: entry.entryDate,
+    excerpt: diaryDigest([entry])[0],
+});
+
+// Numbers the records R1, R2, ... in the order they are given to the model
+const withRefs = (records) => records.map((record, index) => ({ ref: `R${index + 1}`, ...record }));
+
+/**
+ * The records the model cited as [R1], [R2], ... in its reply, in the shape the client shows them.
+ * @param {string} text The reply.
+ * @param {Array<object>} records The records from retrieveRecords.
+ * @returns {Array<{ ref: string, kind: string, id: number, title: string, date: string }>}
+ */
+const citedSources = (text, records) => {
+    const cited = new Set((String(text || '').match(/\[R\d+\]/g) || []).map(marker => marker.slice(1, -1)));
+    return records
+        .filter(record => cited.has(record.ref))
+        .map(({ ref, kind, id, title, date }) => ({ ref, kind, id, title, date }));
+};
+
+/**
+ * Picks the user's analyses, symptom checks and diary entries most relevant to a chat message: the
+ * analyses and checks search_index ranks best for the message's words, then the recent diary days
+ * that mention them, then the latest analysis if it didn't match. `matched` is false only for that
+ * last one. A failed lookup is logged and leaves that kind out.
+ * @param {object} db The sqlite3 database.
+ * @param {function(Array<{ ref: string, kind: string, id: number, title: string, date: string, excerpt: string, matched: boolean }>)} callback
+ */
+const retrieveRecords = (db, userId, message, callback) => {
+    const terms = retrievalTerms(message);
+
+    const findMatches = (done) => {
+        if (terms.length === 0) return done([]);
+        const sql = `SELECT kind, source_id FROM search_index
+            WHERE search_index MATCH ? AND user_id = ? AND kind IN ('analysis', 'symptom_check')
+            ORDER BY bm25(search_index) LIMIT 10`;
+        db.all(sql, [ftsAnyQuery(terms), userId], (err, rows) => {
+            if (err) console.error("DB error searching records:", err.message);
+            done(rows || []);
+        });
+    };
+
+    findMatches((matches) => {
+        const rankOf = (kind, id) => {
+            const index = matches.findIndex(match => match.kind === kind && match.source_id === id);
+            return index === -1 ? matches.length : index;
+        };
+        const matchedIds = (kind, max) => matches.filter(match => match.kind === kind).slice(0, max).map(match => match.source_id);
+
+        const analysisIds = matchedIds('analysis', MAX_ANALYSES - 1);
+        const analysisSql = `SELECT id, summary, predictions, biomarkers, source, created_at FROM analyses
+            WHERE user_id = ? AND low_confidence = 0 AND (id IN (${analysisIds.map(() => '?').join(',')})
+                OR id = (SELECT id FROM analyses WHERE user_id = ? AND low_confidence = 0 ORDER BY created_at DESC, id DESC LIMIT 1))`;
+        db.all(analysisSql, [userId, ...analysisIds, userId], (err, analyses) => {
+            if (err) console.error("DB error fetching analyses for chat:", err.message);
+
+            const checkIds = matchedIds('symptom_check', MAX_SYMPTOM_CHECKS);
+            const checkSql = `SELECT id, symptoms, structured_symptoms, predictions, triage, interview_id, outcome_diagnosis, outcome_resolved, outcome_updated_at, created_at
+                FROM symptom_checks WHERE user_id = ? AND id IN (${checkIds.map(() => '?').join(',')})`;
+            db.all(checkSql, [userId, ...checkIds], (err, checks) => {
+                if (err) console.error("DB error fetching symptom checks for chat:", err.message);
+
+                const diarySql = `SELECT id, entry_date, overall, symptoms, notes, created_at, updated_at FROM symptom_entries
+                    WHERE user_id = ? AND entry_date >= date('now', ?) ORDER BY entry_date DESC`;
+                db.all(diarySql, [userId, `-${DIARY_SEARCH_DAYS} days`], (err, entries) => {
+                    if (err) console.error("DB error fetching symptom diary for chat:", err.message);
+
+                    // Diary entries aren't in search_index, so they are matched here
+                    const diary = terms.length === 0 ? [] : (entries || [])
+                        .map(formatSymptomEntryRow)
+                        .map(entry => ({ entry, score: mentionsTerm(`${entry.symptoms.map(s => s.name).join(' ')} ${entry.notes}`, terms) }))
+                        .filter(({ score }) => score > 0)
+                        .sort((a, b) => b.score - a.score || b.entry.entryDate.localeCompare(a.entry.entryDate))
+                        .slice(0, MAX_DIARY_ENTRIES)
+                        .map(({ entry }) => diaryEntryRecord(entry));
+
+                    const ranked = [
+                        ...(analyses || []).map(row => ({ rank: rankOf('analysis', row.id), record: analysisRecord(row, terms) })),
+                        ...(checks || []).map(row => ({ rank: rankOf('symptom_check', row.id), record: symptomCheckRecord(row) })),
+                    ].sort((a, b) => a.rank - b.rank);
+                    const isMatch = ({ rank }) => rank < matches.length;
+                    callback(withRefs([
+                        ...ranked.filter(isMatch).map(({ record }) => ({ ...record, matched: true })),
+                        ...diary.map(record => ({ ...record, matched: true })),
+                        ...ranked.filter(item => !isMatch(item)).map(({ record }) => ({ ...record, matched: false })),
+                    ]));
+                });
+            });
+        });
+    });
+};
+
+module.exports = {
+    citedSources,
+    retrieveRecords,
+};
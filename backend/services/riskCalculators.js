@@ -0,0 +1,250 @@
+const { canonicalValue } = require('./labUnits');
+
+/**
+ * Published, deterministic clinical risk scores. Each calculator lists the inputs it needs; when any
+ * are missing it reports them instead of guessing, so a number is only shown when it is the real score.
+ */
+
+// Every input a calculator can use. `type` drives how query strings are parsed and how the client asks for it.
+const RISK_INPUTS = [
+    { key: 'age', label: 'Age', type: 'number', unit: 'years' },
+    { key: 'sex', label: 'Sex', type: 'select', options: ['male', 'female'] },
+    { key: 'heightCm', label: 'Height', type: 'number', unit: 'cm' },
+    { key: 'weightKg', label: 'Weight', type: 'number', unit: 'kg' },
+    { key: 'waistCm', label: 'Waist circumference', type: 'number', unit: 'cm' },
+    { key: 'systolicBp', label: 'Systolic blood pressure', type: 'number', unit: 'mmHg' },
+    { key: 'onBpTreatment', label: 'Taking blood pressure medication', type: 'boolean' },
+    { key: 'smoker', label: 'Current smoker', type: 'boolean' },
+    { key: 'diabetes', label: 'Diagnosed with diabetes', type: 'boolean' },
+    { key: 'totalCholesterol', label: 'Total cholesterol', type: 'number', unit: 'mg/dL' },
+    { key: 'hdlCholesterol', label: 'HDL cholesterol', type: 'number', unit: 'mg/dL' },
+    { key: 'creatinine', label: 'Serum creatinine', type: 'number', unit: 'mg/dL' },
+    { key: 'physicallyActive', label: 'At least 30 minutes of physical activity daily', type: 'boolean' },
+    { key: 'eatsVegetablesDaily', label: 'Eats vegetables, fruit or berries every day', type: 'boolean' },
+    { key: 'highGlucoseHistory', label: 'Ever found to have high blood sugar', type: 'boolean' },
+    { key: 'familyHistoryDiabetes', label: 'Family members with diabetes', type: 'select', options: ['none', 'extended', 'immediate'] },
+    { key: 'race', label: 'Race (used by the ASCVD equations)', type: 'select', options: ['african_american', 'other'], optional: true },
+];
+
+/**
+ * Reads calculator inputs from a query string, ignoring unknown keys and unparseable values.
+ * @returns {object} Input values keyed by RISK_INPUTS key.
+ */
+const parseRiskInputs = (query) => {
+    const inputs = {};
+    for (const { key, type, options } of RISK_INPUTS) {
+        const raw = query[key];
+        if (raw === undefined || raw === '') continue;
+        if (type === 'number') {
+            const n = parseFloat(raw);
+            if (Number.isFinite(n) && n > 0) inputs[key] = n;
+        } else if (type === 'boolean') {
+            if (/^(true|yes|1)$/i.test(raw)) inputs[key] = true;
+            else if (/^(false|no|0)$/i.test(raw)) inputs[key] = false;
+        } else if (options.includes(raw)) {
+            inputs[key] = raw;
+        }
+    }
+    return inputs;
+};
+
+// Inputs read from stored lab results, by the catalog name of the test they come from.
+const LAB_INPUTS = { totalCholesterol: 'Total cholesterol', hdlCholesterol: 'HDL cholesterol', creatinine: 'Serum creatinine' };
+const GLUCOSE_TESTS = ['Fasting blood glucose', 'Random blood glucose', 'Postprandial blood glucose', 'HbA1c'];
+
+/**
+ * Gathers calculator inputs for a user. Later sources win: profile values, then the most recent lab
+ * value of each test, then conditions noted on the profile, then values the user provided directly.
+ * @param {{ profile: object, biomarkerSets: Array<Array<object>>, provided: object }} sources
+ *   `biomarkerSets` holds the biomarkers of each analysis, newest first.
+ * @returns {{ inputs: object, sources: object }} `sources` says where each input came from.
+ */
+const collectRiskInputs = ({ profile, biomarkerSets, provided }) => {
+    const inputs = {};
+    const sources = {};
+    const set = (key, value, source) => {
+        inputs[key] = value;
+        sources[key] = source;
+    };
+
+    if (profile.age > 0) set('age', profile.age, 'profile');
+    if (profile.weight > 0) set('weightKg', profile.weight, 'profile');
+    if (profile.sex) set('sex', profile.sex, 'profile');
+    if (profile.height > 0) set('heightCm', profile.height, 'profile');
+
+    const latest = {};
+    let highGlucose = false;
+    for (const biomarkers of biomarkerSets) {
+        for (const marker of biomarkers) {
+            const canonical = canonicalValue(marker);
+            if (!canonical) continue;
+            const { entry, value } = canonical;
+            if (!(entry.name in latest)) latest[entry.name] = value;
+            if (GLUCOSE_TESTS.includes(entry.name) && value > entry.high) highGlucose = true;
+        }
+    }
+    Object.entries(LAB_INPUTS).forEach(([key, testName]) => {
+        if (testName in latest) set(key, latest[testName], 'report');
+    });
+    // A high result on record answers the question; a normal one doesn't rule out an earlier high reading
+    if (highGlucose) set('highGlucoseHistory', true, 'report');
+    if (/diabet/i.test(profile.medical_conditions || '')) set('diabetes', true, 'conditions');
+
+    Object.entries(provided).forEach(([key, value]) => set(key, value, 'provided'));
+    return { inputs, sources };
+};
+
+const round1 = (n) => Math.round(n * 10) / 10;
+
+// Pooled Cohort Equations coefficients (Goff et al., 2013 ACC/AHA guideline), by sex and race.
+const PCE_COEFFICIENTS = {
+    female: {
+        other: { lnAge: -29.799, lnAgeSq: 4.884, lnTc: 13.54, lnAgeLnTc: -3.114, lnHdl: -13.578, lnAgeLnHdl: 3.149, lnTreatedSbp: 2.019, lnAgeLnTreatedSbp: 0, lnUntreatedSbp: 1.957, lnAgeLnUntreatedSbp: 0, smoker: 7.574, lnAgeSmoker: -1.665, diabetes: 0.661, baselineSurvival: 0.9665, mean: -29.18 },
+        african_american: { lnAge: 17.114, lnAgeSq: 0, lnTc: 0.94, lnAgeLnTc: 0, lnHdl: -18.92, lnAgeLnHdl: 4.475, lnTreatedSbp: 29.291, lnAgeLnTreatedSbp: -6.432, lnUntreatedSbp: 27.82, lnAgeLnUntreatedSbp: -6.087, smoker: 0.691, lnAgeSmoker: 0, diabetes: 0.874, baselineSurvival: 0.9533, mean: 86.61 },
+    },
+    male: {
+        other: { lnAge: 12.344, lnAgeSq: 0, lnTc: 11.853, lnAgeLnTc: -2.664, lnHdl: -7.99, lnAgeLnHdl: 1.769, lnTreatedSbp: 1.797, lnAgeLnTreatedSbp: 0, lnUntreatedSbp: 1.764, lnAgeLnUntreatedSbp: 0, smoker: 7.837, lnAgeSmoker: -1.795, diabetes: 0.658, baselineSurvival: 0.9144, mean: 61.18 },
+        african_american: { lnAge: 2.469, lnAgeSq: 0, lnTc: 0.302, lnAgeLnTc: 0, lnHdl: -0.307, lnAgeLnHdl: 0, lnTreatedSbp: 1.916, lnAgeLnTreatedSbp: 0, lnUntreatedSbp: 1.809, lnAgeLnUntreatedSbp: 0, smoker: 0.549, lnAgeSmoker: 0, diabetes: 0.645, baselineSurvival: 0.8954, mean: 19.54 },
+    },
+};
+
+// Ranges the equations were validated on; outside them the result is not reported.
+const outsideRange = (checks) => {
+    const failed = checks.find(([value, min, max]) => value < min || value > max);
+    return failed ? failed[3] : null;
+};
+
+const CALCULATORS = [
+    {
+        id: 'ascvd',
+        name: 'ASCVD 10-year risk',
+        description: 'Chance of a first heart attack or stroke in the next 10 years (Pooled Cohort Equations).',
+        reference: 'Goff DC Jr, et al. 2013 ACC/AHA Guideline on the Assessment of Cardiovascular Risk.',
+        requires: ['age', 'sex', 'totalCholesterol', 'hdlCholesterol', 'systolicBp', 'onBpTreatment', 'smoker', 'diabetes'],
+        calculate: (i) => {
+            const rangeError = outsideRange([
+                [i.age, 40, 79, 'Only valid for ages 40 to 79.'],
+                [i.totalCholesterol, 130, 320, 'Only valid for total cholesterol between 130 and 320 mg/dL.'],
+                [i.hdlCholesterol, 20, 100, 'Only valid for HDL cholesterol between 20 and 100 mg/dL.'],
+                [i.systolicBp, 90, 200, 'Only valid for systolic blood pressure between 90 and 200 mmHg.'],
+            ]);
+            if (rangeError) return { status: 'out_of_range', interpretation: rangeError };
+
+            const c = PCE_COEFFICIENTS[i.sex][i.race === 'african_american' ? 'african_american' : 'other'];
+            const lnAge = Math.log(i.age);
+            const lnTc = Math.log(i.totalCholesterol);
+            const lnHdl = Math.log(i.hdlCholesterol);
+            const lnSbp = Math.log(i.systolicBp);
+            const sum = c.lnAge * lnAge + c.lnAgeSq * lnAge * lnAge
+                + c.lnTc * lnTc + c.lnAgeLnTc * lnAge * lnTc
+                + c.lnHdl * lnHdl + c.lnAgeLnHdl * lnAge * lnHdl
+                + (i.onBpTreatment
+                    ? c.lnTreatedSbp * lnSbp + c.lnAgeLnTreatedSbp * lnAge * lnSbp
+                    : c.lnUntreatedSbp * lnSbp + c.lnAgeLnUntreatedSbp * lnAge * lnSbp)
+                + (i.smoker ? c.smoker + c.lnAgeSmoker * lnAge : 0)
+                + (i.diabetes ? c.diabetes : 0);
+            const risk = (1 - Math.pow(c.baselineSurvival, Math.exp(sum - c.mean))) * 100;
+            const category = risk < 5 ? 'Low' : risk < 7.5 ? 'Borderline' : risk < 20 ? 'Intermediate' : 'High';
+            return {
+                value: round1(risk),
+                unit: '%',
+                category,
+                interpretation: `${category} risk. Guidelines consider statin therapy from 7.5% upwards; discuss the result with your doctor.`,
+            };
+        },
+    },
+    {
+        id: 'findrisc',
+        name: 'FINDRISC',
+        description: 'Finnish Diabetes Risk Score: chance of developing type 2 diabetes within 10 years.',
+        reference: 'Lindström J, Tuomilehto J. The Diabetes Risk Score. Diabetes Care 2003;26:725-731.',
+        requires: ['age', 'sex', 'heightCm', 'weightKg', 'waistCm', 'physicallyActive', 'eatsVegetablesDaily', 'onBpTreatment', 'highGlucoseHistory', 'familyHistoryDiabetes'],
+        applies: (i) => i.diabetes !== true || 'Not used for people already diagnosed with diabetes.',
+        calculate: (i) => {
+            const bmi = i.weightKg / Math.pow(i.heightCm / 100, 2);
+            const [waistMid, waistHigh] = i.sex === 'male' ? [94, 102] : [80, 88];
+            const points = (i.age < 45 ? 0 : i.age < 55 ? 2 : i.age < 65 ? 3 : 4)
+                + (bmi < 25 ? 0 : bmi <= 30 ? 1 : 3)
+                + (i.waistCm < waistMid ? 0 : i.waistCm <= waistHigh ? 3 : 4)
+                + (i.physicallyActive ? 0 : 2)
+                + (i.eatsVegetablesDaily ? 0 : 1)
+                + (i.onBpTreatment ? 2 : 0)
+                + (i.highGlucoseHistory ? 5 : 0)
+                + ({ none: 0, extended: 3, immediate: 5 })[i.familyHistoryDiabetes];
+            const [category, odds] = points < 7 ? ['Low', '1 in 100']
+                : points < 12 ? ['Slightly elevated', '1 in 25']
+                : points < 15 ? ['Moderate', '1 in 6']
+                : points < 21 ? ['High', '1 in 3'] : ['Very high', '1 in 2'];
+            return {
+                value: points,
+                unit: 'points',
+                category,
+                interpretation: `${category} risk: about ${odds} people with this score develop type 2 diabetes within 10 years.`,
+            };
+        },
+    },
+    {
+        id: 'egfr',
+        name: 'eGFR (CKD-EPI 2021)',
+        description: 'Estimated kidney filtering rate from serum creatinine, age and sex.',
+        reference: 'Inker LA, et al. New Creatinine- and Cystatin C-Based Equations to Estimate GFR without Race. N Engl J Med 2021;385:1737-1749.',
+        requires: ['creatinine', 'age', 'sex'],
+        calculate: (i) => {
+            if (i.age < 18) return { status: 'out_of_range', interpretation: 'Only valid for adults.' };
+            const female = i.sex === 'female';
+            const kappa = female ? 0.7 : 0.9;
+            const alpha = female ? -0.241 : -0.302;
+            const ratio = i.creatinine / kappa;
+            const egfr = 142 * Math.pow(Math.min(ratio, 1), alpha) * Math.pow(Math.max(ratio, 1), -1.2)
+                * Math.pow(0.9938, i.age) * (female ? 1.012 : 1);
+            const [category, meaning] = egfr >= 90 ? ['G1', 'normal or high']
+                : egfr >= 60 ? ['G2', 'mildly decreased']
+                : egfr >= 45 ? ['G3a', 'mildly to moderately decreased']
+                : egfr >= 30 ? ['G3b', 'moderately to severely decreased']
+                : egfr >= 15 ? ['G4', 'severely decreased'] : ['G5', 'kidney failure range'];
+            return {
+                value: Math.round(egfr),
+                unit: 'mL/min/1.73m²',
+                category,
+                interpretation: `Stage ${category}: kidney function is ${meaning}.${egfr < 60 ? ' Values below 60 for 3 months or more indicate chronic kidney disease.' : ''}`,
+            };
+        },
+    },
+    {
+        id: 'bmi',
+        name: 'Body mass index',
+        description: 'Weight relative to height, using the WHO adult categories.',
+        reference: 'World Health Organization. Obesity: preventing and managing the global epidemic. WHO Technical Report Series 894, 2000.',
+        requires: ['heightCm', 'weightKg'],
+        calculate: (i) => {
+            const bmi = i.weightKg / Math.pow(i.heightCm / 100, 2);
+            const category = bmi < 18.5 ? 'Underweight' : bmi < 25 ? 'Normal weight' : bmi < 30 ? 'Overweight' : bmi < 35 ? 'Obesity class I' : bmi < 40 ? 'Obesity class II' : 'Obesity class III';
+            return {
+                value: round1(bmi),
+                unit: 'kg/m²',
+                category,
+                interpretation: `${category}. For South Asian adults, risk already rises from a BMI of 23.`,
+            };
+        },
+    },
+];
+
+/**
+ * Runs every calculator on the given inputs.
+ * @param {object} inputs Values keyed by RISK_INPUTS key.
+ * @returns {Array<{ id, name, description, reference, status: 'ok'|'missing_inputs'|'not_applicable'|'out_of_range', value, unit, category, interpretation, missingInputs: string[] }>}
+ */
+const calculateRiskScores = (inputs) => CALCULATORS.map(({ id, name, description, reference, requires, applies, calculate }) => {
+    const base = { id, name, description, reference, value: null, unit: null, category: null, interpretation: null, missingInputs: [] };
+    const missingInputs = requires.filter(key => inputs[key] === undefined || inputs[key] === null);
+    if (missingInputs.length > 0) {
+        return { ...base, status: 'missing_inputs', missingInputs };
+    }
+    const applicable = applies ? applies(inputs) : true;
+    if (applicable !== true) {
+        return { ...base, status: 'not_applicable', interpretation: applicable };
+    }
+    return { ...base, status: 'ok', ...calculate(inputs) };
+});
+
+module.exports = { RISK_INPUTS, parseRiskInputs, collectRiskInputs, calculateRiskScores };
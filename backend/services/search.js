@@ -0,0 +1,150 @@
+const { DEFAULT_TITLE } = require('./conversations');
+
+const SEARCH_KINDS = ['chat', 'analysis', 'symptom_check'];
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 50;
+const MAX_QUERY_TERMS = 10;
+
+// snippet() wraps matches in these; formatSearchRow splits on them so no markup is sent to the client
+const MATCH_START = '\u0001';
+const MATCH_END = '\u0002';
+
+// The text each record contributes to search_index, as SQL over the source table's columns. Shared by
+// the triggers and the startup indexing, so both index a record the same way.
+const INDEXED_TEXT = {
+    chat: "message",
+    analysis: "COALESCE(summary, '') || ' ' || COALESCE((SELECT group_concat(json_extract(value, '$.disease'), ', ') FROM json_each(CASE WHEN json_valid(predictions) THEN predictions ELSE '[]' END)), '') || ' ' || COALESCE((SELECT group_concat(value, ' ') FROM json_each(CASE WHEN json_valid(recommendations) THEN recommendations ELSE '[]' END)), '')",
+    symptom_check: "COALESCE(symptoms, '') || ' ' || COALESCE((SELECT group_concat(json_extract(value, '$.disease'), ', ') FROM json_each(CASE WHEN json_valid(predictions) THEN predictions ELSE '[]' END)), '') || ' ' || COALESCE(outcome_diagnosis, '')",
+};
+
+const SOURCE_TABLES = {
+    chat: { table: 'chats', columns: 'message' },
+    analysis: { table: 'analyses', columns: 'summary, predictions, recommendations' },
+    symptom_check: { table: 'symptom_checks', columns: 'symptoms, predictions, outcome_diagnosis' },
+};
+
+// Copies a record into search_index; `where` picks the record(s) from the source table
+const indexRecordsSql = (kind, where = '') => {
+    const { table } = SOURCE_TABLES[kind];
+    return `INSERT INTO search_index (body, kind, source_id, user_id, created_at)
+        SELECT ${INDEXED_TEXT[kind]}, '${kind}', id, user_id, created_at FROM ${table} ${where}`;
+};
+
+/**
+ * search_index and the triggers that keep it in step with its source tables: a record is indexed
+ * when it is inserted, re-indexed when its searchable columns change and dropped when it is deleted.
+ */
+const SEARCH_INDEX_SCHEMA = [
+    `CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+        body,
+        kind UNINDEXED,
+        source_id UNINDEXED,
+        user_id UNINDEXED,
+        created_at UNINDEXED,
+        tokenize = 'porter unicode61'
+    )`,
+    ...Object.entries(SOURCE_TABLES).flatMap(([kind, { table, columns }]) => {
+        const unindex = `DELETE FROM search_index WHERE kind = '${kind}' AND source_id = old.id`;
+        const index = indexRecordsSql(kind, 'WHERE id = new.id');
+        return [
+            `CREATE TRIGGER IF NOT EXISTS ${table}_search_insert AFTER INSERT ON ${table} BEGIN ${index}; END`,
+            `CREATE TRIGGER IF NOT EXISTS ${table}_search_update AFTER UPDATE OF ${columns} ON ${table} BEGIN ${unindex}; ${index}; END`,
+            `CREATE TRIGGER IF NOT EXISTS ${table}_search_delete AFTER DELETE ON ${table} BEGIN ${unindex}; END`,
+        ];
+    }),
+].join(';\n');
+
+/**
+ * Turns what the user typed into an FTS5 query. Every word must match, the last one as a prefix so
+ * results appear while typing; quoting each word keeps FTS5 operators and punctuation from being parsed.
+ * @returns {string|null} The MATCH expression, or null when the text has no searchable words.
+ */
+const ftsQueryFromText = (text) => {
+    const terms = (String(text || '').match(/[\p{L}\p{N}]+/gu) || []).slice(0, MAX_QUERY_TERMS);
+    if (terms.length === 0) return null;
+    return terms.map((term, index) => `"${term}"${index === terms.length - 1 ? '*' : ''}`).join(' ');
+};
+
+/**
+ * Reads GET /search's query parameters.
+ * @returns {{ text: string, match: string|null, kind: string|null, limit: number }}
+ */
+const searchQueryFromRequest = ({ q, type, limit } = {}) => {
+    const text = typeof q === 'string' ? q.trim() : '';
+    const parsedLimit = parseInt(limit, 10);
+    return {
+        text,
+        match: ftsQueryFromText(text),
+        kind: type || null,
+        limit: Number.isInteger(parsedLimit) && parsedLimit > 0 ? Math.min(parsedLimit, MAX_SEARCH_LIMIT) : DEFAULT_SEARCH_LIMIT,
+    };
+};
+
+/**
+ * @returns {string|null} An error message, or null when the search can be run.
+ */
+const validateSearchQuery = ({ text, match, kind }) => {
+    if (!text) return "Type something to search for.";
+    if (text.length > 200) return "Keep searches under 200 characters.";
+    if (!match) return "Search for words or numbers.";
+    if (kind !== null && !SEARCH_KINDS.includes(kind)) return `The type must be one of: ${SEARCH_KINDS.join(', ')}.`;
+    return null;
+};
+
+// The snippet as alternating plain and matched parts, e.g. [{ text: 'low ', match: false }, { text: 'thyroid', match: true }]
+const snippetParts = (snippet) => String(snippet || '')
+    .split(MATCH_START)
+    .flatMap((chunk, index) => {
+        if (index === 0) return [{ text: chunk, match: false }];
+        const [matched, ...rest] = chunk.split(MATCH_END);
+        return [{ text: matched, match: true }, { text: rest.join(''), match: false }];
+    })
+    .filter(part => part.text);
+
+const resultTitle = (row) => {
+    if (row.kind === 'chat') return row.conversation_title || DEFAULT_TITLE;
+    if (row.kind === 'analysis') return row.analysis_source === 'manual' ? 'Lab results entered manually' : 'Report analysis';
+    return 'Symptom check';
+};
+
+const formatSearchRow = (row) => ({
+    kind: row.kind,
+    id: row.source_id,
+    // Where a chat result lives; null for other kinds
+    conversationId: row.kind === 'chat' ? row.conversation_id : null,
+    role: row.kind === 'chat' ? row.chat_role : null,
+    title: resultTitle(row),
+    snippet: snippetParts(row.snippet),
+    created_at: row.created_at,
+});
+
+/**
+ * Fills search_index from the existing chats, analyses and symptom checks when it is empty, which
+ * is only the case the first time the server starts with it; the triggers keep it in sync after that.
+ * @param {object} db The sqlite3 database.
+ */
+const indexExistingRecords = (db) => {
+    db.get("SELECT COUNT(*) AS count FROM search_index", [], (err, row) => {
+        if (err) {
+            return console.error("Search indexing failed:", err.message);
+        }
+        if (row.count > 0) return;
+
+        const statements = Object.keys(SOURCE_TABLES).map(kind => indexRecordsSql(kind)).join(';\n');
+        db.exec(statements, (err) => {
+            if (err) {
+                console.error("Search indexing failed:", err.message);
+            }
+        });
+    });
+};
+
+module.exports = {
+    SEARCH_KINDS,
+    SEARCH_INDEX_SCHEMA,
+    ftsQueryFromText,
+    searchQueryFromRequest,
+    validateSearchQuery,
+    formatSearchRow,
+    indexExistingRecords,
+};
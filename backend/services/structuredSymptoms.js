@@ -0,0 +1,121 @@
+/**
+ * Symptoms picked on the body map, each with where it is, how bad it is and how it behaves. Unlike
+ * free text they can be compared between checks and read by other features.
+ */
+
+// Regions of the body map. `symptoms` are suggested in the picker when the region is selected.
+const BODY_REGIONS = [
+    { id: 'head', label: 'Head', symptoms: ['Headache', 'Dizziness', 'Blurred vision', 'Ear pain'] },
+    { id: 'face', label: 'Face and mouth', symptoms: ['Sinus pain', 'Toothache', 'Facial swelling', 'Mouth ulcers'] },
+    { id: 'neck', label: 'Neck and throat', symptoms: ['Sore throat', 'Stiff neck', 'Swollen glands', 'Difficulty swallowing'] },
+    { id: 'chest', label: 'Chest', symptoms: ['Chest pain', 'Cough', 'Shortness of breath', 'Palpitations'] },
+    { id: 'upper_abdomen', label: 'Upper abdomen', symptoms: ['Stomach pain', 'Heartburn', 'Nausea', 'Bloating'] },
+    { id: 'lower_abdomen', label: 'Lower abdomen', symptoms: ['Abdominal cramps', 'Diarrhea', 'Constipation', 'Pain when urinating'] },
+    { id: 'back', label: 'Back', symptoms: ['Lower back pain', 'Upper back pain', 'Flank pain'] },
+    { id: 'left_arm', label: 'Left arm and hand', symptoms: ['Arm pain', 'Numbness', 'Joint pain', 'Swelling'] },
+    { id: 'right_arm', label: 'Right arm and hand', symptoms: ['Arm pain', 'Numbness', 'Joint pain', 'Swelling'] },
+    { id: 'left_leg', label: 'Left leg and foot', symptoms: ['Leg pain', 'Knee pain', 'Swelling', 'Numbness'] },
+    { id: 'right_leg', label: 'Right leg and foot', symptoms: ['Leg pain', 'Knee pain', 'Swelling', 'Numbness'] },
+    { id: 'whole_body', label: 'Whole body', symptoms: ['Fever', 'Fatigue', 'Chills', 'Rash', 'Body ache', 'Weight loss'] },
+];
+
+const SYMPTOM_DURATIONS = [
+    { value: 'under_1_day', label: 'Less than a day' },
+    { value: '1_3_days', label: '1 to 3 days' },
+    { value: '4_7_days', label: '4 to 7 days' },
+    { value: '1_4_weeks', label: '1 to 4 weeks' },
+    { value: 'over_1_month', label: 'More than a month' },
+];
+
+const SYMPTOM_PATTERNS = [
+    { value: 'constant', label: 'Constant' },
+    { value: 'comes_and_goes', label: 'Comes and goes' },
+    { value: 'worsening', label: 'Getting worse' },
+    { value: 'improving', label: 'Getting better' },
+];
+
+const MAX_SYMPTOMS = 20;
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+const labelOf = (options, value) => (options.find(o => (o.value || o.id) === value) || {}).label;
+
+// Everything the picker needs to offer, served so the client doesn't keep its own copy
+const symptomOptions = () => ({
+    regions: BODY_REGIONS,
+    durations: SYMPTOM_DURATIONS,
+    patterns: SYMPTOM_PATTERNS,
+});
+
+/**
+ * Reads structured symptoms from a request body field.
+ * @returns {Array<{ name: string, location: string, severity: number, onsetDate: string|null, duration: string|null, pattern: string|null }>}
+ */
+const structuredSymptomsFromRequest = (value) => (Array.isArray(value) ? value.map(symptom => ({
+    name: symptom && typeof symptom.name === 'string' ? symptom.name.trim() : '',
+    location: symptom ? symptom.location : null,
+    severity: symptom ? Number(symptom.severity) : NaN,
+    onsetDate: symptom && typeof symptom.onsetDate === 'string' && symptom.onsetDate ? symptom.onsetDate : null,
+    duration: symptom && symptom.duration ? symptom.duration : null,
+    pattern: symptom && symptom.pattern ? symptom.pattern : null,
+})) : []);
+
+/**
+ * @returns {string|null} An error message, or null when the symptoms can be used.
+ */
+const validateStructuredSymptoms = (symptoms) => {
+    if (symptoms.length > MAX_SYMPTOMS) return `At most ${MAX_SYMPTOMS} symptoms can be entered at once.`;
+    for (const symptom of symptoms) {
+        if (!symptom.name || symptom.name.length > 100) return "Every symptom needs a name of at most 100 characters.";
+        if (!BODY_REGIONS.some(region => region.id === symptom.location)) return `"${symptom.name}" needs a body location.`;
+        if (!Number.isInteger(symptom.severity) || symptom.severity < 0 || symptom.severity > 10) {
+            return `The severity of "${symptom.name}" must be a whole number from 0 to 10.`;
+        }
+        if (symptom.onsetDate !== null) {
+            const date = new Date(`${symptom.onsetDate}T00:00:00Z`);
+            if (!/^\d{4}-\d{2}-\d{2}$/.test(symptom.onsetDate) || Number.isNaN(date.getTime())) return "Onset dates must be given as YYYY-MM-DD.";
+            // A day of slack, since "today" in time zones ahead of UTC is still tomorrow in UTC
+            if (date.getTime() > Date.now() + ONE_DAY_MS) return `The onset date of "${symptom.name}" can't be in the future.`;
+        }
+        if (symptom.duration !== null && !labelOf(SYMPTOM_DURATIONS, symptom.duration)) return `Unknown duration for "${symptom.name}".`;
+        if (symptom.pattern !== null && !labelOf(SYMPTOM_PATTERNS, symptom.pattern)) return `Unknown pattern for "${symptom.name}".`;
+    }
+    return null;
+};
+
+/**
+ * The symptoms as readable lines, e.g. "Headache (Head), severity 6/10, since 2026-10-01, 1 to 4 weeks, comes and goes".
+ */
+const formatStructuredSymptoms = (symptoms) => symptoms.map(symptom => [
+    `${symptom.name} (${labelOf(BODY_REGIONS, symptom.location)})`,
+    `severity ${symptom.severity}/10`,
+    symptom.onsetDate ? `since ${symptom.onsetDate}` : null,
+    symptom.duration ? labelOf(SYMPTOM_DURATIONS, symptom.duration) : null,
+    symptom.pattern ? labelOf(SYMPTOM_PATTERNS, symptom.pattern).toLowerCase() : null,
+].filter(Boolean).join(', ')).join('\n');
+
+/**
+ * One description from the optional free text and the structured symptoms, for triage and for
+ * providers that only read text.
+ */
+const describeSymptoms = (text, symptoms) =>
+    [text, symptoms.length > 0 ? `Symptoms:\n${formatStructuredSymptoms(symptoms)}` : null].filter(Boolean).join('\n\n');
+
+const parseStoredStructuredSymptoms = (json) => {
+    if (!json) return [];
+    try {
+        const parsed = JSON.parse(json);
+        return Array.isArray(parsed) ? parsed : [];
+    } catch (e) {
+        return [];
+    }
+};
+
+module.exports = {
+    BODY_REGIONS,
+    symptomOptions,
+    structuredSymptomsFromRequest,
+    validateStructuredSymptoms,
+    formatStructuredSymptoms,
+    describeSymptoms,
+    parseStoredStructuredSymptoms,
+};
@@ -0,0 +1,75 @@
+const { parseStoredBiomarkers } = require('./biomarkers');
+const { parseStoredStructuredSymptoms } = require('./structuredSymptoms');
+
+// How many of the latest analyses are summarized into a symptom check's context
+const RECENT_ANALYSES = 3;
+
+const parseJson = (json, fallback) => {
+    if (!json) return fallback;
+    try {
+        return JSON.parse(json);
+    } catch (e) {
+        return fallback;
+    }
+};
+
+/**
+ * The user context passed to predictSymptomsFromText: profile fields plus a digest of recent analyses
+ * and of the symptom diary, so a check can take known conditions, out-of-range results and how the
+ * user has been feeling into account.
+ * @param {object} user A users row (age, weight, sex, medical_conditions, symptoms, medications, allergies).
+ * @param {Array<object>} analyses The latest analyses rows, newest first (created_at, summary, predictions, biomarkers).
+ * @param {Array<string>} symptomDiary Recent diary days as prompt lines, from diaryDigest.
+ */
+const buildSymptomContext = (user, analyses = [], symptomDiary = []) => ({
+    age: user.age,
+    weight: user.weight,
+    sex: user.sex,
+    medical_conditions: user.medical_conditions,
+    symptoms: user.symptoms,
+    medications: user.medications,
+    allergies: user.allergies,
+    recentAnalyses: analyses.slice(0, RECENT_ANALYSES).map(analysis => ({
+        date: analysis.created_at,
+        summary: analysis.summary,
+        conditions: parseJson(analysis.predictions, []).map(p => p.disease),
+        abnormalResults: parseStoredBiomarkers(analysis.biomarkers)
+            .filter(b => b.flag && b.flag !== 'normal')
+            .map(b => `${b.name} ${b.value} ${b.unit} (${b.flag})`.replace(/\s+/g, ' ')),
+    })),
+    symptomDiary,
+});
+
+/**
+ * Reads the outcome a user reports for a past check from a request body.
+ * @returns {{ diagnosis: string|null, resolved: boolean }}
+ */
+const outcomeFromRequest = ({ diagnosis, resolved } = {}) => ({
+    diagnosis: typeof diagnosis === 'string' && diagnosis.trim() ? diagnosis.trim() : null,
+    resolved: resolved === true,
+});
+
+/**
+ * @returns {string|null} An error message, or null when the outcome can be stored.
+ */
+const validateOutcome = ({ diagnosis }) =>
+    (diagnosis && diagnosis.length > 200 ? "Keep the diagnosis under 200 characters." : null);
+
+// The DB stores structured symptoms, predictions, triage and the interview transcript as JSON strings
+const formatSymptomCheckRow = (row) => ({
+    id: row.id,
+    symptoms: row.symptoms,
+    structuredSymptoms: parseStoredStructuredSymptoms(row.structured_symptoms),
+    predictions: parseJson(row.predictions, []),
+    triage: parseJson(row.triage, null),
+    interviewId: row.interview_id,
+    ...(row.transcript !== undefined ? { transcript: parseJson(row.transcript, []) } : {}),
+    outcome: {
+        diagnosis: row.outcome_diagnosis,
+        resolved: !!row.outcome_resolved,
+        updated_at: row.outcome_updated_at,
+    },
+    created_at: row.created_at,
+});
+
+module.exports = { RECENT_ANALYSES, buildSymptomContext, outcomeFromRequest, validateOutcome, formatSymptomCheckRow };
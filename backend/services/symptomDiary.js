@@ -0,0 +1,132 @@
+const { BODY_REGIONS } = require('./structuredSymptoms');
+
+// How far back the diary is summarized into chat and symptom check context
+const DIARY_CONTEXT_DAYS = 14;
+// The range GET /symptom-diary covers when none is given, enough for the calendar view
+const DEFAULT_DIARY_DAYS = 90;
+const MAX_DIARY_SYMPTOMS = 20;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isValidDate = (value) => typeof value === 'string' && DATE_PATTERN.test(value) && !Number.isNaN(new Date(`${value}T00:00:00Z`).getTime());
+
+// A date `days` before the given YYYY-MM-DD date, in the same format
+const daysBefore = (date, days) => new Date(Date.parse(`${date}T00:00:00Z`) - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+/**
+ * Reads a diary entry from a request body.
+ * @returns {{ entryDate: string, overall: number|null, symptoms: Array<{ name: string, severity: number, location: string|null }>, notes: string }}
+ */
+const entryFromRequest = ({ entryDate, overall, symptoms, notes } = {}) => ({
+    entryDate: typeof entryDate === 'string' ? entryDate.trim() : '',
+    overall: overall === undefined || overall === null || overall === '' ? null : Number(overall),
+    symptoms: Array.isArray(symptoms) ? symptoms.map(symptom => ({
+        name: symptom && typeof symptom.name === 'string' ? symptom.name.trim() : '',
+        severity: symptom ? Number(symptom.severity) : NaN,
+        location: symptom && symptom.location ? symptom.location : null,
+    })) : [],
+    notes: typeof notes === 'string' ? notes.trim() : '',
+});
+
+/**
+ * @returns {string|null} An error message, or null when the entry can be stored.
+ */
+const validateEntry = (entry) => {
+    if (!isValidDate(entry.entryDate)) return "The diary date must be given as YYYY-MM-DD.";
+    // A day of slack, since "today" in time zones ahead of UTC is still tomorrow in UTC
+    if (Date.parse(`${entry.entryDate}T00:00:00Z`) > Date.now() + 24 * 60 * 60 * 1000) return "Diary entries can't be made for future days.";
+    if (entry.overall !== null && (!Number.isInteger(entry.overall) || entry.overall < 1 || entry.overall > 5)) {
+        return "How you feel overall must be rated from 1 to 5.";
+    }
+    if (entry.symptoms.length > MAX_DIARY_SYMPTOMS) return `At most ${MAX_DIARY_SYMPTOMS} symptoms can be logged per day.`;
+    for (const symptom of entry.symptoms) {
+        if (!symptom.name || symptom.name.length > 100) return "Every symptom needs a name of at most 100 characters.";
+        if (!Number.isInteger(symptom.severity) || symptom.severity < 0 || symptom.severity > 10) {
+            return `The severity of "${symptom.name}" must be a whole number from 0 to 10.`;
+        }
+        if (symptom.location !== null && !BODY_REGIONS.some(region => region.id === symptom.location)) return `Unknown body location for "${symptom.name}".`;
+    }
+    if (entry.overall === null && entry.symptoms.length === 0 && !entry.notes) return "Rate how you feel, add a symptom or write a note.";
+    if (entry.notes.length > 2000) return "Keep diary notes under 2000 characters.";
+    return null;
+};
+
+/**
+ * Reads the optional `from`/`to` query parameters, defaulting to the last DEFAULT_DIARY_DAYS days.
+ * @returns {{ from: string, to: string, error: string|null }}
+ */
+const diaryRangeFromQuery = ({ from, to } = {}) => {
+    const end = to || new Date().toISOString().slice(0, 10);
+    const start = from || daysBefore(end, DEFAULT_DIARY_DAYS - 1);
+    if (!isValidDate(start) || !isValidDate(end)) return { from: start, to: end, error: "Dates must be given as YYYY-MM-DD." };
+    if (start > end) return { from: start, to: end, error: "The start date must not be after the end date." };
+    return { from: start, to: end, error: null };
+};
+
+// The DB stores the day's symptoms as a JSON string
+const formatSymptomEntryRow = (row) => {
+    let symptoms = [];
+    try {
+        symptoms = JSON.parse(row.symptoms || '[]');
+    } catch (e) {
+        symptoms = [];
+    }
+    return {
+        id: row.id,
+        entryDate: row.entry_date,
+        overall: row.overall,
+        symptoms,
+        notes: row.notes || '',
+        created_at: row.created_at,
+        updated_at: row.updated_at,
+    };
+};
+
+/**
+ * Per-symptom severity over time, for the diary charts. Symptoms are matched by name, ignoring case,
+ * and listed most frequently logged first.
+ * @param {Array<object>} entries Formatted entries, oldest first.
+ * @returns {Array<{ name: string, days: number, averageSeverity: number, points: Array<{ date: string, severity: number }> }>}
+ */
+const symptomTrends = (entries) => {
+    const byName = new Map();
+    entries.forEach(entry => entry.symptoms.forEach(symptom => {
+        const key = symptom.name.toLowerCase();
+        if (!byName.has(key)) byName.set(key, { name: symptom.name, points: [] });
+        const trend = byName.get(key);
+        // The same symptom logged twice on a day (e.g. in two places) counts at its worst
+        const existing = trend.points.find(point => point.date === entry.entryDate);
+        if (existing) existing.severity = Math.max(existing.severity, symptom.severity);
+        else trend.points.push({ date: entry.entryDate, severity: symptom.severity });
+    }));
+    return [...byName.values()]
+        .map(trend => ({
+            ...trend,
+            days: trend.points.length,
+            averageSeverity: Math.round((trend.points.reduce((sum, p) => sum + p.severity, 0) / trend.points.length) * 10) / 10,
+        }))
+        .sort((a, b) => b.days - a.days || a.name.localeCompare(b.name));
+};
+
+/**
+ * The diary as short lines for a model prompt, newest day first,
+ * e.g. "2026-10-18: feeling 2/5; Headache 6/10, Fatigue 4/10; notes: slept badly".
+ */
+const diaryDigest = (entries) => entries.map(entry => [
+    `${entry.entryDate}:`,
+    [
+        entry.overall !== null ? `feeling ${entry.overall}/5` : null,
+        entry.symptoms.length > 0 ? entry.symptoms.map(s => `${s.name} ${s.severity}/10`).join(', ') : 'no symptoms',
+        entry.notes ? `notes: ${entry.notes.slice(0, 200)}` : null,
+    ].filter(Boolean).join('; '),
+].join(' '));
+
+module.exports = {
+    DIARY_CONTEXT_DAYS,
+    entryFromRequest,
+    validateEntry,
+    diaryRangeFromQuery,
+    formatSymptomEntryRow,
+    symptomTrends,
+    diaryDigest,
+};
@@ -0,0 +1,299 @@
+/**
+ * Guided symptom interview. Starting from the user's own description, it asks the follow-up
+ * questions a triage nurse would (onset, duration, severity, associated symptoms, red flags) one at
+ * a time, choosing the associated symptoms and red flags to ask about from the body systems the
+ * complaint involves. Once every question is answered the transcript is summarized for prediction.
+ */
+
+const NONE = 'none';
+
+/**
+ * Body systems a complaint can involve, detected from keywords in the initial description.
+ * `associated` and `redFlags` are offered as answer options; each red flag carries the urgency
+ * and reason it adds to the interview's triage when the user reports it.
+ */
+const SYMPTOM_SYSTEMS = [
+    {
+        id: 'respiratory',
+        keywords: ['cough', 'breath', 'wheez', 'sore throat', 'chest congestion', 'phlegm', 'sputum', 'runny nose', 'khoki'],
+        associated: [
+            { value: 'runny_nose', label: 'Runny or blocked nose' },
+            { value: 'sore_throat', label: 'Sore throat' },
+            { value: 'phlegm', label: 'Coughing up phlegm' },
+            { value: 'wheezing', label: 'Wheezing' },
+        ],
+        redFlags: [
+            { value: 'breathless_at_rest', label: 'Short of breath while resting', urgency: 'emergency', reason: 'Breathlessness at rest needs emergency care.' },
+            { value: 'coughing_blood', label: 'Coughing up blood', urgency: 'emergency', reason: 'Coughing up blood needs immediate care.' },
+            { value: 'blue_lips', label: 'Blue or grey lips', urgency: 'emergency', reason: 'Blue lips mean the body is short of oxygen.' },
+        ],
+    },
+    {
+        id: 'cardiac',
+        keywords: ['chest', 'palpitation', 'heart', 'racing pulse', 'chhati'],
+        associated: [
+            { value: 'palpitations', label: 'Pounding or racing heartbeat' },
+            { value: 'ankle_swelling', label: 'Swollen ankles' },
+            { value: 'breathless_on_exertion', label: 'Short of breath on exertion' },
+        ],
+        redFlags: [
+            { value: 'pain_spreading', label: 'Pain spreading to the arm, jaw or back', urgency: 'emergency', reason: 'Chest pain spreading to the arm, jaw or back can be a heart attack.' },
+            { value: 'cold_sweat', label: 'Cold sweat with the pain', urgency: 'emergency', reason: 'Chest pain with sweating can be a heart attack.' },
+            { value: 'fainting', label: 'Fainting or nearly fainting', urgency: 'emergency', reason: 'Fainting with chest symptoms needs emergency care.' },
+        ],
+    },
+    {
+        id: 'neurological',
+        keywords: ['headache', 'head ache', 'migraine', 'dizz', 'numb', 'tingling', 'vision', 'faint', 'confus', 'tauko'],
+        associated: [
+            { value: 'light_sensitivity', label: 'Sensitivity to light' },
+            { value: 'nausea', label: 'Nausea' },
+            { value: 'blurred_vision', label: 'Blurred vision' },
+            { value: 'tingling', label: 'Tingling or pins and needles' },
+        ],
+        redFlags: [
+            { value: 'worst_headache', label: 'Worst headache of my life, came on suddenly', urgency: 'emergency', reason: 'A sudden, severe headache can be bleeding in the brain.' },
+            { value: 'one_sided_weakness', label: 'Weakness or drooping on one side', urgency: 'emergency', reason: 'One-sided weakness or drooping is a sign of a stroke.' },
+            { value: 'slurred_speech', label: 'Slurred or confused speech', urgency: 'emergency', reason: 'Slurred speech is a sign of a stroke.' },
+            { value: 'stiff_neck', label: 'Stiff neck with fever', urgency: 'emergency', reason: 'A stiff neck with fever can be meningitis.' },
+        ],
+    },
+    {
+        id: 'digestive',
+        keywords: ['stomach', 'abdomen', 'abdominal', 'belly', 'vomit', 'diarr', 'nausea', 'constipat', 'acidity', 'heartburn', 'pet dukhyo'],
+        associated: [
+            { value: 'vomiting', label: 'Vomiting' },
+            { value: 'diarrhea', label: 'Diarrhea' },
+            { value: 'loss_of_appetite', label: 'Loss of appetite' },
+            { value: 'bloating', label: 'Bloating' },
+            { value: 'heartburn', label: 'Heartburn or acidity' },
+        ],
+        redFlags: [
+            { value: 'vomiting_blood', label: 'Vomiting blood or material like coffee grounds', urgency: 'emergency', reason: 'Vomiting blood needs immediate care.' },
+            { value: 'black_stool', label: 'Black or bloody stools', urgency: 'urgent', reason: 'Black or bloody stools can mean internal bleeding.' },
+            { value: 'rigid_abdomen', label: 'Hard, very tender belly', urgency: 'emergency', reason: 'A rigid, tender abdomen can need emergency surgery.' },
+            { value: 'no_fluids', label: "Can't keep fluids down for a day", urgency: 'urgent', reason: 'Not keeping fluids down can lead to dehydration.' },
+        ],
+    },
+    {
+        id: 'urinary',
+        keywords: ['urin', 'pee', 'bladder', 'kidney', 'flank'],
+        associated: [
+            { value: 'burning_urination', label: 'Burning when urinating' },
+            { value: 'frequent_urination', label: 'Urinating more often' },
+            { value: 'cloudy_urine', label: 'Cloudy or smelly urine' },
+        ],
+        redFlags: [
+            { value: 'flank_pain_fever', label: 'Pain in the side or back with fever', urgency: 'urgent', reason: 'Side pain with fever can be a kidney infection.' },
+            { value: 'no_urine', label: 'Unable to pass urine', urgency: 'urgent', reason: 'Being unable to pass urine needs to be checked today.' },
+        ],
+    },
+    {
+        id: 'skin',
+        keywords: ['rash', 'itch', 'hives', 'swelling', 'spots', 'blister'],
+        associated: [
+            { value: 'itching', label: 'Itching' },
+            { value: 'new_medicine', label: 'Started a new medicine or food' },
+        ],
+        redFlags: [
+            { value: 'face_swelling', label: 'Swelling of the lips, tongue or face', urgency: 'emergency', reason: 'Swelling of the lips or tongue can block breathing.' },
+            { value: 'non_blanching_rash', label: "Rash that doesn't fade when pressed", urgency: 'emergency', reason: "A rash that doesn't fade under pressure can be a serious infection." },
+        ],
+    },
+    {
+        id: 'musculoskeletal',
+        keywords: ['joint', 'back pain', 'muscle', 'knee', 'shoulder', 'neck pain', 'sprain', 'injur', 'fall'],
+        associated: [
+            { value: 'joint_swelling', label: 'Swollen joints' },
+            { value: 'morning_stiffness', label: 'Stiffness in the morning' },
+            { value: 'limited_movement', label: 'Trouble moving the limb' },
+        ],
+        redFlags: [
+            { value: 'bladder_control', label: 'Loss of bladder or bowel control', urgency: 'emergency', reason: 'Back pain with loss of bladder control can mean nerve compression.' },
+            { value: 'deformity', label: 'A limb looks out of shape after an injury', urgency: 'urgent', reason: 'A deformed limb after an injury may be broken.' },
+        ],
+    },
+];
+
+// Asked about whatever the complaint is
+const GENERAL_ASSOCIATED = [
+    { value: 'fever', label: 'Fever' },
+    { value: 'fatigue', label: 'Tiredness' },
+    { value: 'weight_loss', label: 'Unexplained weight loss' },
+];
+const GENERAL_RED_FLAGS = [
+    { value: 'confusion', label: 'Confusion or very drowsy', urgency: 'emergency', reason: 'New confusion or drowsiness needs emergency care.' },
+    { value: 'severe_pain', label: 'The worst pain I have ever had', urgency: 'urgent', reason: 'Very severe pain should be checked today.' },
+];
+
+const DURATION_MENTIONED = /\b(?:\d+|a|an|one|two|three|few|several)\s*(?:hours?|days?|weeks?|months?|years?)\b|\b(?:since|yesterday|today|last night|this morning)\b/;
+
+/**
+ * Questions for an interview, in asking order, given the initial description and the answers so far
+ * (keyed by question id). Questions only asked in some cases appear once their condition is met.
+ * @returns {Array<{ id: string, text: string, type: 'choice'|'multi'|'scale'|'text', options?: Array<{ value: string, label: string }>, optional?: boolean }>}
+ */
+const buildQuestions = (initialSymptoms, answers = {}) => {
+    const text = String(initialSymptoms || '').toLowerCase();
+    const systems = SYMPTOM_SYSTEMS.filter(system => system.keywords.some(k => text.includes(k)));
+    const associated = [...systems.flatMap(s => s.associated), ...GENERAL_ASSOCIATED];
+    const redFlags = [...systems.flatMap(s => s.redFlags), ...GENERAL_RED_FLAGS];
+    const uniqueOptions = (options) => options.filter((o, i) => options.findIndex(x => x.value === o.value) === i);
+
+    const questions = [
+        {
+            id: 'onset',
+            text: 'How did it start?',
+            type: 'choice',
+            options: [{ value: 'sudden', label: 'Suddenly, within minutes' }, { value: 'gradual', label: 'Gradually, over hours or days' }],
+        },
+    ];
+    if (!DURATION_MENTIONED.test(text)) {
+        questions.push({
+            id: 'duration',
+            text: 'How long have you had it?',
+            type: 'choice',
+            options: [
+                { value: 'under_1_day', label: 'Less than a day' },
+                { value: '1_3_days', label: '1 to 3 days' },
+                { value: '4_7_days', label: '4 to 7 days' },
+                { value: '1_4_weeks', label: '1 to 4 weeks' },
+                { value: 'over_1_month', label: 'More than a month' },
+            ],
+        });
+    }
+    questions.push(
+        { id: 'severity', text: 'How bad is it right now, from 1 (barely noticeable) to 10 (unbearable)?', type: 'scale' },
+        {
+            id: 'course',
+            text: 'How has it changed since it started?',
+            type: 'choice',
+            options: [
+                { value: 'worse', label: 'Getting worse' },
+                { value: 'same', label: 'About the same' },
+                { value: 'better', label: 'Getting better' },
+                { value: 'comes_and_goes', label: 'Comes and goes' },
+            ],
+        },
+    );
+    if (answers.course === 'comes_and_goes') {
+        questions.push({
+            id: 'previous_episodes',
+            text: 'Have you had episodes like this before?',
+            type: 'choice',
+            options: [{ value: 'first_time', label: 'No, this is the first time' }, { value: 'few_times', label: 'A few times' }, { value: 'often', label: 'Often, for months or longer' }],
+        });
+    }
+    questions.push({ id: 'associated', text: 'Have you also noticed any of these?', type: 'multi', options: uniqueOptions(associated) });
+    if (Array.isArray(answers.associated) && answers.associated.includes('fever') && !/\b\d{2,3}(?:\.\d)?\s*(?:°|deg|f|c)\b/.test(text)) {
+        questions.push({
+            id: 'temperature',
+            text: 'What is the highest temperature you measured?',
+            type: 'choice',
+            options: [
+                { value: 'not_measured', label: 'Not measured' },
+                { value: 'under_100_4', label: 'Below 100.4°F (38°C)' },
+                { value: '100_4_to_103', label: '100.4–103°F (38–39.4°C)' },
+                { value: 'over_103', label: 'Above 103°F (39.4°C)' },
+            ],
+        });
+    }
+    questions.push(
+        { id: 'red_flags', text: 'Do you have any of these warning signs?', type: 'multi', options: uniqueOptions(redFlags) },
+        { id: 'notes', text: 'Anything else? For example medicines you have taken, recent travel, or what makes it better or worse.', type: 'text', optional: true },
+    );
+    return questions;
+};
+
+const answersById = (transcript) => Object.fromEntries(transcript.map(entry => [entry.questionId, entry.answer]));
+
+/**
+ * The next unanswered question, or null once the interview has enough to make a prediction.
+ */
+const nextQuestion = (initialSymptoms, transcript) => {
+    const answers = answersById(transcript);
+    return buildQuestions(initialSymptoms, answers).find(question => !(question.id in answers)) || null;
+};
+
+/**
+ * @returns {string|null} An error message, or null when the answer fits the question.
+ */
+const validateAnswer = (question, answer) => {
+    const values = (question.options || []).map(o => o.value);
+    switch (question.type) {
+        case 'choice':
+            return values.includes(answer) ? null : "Pick one of the listed answers.";
+        case 'multi':
+            if (!Array.isArray(answer)) return "Answer with a list of the options that apply, or an empty list for none.";
+            return answer.every(value => values.includes(value)) ? null : "Pick only from the listed answers.";
+        case 'scale':
+            return Number.isInteger(Number(answer)) && Number(answer) >= 1 && Number(answer) <= 10 ? null : "Answer with a whole number from 1 to 10.";
+        case 'text':
+            if (answer !== null && answer !== undefined && typeof answer !== 'string') return "Answer with text.";
+            return String(answer || '').length > 1000 ? "Keep the answer under 1000 characters." : null;
+        default:
+            return "Unknown question type.";
+    }
+};
+
+/**
+ * The transcript entry for an answer, with the question and answer worded as the user saw them.
+ * Answers are stored normalized: multi answers as a list (empty for none), scales as numbers.
+ */
+const transcriptEntry = (question, answer) => {
+    const labelOf = (value) => (question.options.find(o => o.value === value) || {}).label || value;
+    let normalized = answer;
+    let answerText;
+    switch (question.type) {
+        case 'choice':
+            answerText = labelOf(answer);
+            break;
+        case 'multi':
+            normalized = [...new Set(answer)];
+            answerText = normalized.length > 0 ? normalized.map(labelOf).join(', ') : NONE;
+            break;
+        case 'scale':
+            normalized = Number(answer);
+            answerText = `${normalized}/10`;
+            break;
+        default:
+            normalized = String(answer || '').trim();
+            answerText = normalized || NONE;
+    }
+    return { questionId: question.id, question: question.text, answer: normalized, answerText };
+};
+
+/**
+ * Red flags the user reported, as triage findings.
+ * @returns {Array<{ urgency: string, reason: string }>}
+ */
+const reportedRedFlags = (transcript) => {
+    const answer = answersById(transcript).red_flags;
+    if (!Array.isArray(answer)) return [];
+    const flags = [...SYMPTOM_SYSTEMS.flatMap(s => s.redFlags), ...GENERAL_RED_FLAGS];
+    return answer.map(value => flags.find(flag => flag.value === value)).filter(Boolean)
+        .map(({ urgency, reason }) => ({ urgency, reason }));
+};
+
+// Short labels for the summary sent to the provider; answers are written out in the user's wording
+const SUMMARY_LABELS = {
+    onset: 'Onset',
+    duration: 'Duration',
+    severity: 'Severity',
+    course: 'Course',
+    previous_episodes: 'Previous episodes',
+    associated: 'Also noticed',
+    temperature: 'Highest temperature',
+    red_flags: 'Warning signs',
+    notes: 'Other notes',
+};
+
+/**
+ * The interview as one symptom description, for predictSymptomsFromText and triage.
+ */
+const summarizeInterview = (initialSymptoms, transcript) => [
+    `Main complaint: ${initialSymptoms}`,
+    ...transcript.map(entry => `${SUMMARY_LABELS[entry.questionId] || entry.question}: ${entry.answerText}`),
+].join('\n');
+
+module.exports = { buildQuestions, nextQuestion, validateAnswer, transcriptEntry, reportedRedFlags, summarizeInterview };
@@ -0,0 +1,246 @@
+const { assessUrgency } = require('./aiService');
+
+/**
+ * Urgency levels, least to most urgent. 'emergency' means call an ambulance now, 'urgent' means see
+ * a doctor today, 'routine' means nothing in the message needs immediate care.
+ */
+const URGENCY_LEVELS = ['routine', 'urgent', 'emergency'];
+
+// Numbers shown with every urgent or emergency result (Nepal)
+const EMERGENCY_NUMBERS = [
+    { label: 'Ambulance', number: '102' },
+    { label: 'Police', number: '100' },
+];
+
+/**
+ * Signs that need care now. `phrases` are matched word by word in normalized English or romanized
+ * Nepali, tolerating one typo per longer word, and are skipped when negated ("no chest pain");
+ * `patterns` catch other phrasings and Devanagari text.
+ */
+const TRIAGE_RULES = [
+    {
+        urgency: 'emergency',
+        reason: 'Chest pain or pressure can be a sign of a heart attack.',
+        phrases: ['chest pain', 'chest pressure', 'chest tightness', 'chest hurts', 'pain in chest', 'pressure in chest', 'pressure on chest', 'tightness in chest', 'heart attack', 'chhati dukhyo', 'chati dukhyo'],
+        patterns: [/छाती.{0,12}(दुख|दुःख|च्याप|पोल)/, /हृदयघात|मुटुको\s*दौरा/],
+    },
+    {
+        urgency: 'emergency',
+        reason: 'Someone who is unconscious or not responding needs help immediately.',
+        phrases: ['unconscious', 'unresponsive', 'passed out', 'loss of consciousness', 'collapsed', 'fainted', 'behosh', 'behos'],
+        patterns: [/\b(?:not|isnt|wont|cant|cannot|doesnt|didnt)\s+(?:be\s+)?(?:wak(?:e|ing)|respond(?:ing)?)\b/, /बेहोस|होस\s*(?:छैन|गुम)|ब्युँझिएन|उठ्दैन/],
+    },
+    {
+        urgency: 'emergency',
+        reason: 'Difficulty breathing is a medical emergency.',
+        phrases: ['not breathing', 'cant breathe', 'cannot breathe', 'difficulty breathing', 'trouble breathing', 'shortness of breath', 'choking', 'sas ferna garo'],
+        patterns: [/सास\s*(?:फेर्न\s*(?:गाह्रो|सकिन)|रोकि|बन्द)/],
+    },
+    {
+        urgency: 'emergency',
+        reason: 'Face drooping, slurred speech or sudden one-sided weakness are signs of a stroke.',
+        // "stroke" is matched exactly, since one typo away is "strike"
+        phrases: ['slurred speech', 'face drooping', 'face droop', 'one side weak', 'paralysis'],
+        patterns: [/\bstroke\b/, /\b(?:arm|leg|side|face)\b.{0,20}\b(?:numb|weak|paraly[sz]ed)\b/, /लकवा|पक्षघात|बोली\s*लरबरा/],
+    },
+    {
+        urgency: 'emergency',
+        reason: 'Heavy bleeding or coughing or vomiting blood needs immediate care.',
+        phrases: ['severe bleeding', 'heavy bleeding', 'bleeding heavily', 'wont stop bleeding', 'vomiting blood', 'coughing blood', 'coughing up blood'],
+        patterns: [/रगत\s*(?:रोकिएन|रोकिँदैन|धेरै\s*बग)|रगत\s*बान्ता/],
+    },
+    {
+        urgency: 'emergency',
+        reason: 'A seizure needs emergency care, especially a first one or one lasting over five minutes.',
+        phrases: ['seizure', 'convulsion', 'convulsions', 'having fits'],
+        patterns: [/छारे|मिर्गी/],
+    },
+    {
+        urgency: 'emergency',
+        reason: 'Poisoning, an overdose or a snake bite needs emergency treatment.',
+        phrases: ['overdose', 'swallowed poison', 'took poison', 'drank poison', 'ate poison', 'snake bite', 'snakebite', 'bish khayo', 'bis khayo'],
+        patterns: [/विष\s*(?:खा|पिय)|सर्पले\s*टोक/],
+    },
+    {
+        urgency: 'emergency',
+        reason: 'Thoughts of suicide or self-harm need immediate support.',
+        // "hurt myself" alone is usually an accident, so it needs words of intent
+        phrases: ['kill myself', 'suicide', 'end my life', 'want to die', 'self harm'],
+        patterns: [/\b(?:want|wanted|going|planning|thinking about|thought about|urge)\s+(?:to\s+)?(?:hurt|harm|cut)(?:ing)?\s+myself\b/, /आत्महत्या|मर्न\s*मन/],
+    },
+    {
+        urgency: 'emergency',
+        reason: 'Swelling of the throat, tongue or lips can block breathing.',
+        phrases: ['throat swelling', 'throat closing', 'swollen throat', 'swollen tongue', 'anaphylaxis'],
+        patterns: [],
+    },
+    {
+        urgency: 'urgent',
+        reason: 'A very high fever or a fever with a stiff neck should be seen by a doctor today.',
+        phrases: ['high fever', 'stiff neck', 'tej jworo'],
+        patterns: [/\b(?:10[3-9]|4[01])(?:\.\d)?\s*(?:°|deg|degrees?)?\s*[fc]?\b.{0,20}\bfever\b|\bfever\b.{0,20}\b(?:10[3-9]|4[01])(?:\.\d)?\b/, /तेज\s*ज्वरो|उच्च\s*ज्वरो/],
+    },
+    {
+        urgency: 'urgent',
+        reason: 'Severe abdominal pain or the worst headache of your life should be checked today.',
+        phrases: ['severe abdominal pain', 'severe stomach pain', 'worst headache', 'sudden severe headache'],
+        patterns: [/पेट\s*(?:धेरै|असाध्यै)\s*दुख/],
+    },
+    {
+        urgency: 'urgent',
+        reason: 'Bleeding during pregnancy should be checked today.',
+        phrases: [],
+        patterns: [/pregnan.{0,40}bleed|bleed.{0,40}pregnan|गर्भ.{0,30}रगत/],
+    },
+    {
+        urgency: 'urgent',
+        reason: 'Blood in the stool or black stools can mean internal bleeding.',
+        phrases: ['blood in stool', 'black stool', 'black stools', 'bloody stool'],
+        patterns: [/दिसामा\s*रगत/],
+    },
+];
+
+// Lowercases, drops apostrophes ("isn't" -> "isnt") and turns other punctuation into spaces. Devanagari is kept.
+const normalizeText = (text) => String(text || '')
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9ऀ-ॿ.°]+/g, ' ')
+    .trim();
+
+// Edit distance counting a swap of neighbouring letters as one edit, so "siezure" matches "seizure"
+const editDistance = (a, b) => {
+    const d = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array(b.length).fill(0)]);
+    for (let j = 1; j <= b.length; j++) d[0][j] = j;
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+            }
+        }
+    }
+    return d[a.length][b.length];
+};
+
+// How long a reply waits for the provider's triage before going ahead with the rules' result
+const MODEL_TRIAGE_TIMEOUT_MS = 4000;
+
+const moreUrgent = (a, b) => (URGENCY_LEVELS.indexOf(b) > URGENCY_LEVELS.indexOf(a) ? b : a);
+
+// Shorter words only match exactly; one edit turns too many of them into other words ("pain", "paid")
+const MIN_FUZZY_WORD_LENGTH = 5;
+
+// Real words one typo away from a phrase word. They are taken as meant, so "I painted the house"
+// doesn't read as "fainted" and "worse headache" doesn't read as "worst headache".
+const EVERYDAY_WORDS = new Set([
+    'blank', 'blending', 'bleeping', 'block', 'bloom', 'blurred', 'breeding', 'brood', 'cheat', 'chess',
+    'cooking', 'crest', 'drink', 'drooling', 'drunk', 'dwelling', 'fewer', 'flood', 'frank', 'heady',
+    'heard', 'hearth', 'hearty', 'heave', 'lever', 'never', 'overdoes', 'overdone', 'painted', 'parsed',
+    'pasted', 'paused', 'prison', 'sever', 'shake', 'slack', 'smelling', 'snack', 'snare', 'spelling',
+    'spool', 'staff', 'stake', 'stood', 'stoop', 'stuff', 'tainted', 'threat', 'worse',
+]);
+
+// Dropped before matching, so "pain in my chest" is read as the phrase "pain in chest"
+const FILLER_WORDS = new Set(['a', 'an', 'the', 'my', 'his', 'her', 'their', 'your', 'our']);
+
+// A phrase right after one of these is being ruled out, as in "no chest pain" or "denies any chest pain"
+const NEGATIONS = new Set(['no', 'not', 'without', 'denies', 'denied', 'deny']);
+const NEGATION_FILLERS = new Set(['any', 'more', 'had', 'have', 'felt']);
+const MAX_NEGATION_FILLERS = 2;
+
+const wordMatches = (word, expected) => word === expected
+    || (expected.length >= MIN_FUZZY_WORD_LENGTH && !EVERYDAY_WORDS.has(word) && editDistance(word, expected) <= 1);
+
+const phraseWords = (text) => normalizeText(text)
+    .split(' ')
+    .map(word => word.replace(/^[.°]+|[.°]+$/g, ''))
+    .filter(word => word && !FILLER_WORDS.has(word));
+
+const isNegated = (words, start) => {
+    let index = start - 1;
+    while (index >= 0 && start - index <= MAX_NEGATION_FILLERS && NEGATION_FILLERS.has(words[index])) index--;
+    return index >= 0 && NEGATIONS.has(words[index]);
+};
+
+const containsPhrase = (words, phrase) => {
+    const expected = phraseWords(phrase);
+    for (let start = 0; start + expected.length <= words.length; start++) {
+        if (expected.every((word, i) => wordMatches(words[start + i], word)) && !isNegated(words, start)) return true;
+    }
+    return false;
+};
+
+// Phrases are matched within a clause, so a negation doesn't carry past punctuation ("no fever, chest pain")
+const splitClauses = (text) => String(text || '').split(/[,;:!?\n]|\.(?!\d)/).map(phraseWords).filter(words => words.length > 0);
+
+/**
+ * Checks a message against TRIAGE_RULES.
+ * @returns {{ urgency: string, reasons: string[] }}
+ */
+const applyTriageRules = (text) => {
+    const normalized = normalizeText(text);
+    const clauses = splitClauses(text);
+    const matched = TRIAGE_RULES.filter(rule =>
+        rule.phrases.some(phrase => clauses.some(words => containsPhrase(words, phrase))) || rule.patterns.some(pattern => pattern.test(normalized)));
+    return {
+        urgency: matched.reduce((level, rule) => moreUrgent(level, rule.urgency), 'routine'),
+        reasons: matched.map(rule => rule.reason),
+    };
+};
+
+// Rejects if the provider hasn't answered in time; its call is left to finish on its own
+const withinTimeout = (promise, ms) => {
+    let timer;
+    const timeout = new Promise((resolve, reject) => {
+        timer = setTimeout(() => reject(new Error(`No answer within ${ms} ms.`)), ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+/**
+ * Triage for a chat message or symptom description. The rules run first; unless they already found
+ * an emergency the provider is asked as well, to catch phrasings the rules miss. The more urgent of
+ * the two wins. A failed or slow provider call (see MODEL_TRIAGE_TIMEOUT_MS) leaves the rules' result
+ * standing, so callers that run triage alongside a reply are never held up by it for long.
+ * @returns {Promise<{ urgency: 'routine'|'urgent'|'emergency', reasons: string[], source: 'rules'|'model', emergencyNumbers: Array<{ label: string, number: string }> }>}
+ *   `emergencyNumbers` is empty for routine messages.
+ */
+const triageMessage = async (text) => {
+    const rules = applyTriageRules(text);
+    let urgency = rules.urgency;
+    let reasons = rules.reasons;
+    let source = 'rules';
+
+    if (urgency !== 'emergency') {
+        try {
+            const model = await withinTimeout(assessUrgency(text), MODEL_TRIAGE_TIMEOUT_MS);
+            if (model && URGENCY_LEVELS.includes(model.urgency) && moreUrgent(urgency, model.urgency) !== urgency) {
+                urgency = model.urgency;
+                reasons = [...new Set([...reasons, ...(Array.isArray(model.reasons) ? model.reasons : [])])];
+                source = 'model';
+            }
+        } catch (error) {
+            console.error("Error in model-assisted triage:", error.message);
+        }
+    }
+
+    return { urgency, reasons, source, emergencyNumbers: urgency === 'routine' ? [] : EMERGENCY_NUMBERS };
+};
+
+/**
+ * Raises a triageMessage result with findings reported some other way, e.g. red flags ticked in a
+ * symptom interview. The result never becomes less urgent.
+ * @param {Array<{ urgency: string, reason: string }>} findings
+ */
+const escalateTriage = (triage, findings) => {
+    const urgency = findings.reduce((level, finding) => moreUrgent(level, finding.urgency), triage.urgency);
+    return {
+        ...triage,
+        urgency,
+        reasons: [...new Set([...findings.map(finding => finding.reason), ...triage.reasons])],
+        emergencyNumbers: urgency === 'routine' ? [] : EMERGENCY_NUMBERS,
+    };
+};
+
+module.exports = { URGENCY_LEVELS, EMERGENCY_NUMBERS, applyTriageRules, triageMessage, escalateTriage };
@@ -0,0 +1,72 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { findCatalogEntry } = require('../services/biomarkerCatalog');
+const { CONVERSIONS, toCanonical, toPreferredUnit, standardizeBiomarkers } = require('../services/labUnits');
+
+const entry = (name) => findCatalogEntry(name);
+
+test('converts SI values to the canonical unit with the standard factors', () => {
+    assert.equal(toCanonical(entry('Fasting blood glucose'), 5.5, 'mmol/L'), 99.09);
+    assert.equal(toCanonical(entry('Total cholesterol'), 5, 'mmol/L'), 193.35);
+    assert.equal(toCanonical(entry('Triglycerides'), 1.7, 'mmol/L'), 150.57);
+    assert.equal(toCanonical(entry('Serum creatinine'), 88.42, 'µmol/L'), 1);
+    assert.equal(toCanonical(entry('Hemoglobin'), 135, 'g/L'), 13.5);
+    // IFCC 48 mmol/mol is the diabetes threshold, 6.5% in NGSP units
+    assert.equal(toCanonical(entry('HbA1c'), 48, 'mmol/mol'), 6.54);
+});
+
+test('keeps values already in the canonical unit, however it is spelled', () => {
+    assert.equal(toCanonical(entry('Fasting blood glucose'), 92, 'mg/dl'), 92);
+    assert.equal(toCanonical(entry('White blood cells'), 7.2, 'x10³/µL'), 7.2);
+});
+
+test('refuses units a test is not reported in', () => {
+    assert.equal(toCanonical(entry('Fasting blood glucose'), 5.5, 'g/L'), null);
+    assert.equal(toCanonical(entry('Fasting blood glucose'), 5.5, ''), null);
+});
+
+test('every conversion survives a round trip to the canonical unit and back', () => {
+    for (const [name, conversions] of Object.entries(CONVERSIONS)) {
+        for (const conversion of conversions) {
+            const catalogEntry = entry(name);
+            const canonical = toCanonical(catalogEntry, 10, conversion.unit);
+            const back = conversion.si
+                ? toPreferredUnit(catalogEntry, canonical, 'si').value
+                : (canonical - (conversion.offset || 0)) / conversion.factor;
+            // Both directions round to two decimals; a small factor magnifies the first rounding
+            const tolerance = 0.005 / conversion.factor + 0.005;
+            assert.ok(Math.abs(back - 10) <= tolerance, `${name} in ${conversion.unit}: 10 came back as ${back}`);
+        }
+    }
+});
+
+test('shows values in the unit the user prefers', () => {
+    assert.deepEqual(toPreferredUnit(entry('Fasting blood glucose'), 99.09, 'si'), { value: 5.5, unit: 'mmol/L' });
+    assert.deepEqual(toPreferredUnit(entry('Fasting blood glucose'), 99.09, 'conventional'), { value: 99.09, unit: 'mg/dL' });
+    // Tests without an SI unit stay in their canonical unit
+    assert.deepEqual(toPreferredUnit(entry('Platelets'), 250, 'si'), { value: 250, unit: '10^3/µL' });
+});
+
+test('standardizing converts the value and any limits printed with it', () => {
+    const [marker] = standardizeBiomarkers([
+        { name: 'Fasting glucose', value: 7, unit: 'mmol/L', referenceLow: 3.9, referenceHigh: 5.5, referenceRange: '3.9-5.5', flag: null },
+    ]);
+    assert.equal(marker.value, 126.11);
+    assert.equal(marker.unit, 'mg/dL');
+    assert.equal(marker.referenceLow, 70.26);
+    assert.equal(marker.referenceHigh, 99.09);
+    assert.equal(marker.referenceSource, 'report');
+    assert.equal(marker.flag, 'high');
+    assert.equal(marker.originalValue, 7);
+    assert.equal(marker.originalUnit, 'mmol/L');
+});
+
+test('standardizing falls back to the age- and sex-specific table when the report has no limits', () => {
+    const [marker] = standardizeBiomarkers(
+        [{ name: 'Hemoglobin', value: 12.5, unit: 'g/dL', referenceLow: null, referenceHigh: null, flag: null }],
+        { age: 30, sex: 'male' },
+    );
+    assert.equal(marker.referenceSource, 'table');
+    assert.equal(marker.referenceLow, 13.5);
+    assert.equal(marker.flag, 'low');
+});
@@ -0,0 +1,34 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { referenceRangeForTest } = require('../services/referenceRanges');
+
+test('picks the row for the patient\'s sex', () => {
+    assert.deepEqual(referenceRangeForTest('Hemoglobin', { age: 30, sex: 'male' }), { low: 13.5, high: 17.5 });
+    assert.deepEqual(referenceRangeForTest('Hemoglobin', { age: 30, sex: 'female' }), { low: 12, high: 15.5 });
+    assert.deepEqual(referenceRangeForTest('HDL cholesterol', { age: 30, sex: 'female' }), { low: 50, high: null });
+});
+
+test('an age band comes before the sex-specific rows that follow it', () => {
+    assert.deepEqual(referenceRangeForTest('Hemoglobin', { age: 8, sex: 'male' }), { low: 11.5, high: 15.5 });
+    assert.deepEqual(referenceRangeForTest('Hemoglobin', { age: 12, sex: 'male' }), { low: 13.5, high: 17.5 });
+});
+
+test('age limits are inclusive', () => {
+    assert.deepEqual(referenceRangeForTest('Blood urea nitrogen', { age: 60 }), { low: 8, high: 23 });
+    assert.deepEqual(referenceRangeForTest('Blood urea nitrogen', { age: 59 }), { low: 7, high: 20 });
+    assert.deepEqual(referenceRangeForTest('Serum creatinine', { age: 18, sex: 'female' }), { low: 0.59, high: 1.04 });
+});
+
+test('falls back to the adult catalog limits when no row matches', () => {
+    // Adult-only rows don't apply to a 17-year-old
+    assert.deepEqual(referenceRangeForTest('Serum creatinine', { age: 17, sex: 'male' }), { low: 0.6, high: 1.3 });
+    // Without an age or sex only general rows can match
+    assert.deepEqual(referenceRangeForTest('Hemoglobin', {}), { low: 12, high: 17.5 });
+    assert.deepEqual(referenceRangeForTest('Blood urea nitrogen', { sex: 'male' }), { low: 7, high: 20 });
+    assert.deepEqual(referenceRangeForTest('TSH', { age: 40, sex: 'female' }), { low: 0.4, high: 4.5 });
+});
+
+test('matches tests under any of their names and returns null for unknown ones', () => {
+    assert.deepEqual(referenceRangeForTest('Hb', { age: 30, sex: 'female' }), { low: 12, high: 15.5 });
+    assert.equal(referenceRangeForTest('Vitamin D', { age: 30, sex: 'female' }), null);
+});
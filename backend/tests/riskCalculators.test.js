@@ -0,0 +1,109 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { calculateRiskScores, collectRiskInputs } = require('../services/riskCalculators');
+
+const score = (id, inputs) => calculateRiskScores(inputs).find(result => result.id === id);
+
+// The worked example in the appendix of Goff et al. (2013): 55 years old, total cholesterol 213 mg/dL,
+// HDL 50 mg/dL, untreated systolic pressure 120 mmHg, non-smoker, no diabetes.
+const PCE_EXAMPLE = { age: 55, totalCholesterol: 213, hdlCholesterol: 50, systolicBp: 120, onBpTreatment: false, smoker: false, diabetes: false };
+
+test('ASCVD matches the published Pooled Cohort Equations examples for each sex and race', () => {
+    const published = [
+        ['female', 'other', 2.1],
+        ['female', 'african_american', 3.0],
+        ['male', 'other', 5.3],
+        ['male', 'african_american', 6.1],
+    ];
+    for (const [sex, race, risk] of published) {
+        const result = score('ascvd', { ...PCE_EXAMPLE, sex, race });
+        assert.equal(result.status, 'ok');
+        // The paper rounds its intermediate sums, so the last digit can differ by one
+        assert.ok(Math.abs(result.value - risk) <= 0.15, `${sex}/${race}: expected about ${risk}%, got ${result.value}%`);
+    }
+});
+
+test('ASCVD treats a missing race as "other"', () => {
+    assert.equal(score('ascvd', { ...PCE_EXAMPLE, sex: 'female' }).value, score('ascvd', { ...PCE_EXAMPLE, sex: 'female', race: 'other' }).value);
+});
+
+test('ASCVD rises with treated blood pressure, smoking and diabetes', () => {
+    const baseline = score('ascvd', { ...PCE_EXAMPLE, sex: 'male' }).value;
+    assert.ok(score('ascvd', { ...PCE_EXAMPLE, sex: 'male', onBpTreatment: true }).value > baseline);
+    assert.ok(score('ascvd', { ...PCE_EXAMPLE, sex: 'male', smoker: true }).value > baseline);
+    assert.ok(score('ascvd', { ...PCE_EXAMPLE, sex: 'male', diabetes: true }).value > baseline);
+});
+
+test('ASCVD is not reported outside the ranges the equations were validated on', () => {
+    assert.equal(score('ascvd', { ...PCE_EXAMPLE, sex: 'male', age: 35 }).status, 'out_of_range');
+    assert.equal(score('ascvd', { ...PCE_EXAMPLE, sex: 'male', totalCholesterol: 350 }).status, 'out_of_range');
+});
+
+test('eGFR follows CKD-EPI 2021 on both sides of the creatinine threshold for each sex', () => {
+    // Creatinine above κ (0.9 men, 0.7 women) uses the -1.2 exponent
+    assert.equal(score('egfr', { sex: 'male', age: 60, creatinine: 1.0 }).value, 86);
+    assert.equal(score('egfr', { sex: 'female', age: 60, creatinine: 1.0 }).value, 64);
+    // Below κ, α is -0.302 for men and -0.241 for women
+    assert.equal(score('egfr', { sex: 'male', age: 50, creatinine: 0.7 }).value, 112);
+    assert.equal(score('egfr', { sex: 'female', age: 45, creatinine: 0.5 }).value, 118);
+    // At κ only age and sex count: 142 × 0.9938^50 × 1.012
+    assert.equal(score('egfr', { sex: 'female', age: 50, creatinine: 0.7 }).value, 105);
+});
+
+test('eGFR stages the result and is not reported for children', () => {
+    const result = score('egfr', { sex: 'male', age: 70, creatinine: 2.0 });
+    assert.equal(result.value, 35);
+    assert.equal(result.category, 'G3b');
+    assert.equal(score('egfr', { sex: 'male', age: 16, creatinine: 0.8 }).status, 'out_of_range');
+});
+
+test('FINDRISC adds up the points of the published questionnaire', () => {
+    const lowest = { age: 40, sex: 'female', heightCm: 165, weightKg: 58, waistCm: 76, physicallyActive: true, eatsVegetablesDaily: true, onBpTreatment: false, highGlucoseHistory: false, familyHistoryDiabetes: 'none' };
+    assert.equal(score('findrisc', lowest).value, 0);
+    assert.equal(score('findrisc', lowest).category, 'Low');
+
+    // Age 45-54: 2, BMI 25-30: 1, men's waist 94-102 cm: 3, family history in parents or siblings: 5
+    const moderate = { ...lowest, age: 50, sex: 'male', heightCm: 175, weightKg: 80, waistCm: 100, familyHistoryDiabetes: 'immediate' };
+    assert.equal(score('findrisc', moderate).value, 11);
+    assert.equal(score('findrisc', moderate).category, 'Slightly elevated');
+
+    // Every answer at its highest: 4 + 3 + 4 + 2 + 1 + 2 + 5 + 5
+    const highest = { ...moderate, age: 70, weightKg: 100, waistCm: 110, physicallyActive: false, eatsVegetablesDaily: false, onBpTreatment: true, highGlucoseHistory: true };
+    assert.equal(score('findrisc', highest).value, 26);
+    assert.equal(score('findrisc', highest).category, 'Very high');
+});
+
+test('FINDRISC is not used once diabetes is diagnosed', () => {
+    const inputs = { age: 50, sex: 'male', heightCm: 175, weightKg: 80, waistCm: 100, physicallyActive: true, eatsVegetablesDaily: true, onBpTreatment: false, highGlucoseHistory: false, familyHistoryDiabetes: 'none', diabetes: true };
+    assert.equal(score('findrisc', inputs).status, 'not_applicable');
+});
+
+test('BMI uses the WHO adult categories', () => {
+    assert.deepEqual(
+        [[50, 170], [70, 175], [85, 175], [95, 175], [115, 175], [125, 175]].map(([weightKg, heightCm]) => {
+            const { value, category } = score('bmi', { weightKg, heightCm });
+            return [value, category];
+        }),
+        [[17.3, 'Underweight'], [22.9, 'Normal weight'], [27.8, 'Overweight'], [31, 'Obesity class I'], [37.6, 'Obesity class II'], [40.8, 'Obesity class III']],
+    );
+});
+
+test('calculators list the inputs they are missing instead of guessing', () => {
+    const result = score('bmi', { weightKg: 70 });
+    assert.equal(result.status, 'missing_inputs');
+    assert.deepEqual(result.missingInputs, ['heightCm']);
+    assert.equal(result.value, null);
+});
+
+test('lab values are read in their canonical unit, newest first', () => {
+    const { inputs, sources } = collectRiskInputs({
+        profile: { age: 50, sex: 'male' },
+        biomarkerSets: [
+            [{ name: 'Total cholesterol', value: 5, unit: 'mmol/L' }],
+            [{ name: 'Total cholesterol', value: 240, unit: 'mg/dL' }],
+        ],
+        provided: {},
+    });
+    assert.equal(inputs.totalCholesterol, 193.35);
+    assert.equal(sources.totalCholesterol, 'report');
+});
@@ -0,0 +1,45 @@
+// The offline provider keeps triage.js from needing a Gemini key
+process.env.AI_PROVIDER = 'local';
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { applyTriageRules } = require('../services/triage');
+
+const urgencyOf = (text) => applyTriageRules(text).urgency;
+
+test('matches emergency phrases, including typos in longer words', () => {
+    assert.equal(urgencyOf('I have chest pain'), 'emergency');
+    assert.equal(urgencyOf('my dad is unconsious'), 'emergency');
+    assert.equal(urgencyOf('he had a siezure this morning'), 'emergency');
+    assert.equal(urgencyOf('mero chhati dukhyo'), 'emergency');
+});
+
+test('matches phrases with the words in another order', () => {
+    assert.equal(urgencyOf('pain in my chest'), 'emergency');
+    assert.equal(urgencyOf('I feel pressure on the chest'), 'emergency');
+    assert.equal(urgencyOf('there was blood in my stool'), 'urgent');
+});
+
+test('does not read everyday words as typos of warning signs', () => {
+    assert.equal(urgencyOf('I painted the house'), 'routine');
+    assert.equal(urgencyOf('I was cooking dinner'), 'routine');
+    assert.equal(urgencyOf('worse headache than yesterday'), 'routine');
+});
+
+test('needs words of intent before treating hurting oneself as self-harm', () => {
+    assert.equal(urgencyOf('I hurt myself playing football'), 'routine');
+    assert.equal(urgencyOf('I want to hurt myself'), 'emergency');
+    assert.equal(urgencyOf('I want to end my life'), 'emergency');
+});
+
+test('skips phrases that are negated', () => {
+    assert.equal(urgencyOf('no chest pain today'), 'routine');
+    assert.equal(urgencyOf('denies any chest pain'), 'routine');
+    assert.equal(urgencyOf('I have not had any chest pain'), 'routine');
+    assert.equal(urgencyOf('he is not breathing'), 'emergency');
+});
+
+test('does not carry a negation past punctuation', () => {
+    assert.equal(urgencyOf('No fever, but chest pain since morning'), 'emergency');
+    assert.equal(urgencyOf('no chest pain yesterday. chest pain now'), 'emergency');
+});
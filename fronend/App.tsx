@@ -2,16 +2,19 @@ import React, { useState, useCallback, useEffect } from 'react';
 import Header from './components/Header';
 import Dashboard from './components/Dashboard';
 import HealthInputForm from './components/HealthInputForm';
+import ManualLabEntryForm from './components/ManualLabEntryForm';
 import ResultsDisplay from './components/ResultsDisplay';
+import AnalysisComparison from './components/AnalysisComparison';
 import ChatAssistant from './components/ChatAssistant';
 import Login from './components/Login';
 import Register from './components/Register';
 import Profile from './components/Profile';
 import SymptomPredictor from './components/SymptomPredictor';
 import HospitalFinder from './components/HospitalFinder';
-import { Page, HealthReportAnalysis, User, AuthResponse } from './types';
+import SosScreen from './components/SosScreen';
+import { Page, HealthReportAnalysis, User, AuthResponse, StoredAnalysis, SearchResult, ChatSource } from './types';
 import { jwtDecode } from 'jwt-decode';
-import { getLatestAnalysis } from './services/geminiService';
+import { getLatestAnalysis, getAnalysis } from './services/geminiService';
 
 
 const API_BASE_URL = 'http://localhost:3001';
@@ -19,6 +22,10 @@ const API_BASE_URL = 'http://localhost:3001';
 const App: React.FC = () => {
   const [currentPage, setCurrentPage] = useState<Page>(Page.Dashboard);
   const [analysisResult, setAnalysisResult] = useState<HealthReportAnalysis | null>(null);
+  const [selectedAnalysis, setSelectedAnalysis] = useState<StoredAnalysis | null>(null);
+  const [comparisonIds, setComparisonIds] = useState<[number, number] | null>(null);
+  // The conversation a search result opens in the chat; otherwise the chat reopens the latest one
+  const [chatConversationId, setChatConversationId] = useState<number | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   
@@ -93,6 +100,8 @@ const App: React.FC = () => {
     localStorage.removeItem('authToken');
     setCurrentPage(Page.Dashboard);
     setAnalysisResult(null);
+    setSelectedAnalysis(null);
+    setComparisonIds(null);
   };
 
   const handleAnalysisComplete = useCallback((result: HealthReportAnalysis) => {
@@ -109,9 +118,46 @@ const App: React.FC = () => {
 
   const handleNavigate = (page: Page) => {
     setCurrentPage(page);
+    setChatConversationId(null);
     setError(null);
   };
   
+  const handleViewAnalysis = async (id: number) => {
+    try {
+      const analysis = await getAnalysis(id);
+      setSelectedAnalysis(analysis);
+      handleNavigate(Page.AnalysisDetail);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load this analysis.');
+    }
+  };
+
+  const handleCompareAnalyses = (ids: [number, number]) => {
+    setComparisonIds(ids);
+    handleNavigate(Page.AnalysisCompare);
+  };
+
+  const handleSearchSelect = (result: SearchResult) => {
+    if (result.kind === 'analysis') {
+      handleViewAnalysis(result.id);
+    } else if (result.kind === 'chat' && result.conversationId !== null) {
+      handleNavigate(Page.Chat);
+      setChatConversationId(result.conversationId);
+    } else {
+      // Symptom checks are listed on the profile
+      handleNavigate(result.kind === 'chat' ? Page.Chat : Page.Profile);
+    }
+  };
+
+  // Analyses open on their own; symptom checks and diary entries are shown on the profile
+  const handleOpenChatSource = (source: ChatSource) => {
+    if (source.kind === 'analysis') {
+      handleViewAnalysis(source.id);
+    } else {
+      handleNavigate(Page.Profile);
+    }
+  };
+
   const handleNewAnalysis = () => {
     // We don't clear the analysis result here anymore,
     // so the dashboard still shows the last one until a new one is complete.
@@ -135,14 +181,6 @@ const App: React.FC = () => {
   }
 
   const renderContent = () => {
-    if (isLoading) {
-      return (
-        <div className="flex flex-col items-center justify-center h-full p-8 text-center">
-            <div className="w-16 h-16 border-4 border-red-500 border-dashed rounded-full animate-spin"></div>
-            <p className="mt-4 text-lg text-gray-600 dark:text-gray-300">AI is analyzing your report... This may take a moment.</p>
-        </div>
-      );
-    }
 
     if (error) {
        return (
@@ -165,21 +203,54 @@ const App: React.FC = () => {
       case Page.Dashboard:
         return <Dashboard analysisResult={analysisResult} onNewAnalysis={handleNewAnalysis} user={user}/>;
       case Page.Input:
-        return <HealthInputForm 
+        // The form stays mounted while analyzing, so its documents are still there if the report is rejected
+        return (
+          <>
+            {isLoading && (
+              <div className="flex flex-col items-center justify-center h-full p-8 text-center">
+                  <div className="w-16 h-16 border-4 border-red-500 border-dashed rounded-full animate-spin"></div>
+                  <p className="mt-4 text-lg text-gray-600 dark:text-gray-300">AI is analyzing your report... This may take a moment.</p>
+              </div>
+            )}
+            <div className={isLoading ? 'hidden' : ''}>
+              <HealthInputForm 
                   onAnalysisComplete={handleAnalysisComplete} 
                   onAnalysisError={handleAnalysisError} 
                   setIsLoading={setIsLoading} 
-                />;
+                />
+            </div>
+          </>
+        );
+      case Page.ManualEntry:
+        return <ManualLabEntryForm onSaved={handleAnalysisComplete} />;
       case Page.Results:
         return <ResultsDisplay result={analysisResult} onNewAnalysis={handleNewAnalysis} />;
       case Page.Chat:
-        return <ChatAssistant />;
+        return <ChatAssistant openConversationId={chatConversationId} onOpenSos={() => handleNavigate(Page.Sos)} onOpenSource={handleOpenChatSource} />;
       case Page.Profile:
-        return <Profile user={user} onProfileUpdate={setUser} />;
+        return <Profile user={user} onProfileUpdate={setUser} onViewAnalysis={handleViewAnalysis} onCompareAnalyses={handleCompareAnalyses} />;
+      case Page.AnalysisDetail:
+        return <ResultsDisplay
+                  result={selectedAnalysis}
+                  onNewAnalysis={handleNewAnalysis}
+                  title="Past Analysis"
+                  subtitle={selectedAnalysis
+                    ? selectedAnalysis.source === 'manual'
+                      ? `Lab results from ${new Date(selectedAnalysis.created_at).toLocaleDateString()}, entered manually.`
+                      : `Report analyzed on ${new Date(selectedAnalysis.created_at).toLocaleString()}.`
+                    : undefined}
+                  onBack={() => handleNavigate(Page.Profile)}
+                />;
+      case Page.AnalysisCompare:
+        return comparisonIds
+          ? <AnalysisComparison analysisIds={comparisonIds} onBack={() => handleNavigate(Page.Profile)} />
+          : <Profile user={user} onProfileUpdate={setUser} onViewAnalysis={handleViewAnalysis} onCompareAnalyses={handleCompareAnalyses} />;
       case Page.SymptomPredictor:
-        return <SymptomPredictor />;
+        return <SymptomPredictor onOpenSos={() => handleNavigate(Page.Sos)} />;
       case Page.HospitalFinder:
         return <HospitalFinder />;
+      case Page.Sos:
+        return <SosScreen />;
       default:
         return <Dashboard analysisResult={analysisResult} onNewAnalysis={handleNewAnalysis} user={user} />;
     }
@@ -187,7 +258,7 @@ const App: React.FC = () => {
 
   return (
     <div className="h-screen flex flex-col bg-white dark:bg-black text-gray-900 dark:text-gray-100 font-sans">
-      <Header currentPage={currentPage} onNavigate={handleNavigate} user={user} onLogout={handleLogout} />
+      <Header currentPage={currentPage} onNavigate={handleNavigate} user={user} onLogout={handleLogout} onSearchSelect={handleSearchSelect} />
       <main className="flex-1 min-h-0 overflow-y-auto">
         <div className="container mx-auto p-4 sm:p-6 lg:p-8 h-full">
           {renderContent()}
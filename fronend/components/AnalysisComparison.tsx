@@ -0,0 +1,215 @@
+import React, { useState, useEffect } from 'react';
+import { compareAnalyses, getComparisonNarrative } from '../services/geminiService';
+import { AnalysisComparison as ComparisonData } from '../types';
+import { BotIcon } from './icons/BotIcon';
+
+interface AnalysisComparisonProps {
+  analysisIds: [number, number];
+  onBack: () => void;
+}
+
+const percent = (p: number) => `${(p * 100).toFixed(0)}%`;
+
+const signed = (n: number) => (n > 0 ? `+${n}` : `${n}`);
+
+const deltaColor = (n: number, higherIsBetter: boolean) => {
+  if (n === 0) return 'text-gray-500 dark:text-gray-400';
+  return (n > 0) === higherIsBetter ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400';
+};
+
+const Card: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="bg-white dark:bg-gray-900 p-6 rounded-xl shadow-lg border border-gray-200 dark:border-gray-800">
+    <h3 className="text-xl font-bold mb-4 text-gray-900 dark:text-white">{title}</h3>
+    {children}
+  </div>
+);
+
+const AnalysisComparison: React.FC<AnalysisComparisonProps> = ({ analysisIds, onBack }) => {
+  const [data, setData] = useState<ComparisonData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [narrative, setNarrative] = useState<string | null>(null);
+  const [isNarrating, setIsNarrating] = useState(false);
+
+  useEffect(() => {
+    const fetchComparison = async () => {
+      setIsLoading(true);
+      try {
+        setData(await compareAnalyses(analysisIds[0], analysisIds[1]));
+      } catch (err: any) {
+        setError(err.message || 'Failed to compare analyses.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchComparison();
+  }, [analysisIds]);
+
+  const handleNarrative = async () => {
+    if (!data) return;
+    setIsNarrating(true);
+    try {
+      setNarrative(await getComparisonNarrative(data.base.id, data.target.id));
+    } catch (err: any) {
+      setError(err.message || 'Failed to generate comparison summary.');
+    } finally {
+      setIsNarrating(false);
+    }
+  };
+
+  if (isLoading) {
+    return <div className="text-center text-gray-500 dark:text-gray-400 p-8">Comparing analyses...</div>;
+  }
+
+  if (!data) {
+    return (
+      <div className="text-center p-8">
+        <p className="mb-6 text-red-600 dark:text-red-400">{error || 'These analyses could not be compared.'}</p>
+        <button onClick={onBack} className="px-6 py-2 bg-red-600 text-white font-semibold rounded-lg shadow-md hover:bg-red-700">
+          Back to Profile
+        </button>
+      </div>
+    );
+  }
+
+  const { base, target, comparison } = data;
+  const { predictions, recommendations } = comparison;
+  const hasPredictionChanges = predictions.appeared.length + predictions.resolved.length + predictions.changed.length > 0;
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6 animate-fade-in">
+      <button onClick={onBack} className="text-sm font-medium text-red-600 hover:underline">
+        &larr; Back
+      </button>
+      <div className="text-center">
+        <h2 className="text-3xl sm:text-4xl font-extrabold text-gray-900 dark:text-white">What Changed</h2>
+        <p className="mt-2 text-lg text-gray-600 dark:text-gray-300">
+          {new Date(base.created_at).toLocaleString()} &rarr; {new Date(target.created_at).toLocaleString()}
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-100 dark:bg-red-900/20 border border-red-400 dark:border-red-600 text-red-700 dark:text-red-300 px-4 py-3 rounded-lg" role="alert">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {[{ label: 'Earlier', analysis: base }, { label: 'Later', analysis: target }].map(({ label, analysis }) => (
+          <div key={label} className="bg-white dark:bg-gray-900 p-6 rounded-xl shadow-lg border border-gray-200 dark:border-gray-800">
+            <p className="text-sm text-gray-500 dark:text-gray-400">{label} &middot; {new Date(analysis.created_at).toLocaleDateString()}</p>
+            <p className="text-4xl font-extrabold text-gray-900 dark:text-white mt-1">{analysis.healthScore ?? '—'}</p>
+            <p className="text-sm text-gray-600 dark:text-gray-300 mt-2 line-clamp-3">{analysis.summary}</p>
+          </div>
+        ))}
+        <div className="bg-white dark:bg-gray-900 p-6 rounded-xl shadow-lg border border-gray-200 dark:border-gray-800 flex flex-col items-center justify-center">
+          <p className="text-sm text-gray-500 dark:text-gray-400">Score Change</p>
+          {comparison.scoreDelta !== null ? (
+            <p className={`text-5xl font-extrabold ${deltaColor(comparison.scoreDelta, true)}`}>{signed(comparison.scoreDelta)}</p>
+          ) : (
+            <p className="text-5xl font-extrabold text-gray-400 dark:text-gray-500" title="One of these analyses has no AI score">—</p>
+          )}
+          {comparison.ruleScoreDelta !== null && (
+            <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+              Rule-based: <span className={`font-semibold ${deltaColor(comparison.ruleScoreDelta, true)}`}>{signed(comparison.ruleScoreDelta)}</span>
+            </p>
+          )}
+        </div>
+      </div>
+
+      <Card title="AI Summary of Changes">
+        {narrative ? (
+          <p className="text-gray-600 dark:text-gray-300 whitespace-pre-line">{narrative}</p>
+        ) : (
+          <button
+            onClick={handleNarrative}
+            disabled={isNarrating}
+            className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white font-semibold rounded-lg shadow-md hover:bg-red-700 disabled:bg-gray-400"
+          >
+            <BotIcon className="w-5 h-5" /> {isNarrating ? 'Generating...' : 'Explain what changed'}
+          </button>
+        )}
+      </Card>
+
+      <Card title="Potential Health Risks">
+        {hasPredictionChanges ? (
+          <ul className="space-y-2">
+            {predictions.appeared.map(p => (
+              <li key={`new-${p.disease}`} className="flex justify-between bg-red-50 dark:bg-red-900/20 p-3 rounded-lg">
+                <span className="font-semibold text-gray-800 dark:text-gray-200">{p.disease} <span className="text-xs font-normal text-red-600 dark:text-red-300">new</span></span>
+                <span className="text-gray-700 dark:text-gray-300">{percent(p.probability)}</span>
+              </li>
+            ))}
+            {predictions.resolved.map(p => (
+              <li key={`resolved-${p.disease}`} className="flex justify-between bg-green-50 dark:bg-green-900/20 p-3 rounded-lg">
+                <span className="font-semibold text-gray-800 dark:text-gray-200">{p.disease} <span className="text-xs font-normal text-green-600 dark:text-green-300">no longer flagged</span></span>
+                <span className="text-gray-500 dark:text-gray-400 line-through">{percent(p.probability)}</span>
+              </li>
+            ))}
+            {predictions.changed.map(p => (
+              <li key={`changed-${p.disease}`} className="flex justify-between bg-gray-50 dark:bg-black p-3 rounded-lg">
+                <span className="font-semibold text-gray-800 dark:text-gray-200">{p.disease}</span>
+                <span className={deltaColor(p.delta, false)}>{percent(p.before)} &rarr; {percent(p.after)}</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-gray-500 dark:text-gray-400">The predicted risks did not change between these reports.</p>
+        )}
+      </Card>
+
+      {comparison.biomarkers.length > 0 && (
+        <Card title="Lab Values">
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                  <th className="py-2 pr-4 font-medium">Test</th>
+                  <th className="py-2 pr-4 font-medium">Earlier</th>
+                  <th className="py-2 pr-4 font-medium">Later</th>
+                  <th className="py-2 font-medium">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {comparison.biomarkers.map(b => (
+                  <tr key={b.name} className="border-b border-gray-100 dark:border-gray-800">
+                    <td className="py-2 pr-4 font-semibold text-gray-800 dark:text-gray-200">{b.name}</td>
+                    <td className="py-2 pr-4 text-gray-700 dark:text-gray-300">{b.before} {b.unitBefore} <span className="text-xs text-gray-500">({b.flagBefore})</span></td>
+                    <td className="py-2 pr-4 text-gray-700 dark:text-gray-300">{b.after} {b.unit} <span className="text-xs text-gray-500">({b.flagAfter})</span></td>
+                    <td className="py-2 text-gray-700 dark:text-gray-300">{b.delta === null ? <span title="Measured in different units">&ndash;</span> : signed(b.delta)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+
+      <Card title="Recommendations">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <p className="text-sm font-semibold text-green-600 dark:text-green-400 mb-2">New</p>
+            {recommendations.added.length > 0 ? (
+              <ul className="list-disc list-inside space-y-1 text-gray-600 dark:text-gray-300">
+                {recommendations.added.map((rec, index) => <li key={index}>{rec}</li>)}
+              </ul>
+            ) : <p className="text-gray-500 dark:text-gray-400">None</p>}
+          </div>
+          <div>
+            <p className="text-sm font-semibold text-gray-500 dark:text-gray-400 mb-2">Dropped</p>
+            {recommendations.removed.length > 0 ? (
+              <ul className="list-disc list-inside space-y-1 text-gray-500 dark:text-gray-400">
+                {recommendations.removed.map((rec, index) => <li key={index}>{rec}</li>)}
+              </ul>
+            ) : <p className="text-gray-500 dark:text-gray-400">None</p>}
+          </div>
+        </div>
+        {recommendations.kept.length > 0 && (
+          <p className="mt-4 text-sm text-gray-500 dark:text-gray-400">{recommendations.kept.length} recommendation(s) appear in both reports.</p>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default AnalysisComparison;
@@ -0,0 +1,124 @@
+import React, { useState, useEffect } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceArea, ResponsiveContainer } from 'recharts';
+import { getBiomarkers, getBiomarkerHistory } from '../services/geminiService';
+import { BiomarkerSummary, BiomarkerHistory } from '../types';
+import { PulseIcon } from './icons/PulseIcon';
+
+const BiomarkerExplorer: React.FC = () => {
+    const [biomarkers, setBiomarkers] = useState<BiomarkerSummary[]>([]);
+    const [selected, setSelected] = useState<string>('');
+    const [history, setHistory] = useState<BiomarkerHistory | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const fetchBiomarkers = async () => {
+            try {
+                const list = await getBiomarkers();
+                setBiomarkers(list);
+                if (list.length > 0) {
+                    setSelected(list[0].name);
+                }
+            } catch (err: any) {
+                setError(err.message || 'Failed to load lab values.');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+        fetchBiomarkers();
+    }, []);
+
+    useEffect(() => {
+        if (!selected) return;
+        let mounted = true;
+        const fetchHistory = async () => {
+            setError(null);
+            try {
+                const data = await getBiomarkerHistory(selected);
+                if (mounted) setHistory(data);
+            } catch (err: any) {
+                if (mounted) setError(err.message || 'Failed to load history.');
+            }
+        };
+        fetchHistory();
+        return () => { mounted = false; };
+    }, [selected]);
+
+    const chartData = history ? history.points.map(point => ({
+        date: new Date(point.date).toLocaleDateString(),
+        value: point.value,
+    })) : [];
+
+    const hasBand = !!history && (history.referenceLow !== null || history.referenceHigh !== null);
+
+    return (
+        <div className="bg-white dark:bg-gray-900 p-6 rounded-xl shadow-lg border border-gray-200 dark:border-gray-800">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+                <h2 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2"><PulseIcon className="w-6 h-6"/> Lab Value Trends</h2>
+                {biomarkers.length > 0 && (
+                    <select
+                        value={selected}
+                        onChange={(e) => setSelected(e.target.value)}
+                        className="bg-gray-100 dark:bg-black border border-gray-300 dark:border-gray-700 rounded-lg text-sm px-3 py-1.5 focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                        aria-label="Select lab value"
+                    >
+                        {biomarkers.map(marker => (
+                            <option key={marker.name} value={marker.name}>{marker.name} ({marker.count})</option>
+                        ))}
+                    </select>
+                )}
+            </div>
+
+            {isLoading && <p className="text-gray-500 dark:text-gray-400">Loading lab values...</p>}
+
+            {error && (
+                <div className="bg-red-100 dark:bg-red-900/20 border border-red-400 dark:border-red-600 text-red-700 dark:text-red-300 px-4 py-3 rounded-lg" role="alert">
+                    {error}
+                </div>
+            )}
+
+            {!isLoading && biomarkers.length === 0 && (
+                <div className="text-center text-gray-500 dark:text-gray-400 py-8">
+                    <p>No lab values have been extracted from your reports yet.</p>
+                </div>
+            )}
+
+            {history && chartData.length > 0 && (
+                <>
+                    <p className="text-sm text-gray-600 dark:text-gray-300 mb-3">
+                        Latest: <span className="font-semibold">{history.points[history.points.length - 1].value} {history.unit}</span>
+                        {hasBand && <span className="ml-2 text-gray-500 dark:text-gray-400">(shaded area is the reference range)</span>}
+                    </p>
+                    {chartData.length > 1 ? (
+                        <div style={{ width: '100%', height: 300 }}>
+                            <ResponsiveContainer>
+                                <LineChart data={chartData} margin={{ top: 5, right: 20, left: -10, bottom: 5 }}>
+                                    <CartesianGrid strokeDasharray="3 3" className="stroke-gray-200 dark:stroke-gray-700" />
+                                    <XAxis dataKey="date" className="text-xs fill-gray-500 dark:fill-gray-400" />
+                                    <YAxis domain={['auto', 'auto']} className="text-xs fill-gray-500 dark:fill-gray-400" />
+                                    {hasBand && (
+                                        <ReferenceArea
+                                            y1={history.referenceLow ?? undefined}
+                                            y2={history.referenceHigh ?? undefined}
+                                            fill="#10B981"
+                                            fillOpacity={0.15}
+                                            ifOverflow="extendDomain"
+                                        />
+                                    )}
+                                    <Tooltip contentStyle={{ backgroundColor: 'rgba(255, 255, 255, 0.8)', backdropFilter: 'blur(2px)', border: '1px solid #ddd' }} itemStyle={{color: '#ef4444'}} formatter={(value: number) => [`${value} ${history.unit}`, history.name]}/>
+                                    <Line type="monotone" dataKey="value" stroke="#ef4444" strokeWidth={2} activeDot={{ r: 8 }} />
+                                </LineChart>
+                            </ResponsiveContainer>
+                        </div>
+                    ) : (
+                        <div className="text-center text-gray-500 dark:text-gray-400 py-8">
+                            <p>This value has only been measured once. Analyze another report to see a trend.</p>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+export default BiomarkerExplorer;
@@ -0,0 +1,86 @@
+import React from 'react';
+import { Biomarker, AnalyzedDocument } from '../types';
+
+interface BiomarkerTableProps {
+  biomarkers: Biomarker[];
+  // When the analysis covered several documents, a Source column shows where each value came from
+  documents?: AnalyzedDocument[];
+}
+
+const FLAG_STYLES: Record<Biomarker['flag'], { row: string; badge: string; label: string }> = {
+  high: {
+    row: 'bg-red-50 dark:bg-red-900/20',
+    badge: 'bg-red-100 dark:bg-red-900/50 text-red-600 dark:text-red-300',
+    label: 'High',
+  },
+  low: {
+    row: 'bg-yellow-50 dark:bg-yellow-900/20',
+    badge: 'bg-yellow-100 dark:bg-yellow-900/50 text-yellow-600 dark:text-yellow-300',
+    label: 'Low',
+  },
+  normal: {
+    row: '',
+    badge: 'bg-green-100 dark:bg-green-900/50 text-green-600 dark:text-green-300',
+    label: 'Normal',
+  },
+};
+
+const BiomarkerTable: React.FC<BiomarkerTableProps> = ({ biomarkers, documents = [] }) => {
+  if (biomarkers.length === 0) {
+    return <p className="text-gray-500 dark:text-gray-400">No lab values could be extracted from this report.</p>;
+  }
+
+  const outOfRange = biomarkers.filter(b => b.flag !== 'normal').length;
+  const showSource = documents.length > 1;
+  const sourceTitle = (documentNumber?: number | null) =>
+    documents.find(d => d.number === documentNumber)?.title || '—';
+
+  return (
+    <div>
+      <p className="text-sm text-gray-600 dark:text-gray-300 mb-3">
+        {outOfRange > 0
+          ? `${outOfRange} of ${biomarkers.length} values are outside the reference range.`
+          : `All ${biomarkers.length} values are within the reference range.`}
+      </p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="text-xs uppercase text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+            <tr>
+              <th className="py-2 pr-4">Test</th>
+              <th className="py-2 pr-4">Result</th>
+              <th className="py-2 pr-4">Reference Range</th>
+              <th className={showSource ? 'py-2 pr-4' : 'py-2'}>Status</th>
+              {showSource && <th className="py-2">Source</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {biomarkers.map((marker, index) => {
+              const style = FLAG_STYLES[marker.flag] || FLAG_STYLES.normal;
+              return (
+                <tr key={index} className={`border-b border-gray-100 dark:border-gray-800 ${style.row}`}>
+                  <td className="py-2 pr-4 font-medium text-gray-700 dark:text-gray-200">{marker.name}</td>
+                  <td className={`py-2 pr-4 ${marker.flag !== 'normal' ? 'font-bold text-gray-900 dark:text-white' : 'text-gray-700 dark:text-gray-300'}`}>
+                    {marker.value} <span className="text-gray-500 dark:text-gray-400">{marker.unit}</span>
+                    {marker.originalUnit && (
+                      <span className="block text-xs font-normal text-gray-500 dark:text-gray-400">Reported as {marker.originalValue} {marker.originalUnit}</span>
+                    )}
+                  </td>
+                  <td className="py-2 pr-4 text-gray-500 dark:text-gray-400" title={marker.referenceSource === 'table' ? 'Standard range for your age and sex; none was printed on the report' : undefined}>
+                    {marker.referenceRange ? `${marker.referenceRange} ${marker.unit}` : '—'}
+                    {marker.referenceSource === 'table' && <span className="ml-1 text-xs">*</span>}
+                  </td>
+                  <td className={showSource ? 'py-2 pr-4' : 'py-2'}>
+                    <span className={`font-bold text-xs px-2 py-1 rounded-full ${style.badge}`}>{style.label}</span>
+                  </td>
+                  {showSource && <td className="py-2 text-gray-500 dark:text-gray-400">{sourceTitle(marker.documentNumber)}</td>}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default BiomarkerTable;
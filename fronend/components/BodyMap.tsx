@@ -0,0 +1,73 @@
+import React from 'react';
+import { BodyRegion } from '../types';
+
+interface BodyMapProps {
+    regions: BodyRegion[];
+    selected: string | null;
+    marked: string[]; // regions that already have a symptom
+    onSelect: (regionId: string) => void;
+}
+
+// Outlines of a front-facing figure, in a 200x420 viewBox. The figure's left is on the viewer's right.
+// Regions without a shape here (back, whole body) are offered as buttons under the figure.
+const REGION_SHAPES: Record<string, React.ReactElement> = {
+    head: <path d="M74 40 A26 30 0 0 1 126 40 Z" />,
+    face: <path d="M74 40 A26 30 0 0 0 126 40 Z" />,
+    neck: <rect x={88} y={70} width={24} height={16} rx={4} />,
+    chest: <rect x={62} y={86} width={76} height={62} rx={10} />,
+    upper_abdomen: <rect x={66} y={148} width={68} height={36} rx={4} />,
+    lower_abdomen: <rect x={66} y={184} width={68} height={40} rx={8} />,
+    right_arm: <rect x={38} y={90} width={22} height={132} rx={11} />,
+    left_arm: <rect x={140} y={90} width={22} height={132} rx={11} />,
+    right_leg: <rect x={66} y={226} width={32} height={182} rx={12} />,
+    left_leg: <rect x={102} y={226} width={32} height={182} rx={12} />,
+};
+
+const regionClass = (isSelected: boolean, isMarked: boolean) =>
+    isSelected ? 'fill-red-600' : isMarked ? 'fill-red-300 dark:fill-red-800' : 'fill-gray-200 dark:fill-gray-700 hover:fill-red-200 dark:hover:fill-red-900';
+
+const BodyMap: React.FC<BodyMapProps> = ({ regions, selected, marked, onSelect }) => {
+    const handleKeyDown = (e: React.KeyboardEvent, regionId: string) => {
+        if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            onSelect(regionId);
+        }
+    };
+
+    return (
+        <div className="flex flex-col items-center gap-3">
+            <svg viewBox="0 0 200 420" className="w-full max-w-[14rem]" role="group" aria-label="Body map">
+                {regions.filter(region => REGION_SHAPES[region.id]).map(region => (
+                    <g
+                        key={region.id}
+                        role="button"
+                        tabIndex={0}
+                        aria-label={region.label}
+                        aria-pressed={selected === region.id}
+                        onClick={() => onSelect(region.id)}
+                        onKeyDown={(e) => handleKeyDown(e, region.id)}
+                        className={`cursor-pointer stroke-white dark:stroke-gray-900 stroke-2 transition-colors focus:outline-none ${regionClass(selected === region.id, marked.includes(region.id))}`}
+                    >
+                        <title>{region.label}</title>
+                        {REGION_SHAPES[region.id]}
+                    </g>
+                ))}
+            </svg>
+            <div className="flex flex-wrap justify-center gap-2">
+                {regions.filter(region => !REGION_SHAPES[region.id]).map(region => (
+                    <button
+                        key={region.id}
+                        type="button"
+                        aria-pressed={selected === region.id}
+                        onClick={() => onSelect(region.id)}
+                        className={`px-3 py-1 rounded-full text-sm ${selected === region.id ? 'bg-red-600 text-white' : marked.includes(region.id) ? 'bg-red-100 dark:bg-red-900/40 text-red-800 dark:text-red-200' : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600'}`}
+                    >
+                        {region.label}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default BodyMap;
@@ -1,7 +1,8 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { getChatResponse, findNearbyHospitals, getChatHistory } from '../services/geminiService';
+import { streamChatResponse, getConversations, getConversationMessages } from '../services/geminiService';
 import ConversationSidebar from './ConversationSidebar';
-import { ChatMessage, Hospital } from '../types';
+import EmergencyBanner from './EmergencyBanner';
+import { ChatMessage, ChatSource, StoredChatMessage, TriageResult } from '../types';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { BotIcon } from './icons/BotIcon';
@@ -43,8 +44,10 @@ async function decodeAudioData(
 
 
 interface DisplayMessage {
+  id?: string;
   text: string;
   sender: 'user' | 'ai';
+  sources?: ChatSource[]; // the user's records the reply cites
 }
 
 const VOICES = [
@@ -53,23 +56,35 @@ const VOICES = [
     // As requested, providing English voice options. Gemini TTS has a wide range of voices.
 ];
 
+const GREETING: DisplayMessage = { sender: 'ai', text: "Hello! I'm your AI health assistant. How can I help you today? Please remember, I'm not a doctor." };
+
 const SPEECH_LANGUAGES = [
     { name: 'English', id: 'en-US' },
     { name: 'Nepali', id: 'ne-NP' },
 ];
 
-const ChatAssistant: React.FC = () => {
-  const [displayMessages, setDisplayMessages] = useState<DisplayMessage[]>([
-    { sender: 'ai', text: "Hello! I'm your AI health assistant. How can I help you today? Please remember, I'm not a doctor." }
-  ]);
+interface ChatAssistantProps {
+  // Opened instead of the most recent conversation, e.g. from a search result
+  openConversationId?: number | null;
+  onOpenSos?: () => void;
+  onOpenSource?: (source: ChatSource) => void;
+}
+
+const ChatAssistant: React.FC<ChatAssistantProps> = ({ openConversationId, onOpenSos, onOpenSource }) => {
+  const [displayMessages, setDisplayMessages] = useState<DisplayMessage[]>([GREETING]);
   const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
+  // null until the first message of a new conversation; the server creates it and reports its id
+  const [conversationId, setConversationId] = useState<number | null>(null);
+  // Bumped to make the sidebar reload, e.g. once a new conversation has been created or titled
+  const [sidebarRefreshKey, setSidebarRefreshKey] = useState(0);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
-  const [emergencyHospitals, setEmergencyHospitals] = useState<Hospital[] | null>(null);
-  const [emergencySummary, setEmergencySummary] = useState<string | null>(null);
-  const [isSearchingHospitals, setIsSearchingHospitals] = useState(false);
+  // Latest urgent or emergency triage in this conversation; a routine follow-up doesn't dismiss it
+  const [triage, setTriage] = useState<TriageResult | null>(null);
 
   // Voice Output State
   const [isVoiceEnabled, setIsVoiceEnabled] = useState<boolean>(true);
@@ -91,45 +106,71 @@ const ChatAssistant: React.FC = () => {
 
   useEffect(() => {
     scrollToBottom();
-  }, [displayMessages]);
+  }, [displayMessages, triage]);
+
+  // Stops a reply that is still streaming into the conversation being left, without it adding anything
+  const abandonReply = useCallback(() => {
+    const controller = abortControllerRef.current;
+    abortControllerRef.current = null;
+    controller?.abort();
+    setIsLoading(false);
+    setIsStreaming(false);
+  }, []);
 
-  // Load persisted chat history for the logged-in user
+  const showMessages = useCallback((rows: StoredChatMessage[]) => {
+    const display: DisplayMessage[] = rows.map(r => ({ text: r.message, sender: r.role === 'ai' ? 'ai' : 'user', sources: r.metadata?.sources }));
+    setDisplayMessages(display.length ? display : [GREETING]);
+    // Build chatHistory for context (role 'user' or 'model')
+    const historyMsgs: ChatMessage[] = rows.map(r => ({ role: r.role === 'ai' ? 'model' : 'user', parts: [{ text: r.message }] }));
+    setChatHistory(historyMsgs);
+    setTriage(null);
+  }, []);
+
+  // Open the requested conversation, or reopen the most recently active one for the logged-in user
   useEffect(() => {
     let mounted = true;
     (async () => {
       try {
-        const rows = await getChatHistory();
-        if (!mounted) return;
-        if (rows && rows.length) {
-          const display: DisplayMessage[] = rows.map(r => ({ text: r.message, sender: r.role === 'ai' ? 'ai' : 'user' }));
-          setDisplayMessages(display);
-          // Build chatHistory for context (role 'user' or 'model')
-          const historyMsgs: ChatMessage[] = rows.map(r => ({
-            role: r.role === 'ai' ? 'model' : 'user',
-            parts: [{ text: r.message }]
-          }));
-          setChatHistory(historyMsgs);
+        let targetId = openConversationId ?? null;
+        if (targetId === null) {
+          const conversations = await getConversations();
+          if (!mounted || conversations.length === 0) return;
+          targetId = conversations.reduce((a, b) => b.updated_at > a.updated_at ? b : a).id;
         }
+        const { messages } = await getConversationMessages(targetId);
+        if (!mounted) return;
+        abandonReply();
+        setConversationId(targetId);
+        showMessages(messages);
       } catch (e) {
         console.warn('Could not load chat history:', e);
       }
     })();
     return () => { mounted = false; };
-  }, []);
+  }, [openConversationId, abandonReply, showMessages]);
 
-  // Load a selected conversation (rows from backend) into the chat view
-  const handleLoadConversation = useCallback((rows: Array<{ id:number; role:string; message:string; metadata:any; created_at:string }>) => {
-    if (!rows || rows.length === 0) return;
-    const display: DisplayMessage[] = rows.map(r => ({ text: r.message, sender: r.role === 'ai' ? 'ai' : 'user' }));
-    setDisplayMessages(display);
-    const historyMsgs: ChatMessage[] = rows.map(r => ({ role: r.role === 'ai' ? 'model' : 'user', parts: [{ text: r.message }] }));
-    setChatHistory(historyMsgs);
-  }, []);
+  const handleSelectConversation = useCallback(async (id: number) => {
+    abandonReply();
+    try {
+      const { messages } = await getConversationMessages(id);
+      setConversationId(id);
+      showMessages(messages);
+    } catch (e) {
+      console.warn('Could not load the conversation:', e);
+    }
+  }, [abandonReply, showMessages]);
 
   const handleNewConversation = useCallback(() => {
+    abandonReply();
+    setConversationId(null);
     setChatHistory([]);
-    setDisplayMessages([{ sender: 'ai', text: "Hello! I'm your AI health assistant. How can I help you today? Please remember, I'm not a doctor." }]);
-  }, []);
+    setTriage(null);
+    setDisplayMessages([GREETING]);
+  }, [abandonReply]);
+
+  const handleDeleteConversation = useCallback((id: number) => {
+    if (id === conversationId) handleNewConversation();
+  }, [conversationId, handleNewConversation]);
 
   const stopAudio = useCallback(() => {
     if (currentAudioSourceRef.current) {
@@ -191,81 +232,90 @@ const ChatAssistant: React.FC = () => {
     setInput('');
     setIsLoading(true);
 
+    // A previous reply may still be streaming its audio; it should not play over the new one.
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const streamId = `stream-${Date.now()}`;
+    let aiResponse = '';
+    let replyFinished = false;
+
+    const finishReply = () => {
+      replyFinished = true;
+      setIsLoading(false);
+      setIsStreaming(false);
+      if (aiResponse) {
+        const aiMessage: ChatMessage = { role: 'model', parts: [{ text: aiResponse }] };
+        setChatHistory([...currentHistory, aiMessage]);
+      }
+    };
+
     try {
-      const { response: aiResponse, audio: audioContent } = await getChatResponse(
+      await streamChatResponse(
           sentText, 
           currentHistory, 
-          { enabled: isVoiceEnabled, voice: selectedVoice }
+          conversationId,
+          { enabled: isVoiceEnabled, voice: selectedVoice },
+          {
+            onConversation: (conversation) => {
+              // Sent first for a new conversation, and again once it has a title
+              setConversationId(conversation.id);
+              setSidebarRefreshKey(key => key + 1);
+            },
+            onTriage: (result) => {
+              setTriage(prev => result.urgency === 'routine' ? prev : result);
+            },
+            onDelta: (delta) => {
+              const isFirstDelta = aiResponse === '';
+              aiResponse += delta;
+              const text = aiResponse;
+              setIsStreaming(true);
+              setDisplayMessages(prev => isFirstDelta
+                ? [...prev, { id: streamId, text, sender: 'ai' }]
+                : prev.map(m => m.id === streamId ? { ...m, text } : m));
+            },
+            onMessage: ({ sources }) => {
+              // The text is complete; audio (if any) may still follow on the same stream.
+              if (sources && sources.length > 0) {
+                setDisplayMessages(prev => prev.map(m => m.id === streamId ? { ...m, sources } : m));
+              }
+              finishReply();
+            },
+            onAudio: (audioContent) => {
+              playAudio(audioContent);
+            },
+          },
+          controller.signal,
       );
 
       if (!aiResponse) {
           throw new Error("Received an empty response from the server.");
       }
-
-      const aiDisplayMessage: DisplayMessage = { text: aiResponse, sender: 'ai' };
-      const aiMessage: ChatMessage = { role: 'model', parts: [{ text: aiResponse }] };
-      setDisplayMessages(prev => [...prev, aiDisplayMessage]);
-      setChatHistory([...currentHistory, aiMessage]);
-
-      if (audioContent) {
-          playAudio(audioContent);
-      }
-
-      // Emergency detection: if the user's message looks like a serious symptom, try to find nearby hospitals.
-      try {
-        const emergencyKeywords = [
-          'chest pain', 'sharp pain', 'shortness of breath', 'difficulty breathing', 'unconscious', 'fainting', 'severe bleeding', 'heavy bleeding', 'stroke', 'heart attack', 'loss of consciousness', 'not breathing', 'collapse'
-        ];
-        const lowerSent = sentText.toLowerCase();
-        const isEmergency = emergencyKeywords.some(k => lowerSent.includes(k));
-
-        if (isEmergency) {
-          // Inform the user we're trying to locate nearby hospitals
-          const infoMsg: DisplayMessage = { sender: 'ai', text: "I detected signs of a possible medical emergency. I'm attempting to find nearby hospitals—please allow location access if prompted." };
-          setDisplayMessages(prev => [...prev, infoMsg]);
-          setIsSearchingHospitals(true);
-          setEmergencyHospitals(null);
-          setEmergencySummary(null);
-
-          // Try browser geolocation first
-          if (navigator.geolocation) {
-            navigator.geolocation.getCurrentPosition(async (position) => {
-              try {
-                const { latitude, longitude } = position.coords;
-                const res = await findNearbyHospitals({ lat: latitude, lon: longitude });
-                setEmergencyHospitals(res.hospitals || []);
-                setEmergencySummary(res.summary || 'Nearby hospitals found:');
-                setIsSearchingHospitals(false);
-                // Append a summary AI message
-                const hospitalsMsg: DisplayMessage = { sender: 'ai', text: res.summary || 'I found some hospitals near you.' };
-                setDisplayMessages(prev => [...prev, hospitalsMsg]);
-              } catch (err: any) {
-                setIsSearchingHospitals(false);
-                const failMsg: DisplayMessage = { sender: 'ai', text: 'I was unable to fetch nearby hospitals automatically. Please try the Hospitals page or enter your location manually.' };
-                setDisplayMessages(prev => [...prev, failMsg]);
-              }
-            }, (geoErr) => {
-              setIsSearchingHospitals(false);
-              const geoMsg: DisplayMessage = { sender: 'ai', text: 'Location access denied or unavailable. Please open the Hospitals page and enter your location to search for nearby hospitals.' };
-              setDisplayMessages(prev => [...prev, geoMsg]);
-            }, { timeout: 8000 });
-          } else {
-            setIsSearchingHospitals(false);
-            const noGeoMsg: DisplayMessage = { sender: 'ai', text: 'Geolocation is not supported by your browser. Please open the Hospitals page and search manually.' };
-            setDisplayMessages(prev => [...prev, noGeoMsg]);
-          }
+    } catch (error: any) {
+      if (error?.name === 'AbortError') {
+        // Abandoned by switching conversations, or the text was already complete
+        if (replyFinished || abortControllerRef.current !== controller) return;
+        // Cancelled by the user: keep whatever was streamed so far.
+        finishReply();
+        if (!aiResponse) {
+          setDisplayMessages(prev => [...prev, { text: '_Response cancelled._', sender: 'ai' }]);
         }
-      } catch (e) {
-        console.error('Error during emergency hospital lookup:', e);
+        return;
       }
-
-    } catch (error) {
       const errorMessage: DisplayMessage = { text: 'Sorry, I encountered an error. Please try again.', sender: 'ai' };
       setDisplayMessages(prev => [...prev, errorMessage]);
     } finally {
-      setIsLoading(false);
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setIsLoading(false);
+        setIsStreaming(false);
+      }
     }
-  }, [input, isLoading, chatHistory, stopAudio, isVoiceEnabled, selectedVoice, playAudio]);
+  }, [input, isLoading, chatHistory, conversationId, stopAudio, isVoiceEnabled, selectedVoice, playAudio]);
+
+  const handleCancel = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
 
   // Setup Speech Recognition
   useEffect(() => {
@@ -327,6 +377,7 @@ const ChatAssistant: React.FC = () => {
 
   useEffect(() => {
     return () => {
+        abortControllerRef.current?.abort();
         stopAudio();
         if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
             audioContextRef.current.close();
@@ -350,14 +401,28 @@ const ChatAssistant: React.FC = () => {
   return (
     <div className="flex h-full w-full min-h-0">
       {/* Desktop sidebar (visible on md+) */}
-      <ConversationSidebar onLoadConversation={handleLoadConversation} onNewConversation={handleNewConversation} />
+      <ConversationSidebar
+        activeConversationId={conversationId}
+        onSelectConversation={handleSelectConversation}
+        onNewConversation={handleNewConversation}
+        onDeleteConversation={handleDeleteConversation}
+        refreshKey={sidebarRefreshKey}
+      />
 
       {/* Mobile drawer: shows when sidebarOpen is true */}
       {sidebarOpen && (
         <>
           <div className="fixed inset-0 z-40 drawer-backdrop md:hidden" onClick={() => setSidebarOpen(false)} />
           <div className="fixed left-0 top-0 bottom-0 z-50 md:hidden w-72">
-            <ConversationSidebar onLoadConversation={handleLoadConversation} onNewConversation={handleNewConversation} onClose={() => setSidebarOpen(false)} className="flex md:hidden" />
+            <ConversationSidebar
+              activeConversationId={conversationId}
+              onSelectConversation={handleSelectConversation}
+              onNewConversation={handleNewConversation}
+              onDeleteConversation={handleDeleteConversation}
+              refreshKey={sidebarRefreshKey}
+              onClose={() => setSidebarOpen(false)}
+              className="flex md:hidden"
+            />
           </div>
         </>
       )}
@@ -403,10 +468,24 @@ const ChatAssistant: React.FC = () => {
                 ) : (
                   msg.text
                 )}
+                {msg.sources && msg.sources.length > 0 && (
+                  <div className="mt-2 pt-2 border-t border-gray-300 dark:border-gray-700 flex flex-wrap gap-1 text-xs">
+                    <span className="text-gray-500 dark:text-gray-400">From your records:</span>
+                    {msg.sources.map(source => (
+                      <button
+                        key={source.ref}
+                        onClick={() => onOpenSource && onOpenSource(source)}
+                        className="px-2 py-0.5 rounded-full bg-white dark:bg-gray-900 text-red-600 hover:underline"
+                      >
+                        [{source.ref}] {source.title}, {new Date(source.date).toLocaleDateString()}
+                      </button>
+                    ))}
+                  </div>
+                )}
               </div>
             </div>
           ))}
-          {isLoading && (
+          {isLoading && !isStreaming && (
              <div className="flex items-end gap-2 justify-start">
                <div className="flex-shrink-0 w-8 h-8 rounded-full bg-red-600 flex items-center justify-center text-white"><BotIcon className="w-5 h-5"/></div>
                 <div className="px-4 py-3 bg-gray-200 dark:bg-gray-800 rounded-2xl rounded-bl-none">
@@ -418,28 +497,7 @@ const ChatAssistant: React.FC = () => {
                 </div>
             </div>
           )}
-          {/* Emergency hospitals panel */}
-          {isSearchingHospitals && (
-            <div className="text-center p-4">
-              <div className="w-10 h-10 border-4 border-red-500 border-dashed rounded-full animate-spin mx-auto"></div>
-              <p className="mt-3 text-gray-600 dark:text-gray-300">Searching for nearby hospitals...</p>
-            </div>
-          )}
-
-          {emergencyHospitals && emergencyHospitals.length > 0 && (
-            <div className="bg-white dark:bg-gray-900 p-4 rounded-xl shadow mt-4 border border-gray-200 dark:border-gray-800">
-              <h4 className="font-semibold text-lg text-gray-900 dark:text-white mb-2">Nearby Hospitals</h4>
-              <p className="text-sm text-gray-600 dark:text-gray-300 mb-3">{emergencySummary}</p>
-              <div className="space-y-2">
-                {emergencyHospitals.map((h, idx) => (
-                  <a key={idx} href={h.uri} target="_blank" rel="noopener noreferrer" className="block p-3 bg-gray-50 dark:bg-black rounded-lg border border-gray-200 dark:border-gray-800 hover:border-red-500 dark:hover:border-red-500">
-                    <p className="font-semibold text-red-600">{h.name}</p>
-                    <p className="text-xs text-gray-500 dark:text-gray-400">Click to view on map</p>
-                  </a>
-                ))}
-              </div>
-            </div>
-          )}
+          <EmergencyBanner triage={triage} onOpenSos={onOpenSos} />
           <div ref={messagesEndRef} />
         </div>
       </div>
@@ -510,13 +568,23 @@ const ChatAssistant: React.FC = () => {
                 <MicrophoneIcon className="w-5 h-5" />
             </button>
           )}
-          <button
-            onClick={handleSend}
-            disabled={isLoading || input.trim() === ''}
-            className="px-5 py-3 bg-red-600 text-white font-semibold rounded-lg shadow-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-opacity-75 disabled:bg-gray-400 disabled:cursor-not-allowed"
-          >
-            Send
-          </button>
+          {isLoading ? (
+            <button
+              onClick={handleCancel}
+              className="flex items-center gap-2 px-5 py-3 bg-gray-700 text-white font-semibold rounded-lg shadow-md hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-opacity-75"
+              aria-label="Stop generating"
+            >
+              <StopCircleIcon className="w-5 h-5" /> Stop
+            </button>
+          ) : (
+            <button
+              onClick={handleSend}
+              disabled={input.trim() === ''}
+              className="px-5 py-3 bg-red-600 text-white font-semibold rounded-lg shadow-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-opacity-75 disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              Send
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -1,84 +1,134 @@
 import React, { useEffect, useState } from 'react';
-import { getChatHistory } from '../services/geminiService';
-
-interface ChatRow {
-  id: number;
-  role: string;
-  message: string;
-  metadata: any;
-  created_at: string;
-}
-
-interface Session {
-  id: string; // generated id for the session
-  messages: ChatRow[];
-  lastUpdated: string;
-}
+import { getConversations, updateConversation, deleteConversation } from '../services/geminiService';
+import { Conversation } from '../types';
 
 interface Props {
-  onLoadConversation: (rows: ChatRow[]) => void;
+  activeConversationId: number | null;
+  onSelectConversation: (id: number) => void;
   onNewConversation: () => void;
+  onDeleteConversation?: (id: number) => void;
+  // Changing this reloads the list, e.g. after a message creates or titles a conversation
+  refreshKey?: number;
   // Optional: called when sidebar should be closed (mobile)
   onClose?: () => void;
   className?: string;
 }
 
-const SessionPreview: React.FC<{ session: Session; onClick: () => void }> = ({ session, onClick }) => {
-  const last = session.messages[session.messages.length - 1];
-  const preview = (last && last.message) ? last.message.slice(0, 80) : 'Empty conversation';
-  const date = new Date(session.lastUpdated).toLocaleString();
+const sortConversations = (list: Conversation[]) =>
+  [...list].sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.updated_at.localeCompare(a.updated_at));
+
+interface ItemProps {
+  conversation: Conversation;
+  isActive: boolean;
+  onSelect: () => void;
+  onRename: (title: string) => Promise<void>;
+  onTogglePin: () => void;
+  onDelete: () => void;
+}
+
+const ConversationItem: React.FC<ItemProps> = ({ conversation, isActive, onSelect, onRename, onTogglePin, onDelete }) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [title, setTitle] = useState(conversation.title);
+
+  const submitRename = async () => {
+    const trimmed = title.trim();
+    if (trimmed && trimmed !== conversation.title) {
+      try {
+        await onRename(trimmed);
+      } catch (e) {
+        setTitle(conversation.title);
+      }
+    } else {
+      setTitle(conversation.title);
+    }
+    setIsRenaming(false);
+  };
+
+  if (isRenaming) {
+    return (
+      <form onSubmit={(e) => { e.preventDefault(); submitRename(); }} className="px-3 py-2">
+        <input
+          autoFocus
+          value={title}
+          maxLength={80}
+          onChange={(e) => setTitle(e.target.value)}
+          onBlur={submitRename}
+          onKeyDown={(e) => { if (e.key === 'Escape') { setTitle(conversation.title); setIsRenaming(false); } }}
+          className="w-full p-1 text-sm bg-white dark:bg-black border border-gray-300 dark:border-gray-700 rounded text-gray-900 dark:text-white"
+        />
+      </form>
+    );
+  }
 
   return (
-    <button onClick={onClick} className="w-full text-left px-3 py-2 rounded hover:bg-gray-100 dark:hover:bg-gray-800 transition">
-      <div className="text-sm font-medium text-gray-900 dark:text-white truncate">{preview}</div>
-      <div className="text-xs text-gray-500 dark:text-gray-400">{date}</div>
-    </button>
+    <div className={`group flex items-start rounded transition ${isActive ? 'bg-gray-200 dark:bg-gray-800' : 'hover:bg-gray-100 dark:hover:bg-gray-800'}`}>
+      <button onClick={onSelect} className="flex-1 min-w-0 text-left px-3 py-2">
+        <div className="text-sm font-medium text-gray-900 dark:text-white truncate">
+          {conversation.pinned && <span className="text-red-600 mr-1" aria-label="Pinned">●</span>}
+          {conversation.title}
+        </div>
+        <div className="text-xs text-gray-500 dark:text-gray-400">{new Date(conversation.updated_at).toLocaleString()}</div>
+      </button>
+      <div className="flex flex-col items-end py-1 pr-2 text-xs opacity-100 md:opacity-0 md:group-hover:opacity-100 focus-within:opacity-100">
+        <button onClick={onTogglePin} className="text-gray-500 hover:text-red-600">{conversation.pinned ? 'Unpin' : 'Pin'}</button>
+        <button onClick={() => { setTitle(conversation.title); setIsRenaming(true); }} className="text-gray-500 hover:text-red-600">Rename</button>
+        <button onClick={onDelete} className="text-gray-500 hover:text-red-600">Delete</button>
+      </div>
+    </div>
   );
 };
 
-const ConversationSidebar: React.FC<Props> = ({ onLoadConversation, onNewConversation, onClose, className }) => {
-  const [sessions, setSessions] = useState<Session[]>([]);
+const ConversationSidebar: React.FC<Props> = ({ activeConversationId, onSelectConversation, onNewConversation, onDeleteConversation, refreshKey, onClose, className }) => {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
   const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     let mounted = true;
     (async () => {
       setLoading(true);
       try {
-        const rows = await getChatHistory();
+        const list = await getConversations();
         if (!mounted) return;
-        // rows are ordered ASC by created_at
-        const CHUNK_MS = 30 * 60 * 1000; // 30 minutes gap = new session
-        const built: Session[] = [];
-        let cur: Session | null = null;
-
-        for (const r of rows) {
-          const created = new Date(r.created_at).getTime();
-          if (!cur) {
-            cur = { id: String(r.id), messages: [r], lastUpdated: r.created_at };
-            continue;
-          }
-          const lastCreated = new Date(cur.lastUpdated).getTime();
-          if (created - lastCreated > CHUNK_MS) {
-            built.push(cur);
-            cur = { id: String(r.id), messages: [r], lastUpdated: r.created_at };
-          } else {
-            cur.messages.push(r);
-            cur.lastUpdated = r.created_at;
-          }
-        }
-        if (cur) built.push(cur);
-
-        setSessions(built.reverse()); // newest first
+        setConversations(list);
+        setError(null);
       } catch (e) {
-        console.error('Failed to load chat sessions:', e);
+        console.error('Failed to load conversations:', e);
+        if (mounted) setError('Could not load conversations.');
       } finally {
-        setLoading(false);
+        if (mounted) setLoading(false);
       }
     })();
 
     return () => { mounted = false; };
-  }, []);
+  }, [refreshKey]);
+
+  const replace = (updated: Conversation) => {
+    setConversations(prev => sortConversations(prev.map(c => c.id === updated.id ? updated : c)));
+  };
+
+  const handleRename = async (conversation: Conversation, title: string) => {
+    replace(await updateConversation(conversation.id, { title }));
+  };
+
+  const handleTogglePin = async (conversation: Conversation) => {
+    try {
+      replace(await updateConversation(conversation.id, { pinned: !conversation.pinned }));
+    } catch (e) {
+      setError('Could not update the conversation.');
+    }
+  };
+
+  const handleDelete = async (conversation: Conversation) => {
+    if (!window.confirm(`Delete "${conversation.title}"? Its messages will be removed for good.`)) return;
+    try {
+      await deleteConversation(conversation.id);
+      setConversations(prev => prev.filter(c => c.id !== conversation.id));
+      onDeleteConversation && onDeleteConversation(conversation.id);
+    } catch (e) {
+      setError('Could not delete the conversation.');
+    }
+  };
 
   const baseClasses = 'w-80 bg-gray-50 dark:bg-gray-900 border-r border-gray-200 dark:border-gray-800 h-full p-3';
 
@@ -89,16 +139,24 @@ const ConversationSidebar: React.FC<Props> = ({ onLoadConversation, onNewConvers
         <button onClick={() => { onNewConversation(); onClose && onClose(); }} className="text-sm px-2 py-1 bg-red-600 text-white rounded">New</button>
       </div>
 
-      <div className="flex-1 overflow-y-auto space-y-2">
-        {loading && <div className="text-sm text-gray-500">Loading...</div>}
-        {!loading && sessions.length === 0 && (
+      {error && <div className="text-sm text-red-600 mb-2">{error}</div>}
+
+      <div className="flex-1 overflow-y-auto space-y-1">
+        {loading && conversations.length === 0 && <div className="text-sm text-gray-500">Loading...</div>}
+        {!loading && conversations.length === 0 && (
           <div className="text-sm text-gray-500">No conversations yet. Start a new chat.</div>
         )}
 
-        {sessions.map(sess => (
-          <div key={sess.id} className="border border-transparent hover:border-gray-200 dark:hover:border-gray-800 rounded">
-            <SessionPreview session={sess} onClick={() => { onLoadConversation(sess.messages); onClose && onClose(); }} />
-          </div>
+        {conversations.map(conversation => (
+          <ConversationItem
+            key={conversation.id}
+            conversation={conversation}
+            isActive={conversation.id === activeConversationId}
+            onSelect={() => { onSelectConversation(conversation.id); onClose && onClose(); }}
+            onRename={(title) => handleRename(conversation, title)}
+            onTogglePin={() => handleTogglePin(conversation)}
+            onDelete={() => handleDelete(conversation)}
+          />
         ))}
       </div>
     </aside>
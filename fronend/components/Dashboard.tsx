@@ -3,6 +3,8 @@ import React, { useState, useEffect } from 'react';
 import { HealthReportAnalysis, User, HospitalFinderResult } from '../types';
 import { UploadIcon } from './icons/UploadIcon';
 import HealthScoreGauge from './HealthScoreGauge';
+import PredictionEvidence from './PredictionEvidence';
+import RiskScoresCard from './RiskScoresCard';
 import { getHealthTips, findNearbyHospitals } from '../services/geminiService';
 import { BotIcon } from './icons/BotIcon';
 import { HospitalIcon } from './icons/HospitalIcon';
@@ -227,7 +229,7 @@ const Dashboard: React.FC<DashboardProps> = ({ analysisResult, onNewAnalysis, us
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                             <div className="flex flex-col items-center justify-center bg-gray-50 dark:bg-black p-4 rounded-lg">
                                 <h3 className="text-lg font-bold text-gray-900 dark:text-white">Health Score</h3>
-                                <HealthScoreGauge score={analysisResult.healthScore} />
+                                <HealthScoreGauge score={analysisResult.healthScore} breakdown={analysisResult.scoreBreakdown} />
                             </div>
                             <div className="bg-gray-50 dark:bg-black p-6 rounded-lg">
                                 <h3 className="text-lg font-bold mb-2 text-gray-900 dark:text-white">AI Summary</h3>
@@ -252,9 +254,11 @@ const Dashboard: React.FC<DashboardProps> = ({ analysisResult, onNewAnalysis, us
                                 <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2.5">
                                 <div className={`h-2.5 rounded-full ${pred.probability > 0.7 ? 'bg-red-500' : pred.probability > 0.4 ? 'bg-yellow-500' : 'bg-green-500'}`} style={{ width: `${pred.probability * 100}%` }}></div>
                                 </div>
+                                <PredictionEvidence prediction={pred} biomarkers={analysisResult.biomarkers} documents={analysisResult.documents} />
                             </div>
                         )) : <p className="text-gray-500 dark:text-gray-400">No significant risks were detected.</p>}
                     </div>
+                    <RiskScoresCard />
                 </div>
 
                 {/* Right Side */}
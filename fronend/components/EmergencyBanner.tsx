@@ -0,0 +1,110 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { TriageResult, HospitalFinderResult } from '../types';
+import { findNearbyHospitals } from '../services/geminiService';
+import { HospitalIcon } from './icons/HospitalIcon';
+
+interface EmergencyBannerProps {
+  triage: TriageResult | null;
+  onOpenSos?: () => void;
+}
+
+type LookupState = 'idle' | 'searching' | 'done' | 'failed';
+
+// Shown by the chat and the symptom checker whenever the server triages a message as urgent or an
+// emergency. For emergencies the nearby-hospital lookup starts right away; otherwise it is one click.
+const EmergencyBanner: React.FC<EmergencyBannerProps> = ({ triage, onOpenSos }) => {
+  const [lookup, setLookup] = useState<LookupState>('idle');
+  const [hospitals, setHospitals] = useState<HospitalFinderResult | null>(null);
+  const [lookupError, setLookupError] = useState<string | null>(null);
+
+  const findHospitals = useCallback(() => {
+    setLookup('searching');
+    setHospitals(null);
+    setLookupError(null);
+    if (!navigator.geolocation) {
+      setLookup('failed');
+      setLookupError('Geolocation is not supported by your browser. Open the Hospitals page to search by place name.');
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(async (position) => {
+      try {
+        const { latitude, longitude } = position.coords;
+        setHospitals(await findNearbyHospitals({ lat: latitude, lon: longitude }));
+        setLookup('done');
+      } catch (err: any) {
+        setLookup('failed');
+        setLookupError('Nearby hospitals could not be found automatically. Open the Hospitals page to search by place name.');
+      }
+    }, () => {
+      setLookup('failed');
+      setLookupError('Location access was denied or is unavailable. Open the Hospitals page to search by place name.');
+    }, { timeout: 8000 });
+  }, []);
+
+  useEffect(() => {
+    setLookup('idle');
+    setHospitals(null);
+    setLookupError(null);
+    if (triage?.urgency === 'emergency') findHospitals();
+  }, [triage, findHospitals]);
+
+  if (!triage || triage.urgency === 'routine') return null;
+
+  const isEmergency = triage.urgency === 'emergency';
+  const colors = isEmergency
+    ? 'bg-red-50 dark:bg-red-900/20 border-red-500 text-red-800 dark:text-red-200'
+    : 'bg-amber-50 dark:bg-amber-900/20 border-amber-500 text-amber-800 dark:text-amber-200';
+
+  return (
+    <div className={`border-l-4 p-4 rounded-r-lg ${colors}`} role="alert">
+      <p className="font-bold">
+        {isEmergency ? 'This may be a medical emergency. Call an ambulance now.' : 'This should be seen by a doctor today.'}
+      </p>
+      {triage.reasons.length > 0 && (
+        <ul className="mt-2 text-sm list-disc ml-5 space-y-1">
+          {triage.reasons.map(reason => <li key={reason}>{reason}</li>)}
+        </ul>
+      )}
+      <div className="mt-3 flex flex-wrap gap-2">
+        {triage.emergencyNumbers.map(({ label, number }) => (
+          <a
+            key={number}
+            href={`tel:${number}`}
+            className={`px-4 py-2 rounded-lg font-semibold text-white ${isEmergency ? 'bg-red-600 hover:bg-red-700' : 'bg-amber-600 hover:bg-amber-700'}`}
+          >
+            {label} {number}
+          </a>
+        ))}
+        {onOpenSos && (
+          <button type="button" onClick={onOpenSos} className="inline-flex items-center px-4 py-2 rounded-lg font-semibold bg-white dark:bg-gray-900 border border-current">
+            Open SOS screen
+          </button>
+        )}
+        {lookup === 'idle' && (
+          <button type="button" onClick={findHospitals} className="inline-flex items-center px-4 py-2 rounded-lg font-semibold bg-white dark:bg-gray-900 border border-current">
+            <HospitalIcon className="w-4 h-4 mr-2" />
+            Find nearby hospitals
+          </button>
+        )}
+      </div>
+
+      {lookup === 'searching' && <p className="mt-3 text-sm">Searching for nearby hospitals... please allow location access if prompted.</p>}
+      {lookup === 'failed' && <p className="mt-3 text-sm">{lookupError}</p>}
+      {lookup === 'done' && hospitals && (
+        <div className="mt-3">
+          <p className="text-sm mb-2">{hospitals.summary}</p>
+          <div className="space-y-2">
+            {hospitals.hospitals.map((h, idx) => (
+              <a key={idx} href={h.uri} target="_blank" rel="noopener noreferrer" className="block p-3 bg-white dark:bg-black rounded-lg border border-gray-200 dark:border-gray-800 hover:border-red-500 dark:hover:border-red-500">
+                <p className="font-semibold text-red-600">{h.name}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">Click to view on map</p>
+              </a>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EmergencyBanner;
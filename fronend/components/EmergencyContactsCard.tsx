@@ -0,0 +1,140 @@
+import React, { useState, useEffect } from 'react';
+import { EmergencyContact, EmergencyContactInput } from '../types';
+import { getEmergencyContacts, saveEmergencyContact, deleteEmergencyContact } from '../services/geminiService';
+import { EditIcon } from './icons/EditIcon';
+import { SaveIcon } from './icons/SaveIcon';
+
+const emptyContact: EmergencyContactInput = { name: '', relationship: '', phone: '' };
+
+const inputClass = 'w-full p-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md text-md text-gray-900 dark:text-white';
+
+// The people the SOS screen offers to call, managed from the profile page
+const EmergencyContactsCard: React.FC = () => {
+  const [contacts, setContacts] = useState<EmergencyContact[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // null while no form is open; 'new' for the add form, otherwise the id of the contact being edited
+  const [editingId, setEditingId] = useState<number | 'new' | null>(null);
+  const [form, setForm] = useState<EmergencyContactInput>(emptyContact);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getEmergencyContacts()
+      .then(setContacts)
+      .catch((err: any) => setError(err.message || 'Failed to load emergency contacts.'))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const openForm = (contact?: EmergencyContact) => {
+    setEditingId(contact ? contact.id : 'new');
+    setForm(contact ? { name: contact.name, relationship: contact.relationship, phone: contact.phone } : emptyContact);
+    setError(null);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setForm(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    try {
+      const saved = await saveEmergencyContact(form, typeof editingId === 'number' ? editingId : undefined);
+      setContacts(prev => editingId === 'new' ? [...prev, saved] : prev.map(c => c.id === saved.id ? saved : c));
+      setEditingId(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save the emergency contact.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (contact: EmergencyContact) => {
+    if (!window.confirm(`Remove ${contact.name} from your emergency contacts?`)) return;
+    setError(null);
+    try {
+      await deleteEmergencyContact(contact.id);
+      setContacts(prev => prev.filter(c => c.id !== contact.id));
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete the emergency contact.');
+    }
+  };
+
+  const contactForm = (
+    <form onSubmit={handleSubmit} className="bg-gray-50 dark:bg-black p-4 rounded-lg grid grid-cols-1 sm:grid-cols-3 gap-3">
+      <label className="text-sm text-gray-500 dark:text-gray-400">
+        Name
+        <input name="name" required value={form.name} onChange={handleChange} className={inputClass} />
+      </label>
+      <label className="text-sm text-gray-500 dark:text-gray-400">
+        Relationship
+        <input name="relationship" value={form.relationship} onChange={handleChange} placeholder="e.g. Daughter" className={inputClass} />
+      </label>
+      <label className="text-sm text-gray-500 dark:text-gray-400">
+        Phone
+        <input name="phone" type="tel" required value={form.phone} onChange={handleChange} placeholder="e.g. +977 98XXXXXXXX" className={inputClass} />
+      </label>
+      <div className="sm:col-span-3 flex justify-end gap-2">
+        <button type="button" onClick={() => setEditingId(null)} className="px-3 py-1 text-sm bg-gray-200 dark:bg-gray-700 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600">
+          Cancel
+        </button>
+        <button type="submit" disabled={isSaving} className="flex items-center gap-1 px-3 py-1 text-sm bg-red-600 text-white rounded-md hover:bg-red-700 disabled:bg-gray-400">
+          <SaveIcon className="w-4 h-4" /> {isSaving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </form>
+  );
+
+  return (
+    <div className="bg-white dark:bg-gray-900 p-6 rounded-xl shadow-lg border border-gray-200 dark:border-gray-800">
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Emergency Contacts</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">Shown with one-tap call buttons on the SOS screen.</p>
+        </div>
+        {editingId === null && (
+          <button onClick={() => openForm()} className="px-3 py-1 text-sm bg-gray-200 dark:bg-gray-700 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600">
+            + Add contact
+          </button>
+        )}
+      </div>
+
+      {error && <p className="mb-3 text-sm text-red-600 dark:text-red-400">{error}</p>}
+      {editingId === 'new' && <div className="mb-3">{contactForm}</div>}
+
+      {isLoading ? (
+        <p className="text-gray-500 dark:text-gray-400">Loading contacts...</p>
+      ) : contacts.length === 0 && editingId !== 'new' ? (
+        <p className="text-gray-500 dark:text-gray-400">No emergency contacts yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {contacts.map(contact => editingId === contact.id ? (
+            <div key={contact.id}>{contactForm}</div>
+          ) : (
+            <div key={contact.id} className="flex flex-wrap items-center justify-between gap-2 p-3 bg-gray-50 dark:bg-black rounded-lg">
+              <div>
+                <p className="font-semibold text-gray-900 dark:text-white">
+                  {contact.name}
+                  {contact.relationship && <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">{contact.relationship}</span>}
+                </p>
+                <a href={`tel:${contact.phone}`} className="text-sm text-red-600 hover:underline">{contact.phone}</a>
+              </div>
+              <div className="flex items-center gap-2">
+                <button onClick={() => openForm(contact)} className="flex items-center gap-1 px-2 py-1 text-sm text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white" aria-label={`Edit ${contact.name}`}>
+                  <EditIcon className="w-4 h-4" /> Edit
+                </button>
+                <button onClick={() => handleDelete(contact)} className="px-2 py-1 text-sm text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400">
+                  Remove
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EmergencyContactsCard;
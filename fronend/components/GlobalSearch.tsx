@@ -0,0 +1,139 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { searchHistory } from '../services/geminiService';
+import { SearchResult, SearchResultKind } from '../types';
+
+interface GlobalSearchProps {
+  onSelect: (result: SearchResult) => void;
+  className?: string;
+}
+
+const KIND_LABELS: Record<SearchResultKind, string> = {
+  chat: 'Chat',
+  analysis: 'Analysis',
+  symptom_check: 'Symptoms',
+};
+
+// Wait for a pause in typing before searching
+const SEARCH_DELAY_MS = 250;
+
+// Searches chats, analyses and symptom checks as the user types; picking a result hands it to onSelect
+const GlobalSearch: React.FC<GlobalSearchProps> = ({ onSelect, className }) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const text = query.trim();
+    if (!text) {
+      setResults([]);
+      setError(null);
+      return;
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const found = await searchHistory(text, undefined, controller.signal);
+        setResults(found);
+        setHighlighted(0);
+        setError(null);
+      } catch (e: any) {
+        if (e?.name === 'AbortError') return;
+        setResults([]);
+        setError(e.message || 'Search failed.');
+      } finally {
+        if (!controller.signal.aborted) setIsSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  // Close the results when clicking anywhere else
+  useEffect(() => {
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, []);
+
+  const choose = (result: SearchResult) => {
+    onSelect(result);
+    setIsOpen(false);
+    setQuery('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      setIsOpen(false);
+    } else if (e.key === 'ArrowDown' && results.length) {
+      e.preventDefault();
+      setIsOpen(true);
+      setHighlighted(i => (i + 1) % results.length);
+    } else if (e.key === 'ArrowUp' && results.length) {
+      e.preventDefault();
+      setHighlighted(i => (i - 1 + results.length) % results.length);
+    } else if (e.key === 'Enter' && isOpen && results[highlighted]) {
+      e.preventDefault();
+      choose(results[highlighted]);
+    }
+  };
+
+  const showPanel = isOpen && query.trim() !== '';
+
+  return (
+    <div ref={containerRef} className={`relative ${className || ''}`}>
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => { setQuery(e.target.value); setIsOpen(true); }}
+        onFocus={() => setIsOpen(true)}
+        onKeyDown={handleKeyDown}
+        placeholder="Search chats, reports, symptoms"
+        maxLength={200}
+        aria-label="Search your health history"
+        className="w-full px-3 py-1.5 text-sm bg-gray-100 dark:bg-gray-900 border border-transparent focus:border-red-500 rounded-md text-gray-900 dark:text-white focus:outline-none"
+      />
+
+      {showPanel && (
+        <div className="absolute right-0 mt-1 w-full md:w-96 max-h-96 overflow-y-auto bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-md shadow-lg z-50">
+          {isSearching && results.length === 0 && <div className="px-3 py-2 text-sm text-gray-500">Searching...</div>}
+          {error && <div className="px-3 py-2 text-sm text-red-600">{error}</div>}
+          {!isSearching && !error && results.length === 0 && (
+            <div className="px-3 py-2 text-sm text-gray-500">No matches.</div>
+          )}
+          {results.map((result, index) => (
+            <button
+              key={`${result.kind}-${result.id}`}
+              onMouseDown={(e) => e.preventDefault()}
+              onMouseEnter={() => setHighlighted(index)}
+              onClick={() => choose(result)}
+              className={`w-full text-left px-3 py-2 border-b last:border-b-0 border-gray-100 dark:border-gray-800 ${index === highlighted ? 'bg-gray-100 dark:bg-gray-800' : ''}`}
+            >
+              <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+                <span className="font-semibold uppercase tracking-wide">{KIND_LABELS[result.kind]}</span>
+                <span>{new Date(result.created_at).toLocaleDateString()}</span>
+              </div>
+              <div className="text-sm font-medium text-gray-900 dark:text-white truncate">{result.title}</div>
+              <div className="text-xs text-gray-600 dark:text-gray-300 line-clamp-2">
+                {result.role === 'ai' && <span className="text-gray-400">Assistant: </span>}
+                {result.snippet.map((part, i) => part.match
+                  ? <mark key={i} className="bg-yellow-200 dark:bg-yellow-700 text-inherit rounded-sm">{part.text}</mark>
+                  : <span key={i}>{part.text}</span>)}
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GlobalSearch;
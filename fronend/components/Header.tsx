@@ -1,5 +1,6 @@
 import React from 'react';
-import { Page, User } from '../types';
+import { Page, User, SearchResult } from '../types';
+import GlobalSearch from './GlobalSearch';
 import { PulseIcon } from './icons/PulseIcon';
 import { ChartIcon } from './icons/ChartIcon';
 import { UploadIcon } from './icons/UploadIcon';
@@ -8,6 +9,8 @@ import { LogoutIcon } from './icons/LogoutIcon';
 import { UserIcon } from './icons/UserIcon';
 import { SymptomIcon } from './icons/SymptomsIcon';
 import { HospitalIcon } from './icons/HospitalIcon';
+import { EditIcon } from './icons/EditIcon';
+import { SosIcon } from './icons/SosIcon';
 
 
 interface HeaderProps {
@@ -15,6 +18,7 @@ interface HeaderProps {
   onNavigate: (page: Page) => void;
   user: User | null;
   onLogout: () => void;
+  onSearchSelect: (result: SearchResult) => void;
 }
 
 const NavItem: React.FC<{
@@ -41,7 +45,7 @@ const NavItem: React.FC<{
   );
 };
 
-const Header: React.FC<HeaderProps> = ({ currentPage, onNavigate, user, onLogout }) => {
+const Header: React.FC<HeaderProps> = ({ currentPage, onNavigate, user, onLogout, onSearchSelect }) => {
   const [isMenuOpen, setIsMenuOpen] = React.useState(false);
 
   const handleNav = (page: Page) => {
@@ -57,15 +61,19 @@ const Header: React.FC<HeaderProps> = ({ currentPage, onNavigate, user, onLogout
             <PulseIcon className="h-8 w-8 text-red-600" />
             <h1 className="text-xl font-bold text-gray-900 dark:text-white">Health Care AI</h1>
           </div>
+
+          {user && <GlobalSearch onSelect={onSearchSelect} className="hidden md:block flex-1 max-w-xs mx-4" />}
           
           {/* Desktop Navigation */}
           <nav className="hidden md:flex items-center space-x-1 lg:space-x-2">
             <NavItem page={Page.Dashboard} currentPage={currentPage} onNavigate={handleNav} icon={<ChartIcon className="h-5 w-5" />} label="Dashboard" />
             <NavItem page={Page.Input} currentPage={currentPage} onNavigate={handleNav} icon={<UploadIcon className="h-5 w-5" />} label="Analyze" />
+            <NavItem page={Page.ManualEntry} currentPage={currentPage} onNavigate={handleNav} icon={<EditIcon className="h-5 w-5" />} label="Enter Results" />
             <NavItem page={Page.SymptomPredictor} currentPage={currentPage} onNavigate={handleNav} icon={<SymptomIcon className="h-5 w-5" />} label="Symptoms" />
             <NavItem page={Page.HospitalFinder} currentPage={currentPage} onNavigate={handleNav} icon={<HospitalIcon className="h-5 w-5" />} label="Hospitals" />
             <NavItem page={Page.Profile} currentPage={currentPage} onNavigate={handleNav} icon={<UserIcon className="h-5 w-5" />} label="Profile" />
             <NavItem page={Page.Chat} currentPage={currentPage} onNavigate={handleNav} icon={<BotIcon className="h-5 w-5" />} label="Chat" />
+            <NavItem page={Page.Sos} currentPage={currentPage} onNavigate={handleNav} icon={<SosIcon className="h-5 w-5" />} label="SOS" />
             {user && (
               <button
                 onClick={onLogout}
@@ -94,12 +102,15 @@ const Header: React.FC<HeaderProps> = ({ currentPage, onNavigate, user, onLogout
       {isMenuOpen && (
         <div className="md:hidden">
           <nav className="px-2 pt-2 pb-3 space-y-1 sm:px-3 border-t border-gray-200 dark:border-gray-800">
+            {user && <GlobalSearch onSelect={(result) => { onSearchSelect(result); setIsMenuOpen(false); }} className="pb-2" />}
             <NavItem page={Page.Dashboard} currentPage={currentPage} onNavigate={handleNav} icon={<ChartIcon className="h-6 w-6" />} label="Dashboard" isMobile />
             <NavItem page={Page.Input} currentPage={currentPage} onNavigate={handleNav} icon={<UploadIcon className="h-6 w-6" />} label="Analyze Report" isMobile />
+            <NavItem page={Page.ManualEntry} currentPage={currentPage} onNavigate={handleNav} icon={<EditIcon className="h-6 w-6" />} label="Enter Lab Results" isMobile />
             <NavItem page={Page.SymptomPredictor} currentPage={currentPage} onNavigate={handleNav} icon={<SymptomIcon className="h-6 w-6" />} label="Symptom Checker" isMobile />
             <NavItem page={Page.HospitalFinder} currentPage={currentPage} onNavigate={handleNav} icon={<HospitalIcon className="h-6 w-6" />} label="Find Hospitals" isMobile />
             <NavItem page={Page.Profile} currentPage={currentPage} onNavigate={handleNav} icon={<UserIcon className="h-6 w-6" />} label="Profile" isMobile />
             <NavItem page={Page.Chat} currentPage={currentPage} onNavigate={handleNav} icon={<BotIcon className="h-6 w-6" />} label="AI Assistant" isMobile />
+            <NavItem page={Page.Sos} currentPage={currentPage} onNavigate={handleNav} icon={<SosIcon className="h-6 w-6" />} label="Emergency SOS" isMobile />
             {user && (
               <button
                 onClick={() => { onLogout(); setIsMenuOpen(false); }}
@@ -1,10 +1,12 @@
 // Implementing the HealthInputForm component.
-import React, { useState, useRef } from 'react';
-import { HealthReportAnalysis } from '../types';
-import { analyzeHealthReport } from '../services/geminiService';
+import React, { useState, useRef, useEffect } from 'react';
+import { HealthReportAnalysis, ReportDocument, ReportQuality } from '../types';
+import { analyzeHealthReport, uploadReportFile, ReportQualityError } from '../services/geminiService';
+import { extractPdfText, formatExtractedPages } from '../services/pdfTextExtractor';
+import { isSupportedImage, prepareImageAttachment } from '../services/imagePreparation';
 import { UploadIcon } from './icons/UploadIcon';
-import { FileIcon } from './icons/FileIcon';
-import { CloseIcon } from './icons/CloseIcon';
+import ReportDocumentCard, { DraftDocument } from './ReportDocumentCard';
+import ReportQualityNotice from './ReportQualityNotice';
 
 
 interface HealthInputFormProps {
@@ -13,150 +15,314 @@ interface HealthInputFormProps {
   setIsLoading: (isLoading: boolean) => void;
 }
 
+// Match the backend limits per analysis
+const MAX_DOCUMENTS = 10;
+const MAX_FILES = 10;
+
+let nextDocumentId = 1;
+
+const newDocument = (kind: DraftDocument['kind'], title: string, patch: Partial<DraftDocument> = {}): DraftDocument => ({
+  id: nextDocumentId++,
+  title,
+  kind,
+  text: '',
+  attachments: [],
+  status: null,
+  usedOcr: false,
+  ...patch,
+});
+
+const readAsBase64 = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(new Error('Failed to read the file.'));
+    reader.readAsDataURL(file);
+  });
+
+// What gets sent for a draft: reviewed text when there is any, otherwise the files themselves
+const toReportDocument = (document: DraftDocument): ReportDocument => {
+  const title = document.title.trim() || 'Untitled document';
+  if (document.kind === 'photos' || (document.kind === 'pdf' && !document.text.trim())) {
+    return { title, attachments: document.attachments };
+  }
+  return { title, reportText: document.text };
+};
+
+// PDFs sent as text are uploaded afterwards, one at a time. A failed upload only loses the stored original, not the analysis.
+const uploadOriginals = async (analysisId: number, documents: DraftDocument[]) => {
+  for (let index = 0; index < documents.length; index++) {
+    const { kind, file, text } = documents[index];
+    if (kind !== 'pdf' || !file || !text.trim()) continue;
+    try {
+      await uploadReportFile(analysisId, file, index + 1);
+    } catch (err) {
+      console.error('Storing the original PDF failed:', err);
+    }
+  }
+};
+
+const isEmptyDocument = (document: DraftDocument) =>
+  document.kind === 'photos' ? document.attachments.length === 0 : document.kind === 'text' && !document.text.trim();
+
 const HealthInputForm: React.FC<HealthInputFormProps> = ({
   onAnalysisComplete,
   onAnalysisError,
   setIsLoading,
 }) => {
-  const [reportText, setReportText] = useState('');
-  const [uploadedFile, setUploadedFile] = useState<{ name: string; data: string; mimeType: string } | null>(null);
+  // The bundle of documents analyzed together. It starts with one empty text document so pasting still works as before.
+  const [documents, setDocuments] = useState<DraftDocument[]>(() => [newDocument('text', 'Report')]);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isPreparingPhotos, setIsPreparingPhotos] = useState(false);
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+  const [isDropTarget, setIsDropTarget] = useState(false);
+  // Set when the last submission was rejected or flagged by the backend's quality check
+  const [quality, setQuality] = useState<ReportQuality | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // A warning only applies to the documents it was given for; "Analyze anyway" must not skip checking edits
+  useEffect(() => {
+    setQuality(null);
+  }, [documents]);
+
+  const updateDocument = (id: number, patch: Partial<DraftDocument>) => {
+    setDocuments(prev => prev.map(document => document.id === id ? { ...document, ...patch } : document));
+  };
+
+  // New documents replace the untouched starter text document instead of sitting below it
+  const addDocuments = (added: DraftDocument[]) => {
+    setDocuments(prev => {
+      const kept = prev.filter(document => !(document.kind === 'text' && !document.text.trim() && prev.length === 1));
+      return [...kept, ...added];
+    });
+  };
+
+  const handleFiles = (files: File[]) => {
+    if (files.length === 0) return;
+    const pdfs = files.filter(file => file.type === 'application/pdf');
+    const images = files.filter(file => file.type !== 'application/pdf');
+
+    if (!images.every(isSupportedImage)) {
+      onAnalysisError('Please upload PDFs or JPEG, PNG or HEIC photos.');
+      return;
+    }
+    if (documents.length + pdfs.length + (images.length > 0 ? 1 : 0) > MAX_DOCUMENTS) {
+      onAnalysisError(`You can analyze up to ${MAX_DOCUMENTS} documents together.`);
+      return;
+    }
+    onAnalysisError('');
+
+    // Each PDF is its own document; photos picked together are pages of one document
+    const pdfDocuments = pdfs.map(file => newDocument('pdf', file.name.replace(/\.pdf$/i, ''), { status: 'Reading PDF...' }));
+    addDocuments(pdfDocuments);
+    pdfDocuments.forEach((document, i) => handlePdf(document.id, pdfs[i]));
+    if (images.length > 0) {
+      handlePhotos(images);
+    }
+  };
+
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+    const files = Array.from(event.target.files || []);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+    handleFiles(files);
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDropTarget(false);
+    handleFiles(Array.from(event.dataTransfer.files));
+  };
 
-    if (file.type !== 'application/pdf') {
-        onAnalysisError('Please upload a valid PDF file.');
-        return;
+  const handlePhotos = async (files: File[]) => {
+    setIsPreparingPhotos(true);
+    try {
+      const attachments = [];
+      for (const file of files) {
+        attachments.push(await prepareImageAttachment(file));
+      }
+      addDocuments([newDocument('photos', files.length === 1 ? files[0].name.replace(/\.[^.]+$/, '') : 'Photographed report', { attachments })]);
+    } catch (err: any) {
+      onAnalysisError(err.message || 'Failed to read the photos.');
+    } finally {
+      setIsPreparingPhotos(false);
     }
-    
-    const reader = new FileReader();
-    reader.onload = (e) => {
-        setUploadedFile({
-            name: file.name,
-            data: e.target?.result as string, // This will be a data URL
-            mimeType: file.type,
+  };
+
+  const handlePdf = async (id: number, file: File) => {
+    try {
+      // The raw file is kept in case no text can be extracted
+      const data = await readAsBase64(file);
+      updateDocument(id, { file, attachments: [{ name: file.name, mimeType: file.type, data }] });
+      const pages = await extractPdfText(file, ({ pageNumber, totalPages, stage }) => {
+        updateDocument(id, {
+          status: stage === 'ocr'
+            ? `Page ${pageNumber} of ${totalPages} looks scanned, running OCR...`
+            : `Reading page ${pageNumber} of ${totalPages}...`,
         });
-        setReportText(''); // Clear text input when a file is uploaded
-        onAnalysisError(''); // Clear previous errors
-    };
-    reader.onerror = () => {
-        onAnalysisError('Failed to read the file.');
-    };
-    reader.readAsDataURL(file);
+      });
+      updateDocument(id, { text: formatExtractedPages(pages), usedOcr: pages.some(page => page.source === 'ocr') });
+    } catch (err) {
+      console.error('PDF text extraction failed:', err);
+    } finally {
+      updateDocument(id, { status: null });
+    }
+  };
 
-    if (fileInputRef.current) {
-        fileInputRef.current.value = '';
+  const handleAddText = () => {
+    if (documents.length >= MAX_DOCUMENTS) {
+      onAnalysisError(`You can analyze up to ${MAX_DOCUMENTS} documents together.`);
+      return;
     }
+    setDocuments(prev => [...prev, newDocument('text', `Document ${prev.length + 1}`)]);
   };
-  
-  const handleRemoveFile = () => {
-    setUploadedFile(null);
-  }
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!reportText.trim() && !uploadedFile) {
+  const handleRemove = (id: number) => {
+    setDocuments(prev => {
+      const remaining = prev.filter(document => document.id !== id);
+      return remaining.length > 0 ? remaining : [newDocument('text', 'Report')];
+    });
+  };
+
+  const moveDocument = (fromIndex: number, toIndex: number) => {
+    if (toIndex < 0 || toIndex >= documents.length || fromIndex === toIndex) return;
+    setDocuments(prev => {
+      const next = [...prev];
+      const [moved] = next.splice(fromIndex, 1);
+      next.splice(toIndex, 0, moved);
+      return next;
+    });
+  };
+
+  // Reorders live while dragging, so the list always shows where the card will land
+  const handleDragEnter = (targetId: number) => {
+    if (draggedId === null || draggedId === targetId) return;
+    const fromIndex = documents.findIndex(document => document.id === draggedId);
+    const toIndex = documents.findIndex(document => document.id === targetId);
+    moveDocument(fromIndex, toIndex);
+  };
+
+  const filledDocuments = documents.filter(document => !isEmptyDocument(document));
+  const isExtracting = documents.some(document => document.status);
+
+  const submitDocuments = async (acceptLowConfidence: boolean) => {
+    if (filledDocuments.length === 0) {
       onAnalysisError('Please upload a file or paste your health report before analyzing.');
       return;
     }
+    const payload = { documents: filledDocuments.map(toReportDocument), acceptLowConfidence };
+    const fileCount = payload.documents.reduce((sum, document) => sum + (document.attachments?.length || 0), 0);
+    if (fileCount > MAX_FILES) {
+      onAnalysisError(`At most ${MAX_FILES} files can be analyzed at once. Remove some photos or PDFs and try again.`);
+      return;
+    }
 
     setIsLoading(true);
     onAnalysisError('');
     setIsSubmitting(true);
+    setQuality(null);
     try {
-      const payload: { reportText?: string; fileData?: { data: string; mimeType: string } } = {};
-      if (uploadedFile) {
-        const base64Data = uploadedFile.data.split(',')[1];
-        payload.fileData = { data: base64Data, mimeType: uploadedFile.mimeType };
-      } else {
-        payload.reportText = reportText;
-      }
       const result = await analyzeHealthReport(payload);
+      if (result.id) {
+        await uploadOriginals(result.id, filledDocuments);
+      }
       onAnalysisComplete(result);
     } catch (err: any) {
-      onAnalysisError(err.message || 'An unexpected error occurred.');
+      if (err instanceof ReportQualityError) {
+        // Shown next to the documents so they can be fixed and resubmitted
+        setQuality(err.quality);
+      } else {
+        onAnalysisError(err.message || 'An unexpected error occurred.');
+      }
     } finally {
       setIsLoading(false);
       setIsSubmitting(false);
     }
   };
 
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submitDocuments(false);
+  };
+
   return (
     <div className="max-w-4xl mx-auto">
       <div className="text-center mb-8">
         <h2 className="text-3xl sm:text-4xl font-extrabold text-gray-900 dark:text-white">Analyze Your Health Report</h2>
         <p className="mt-2 text-lg text-gray-600 dark:text-gray-300">
-          Upload a PDF or paste your medical report text below for an AI-powered analysis.
+          Add one or more documents from your checkup: PDFs, photos of paper reports, or pasted text. They are analyzed together.
         </p>
         <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
           Note: This tool is a prototype and does not replace professional medical advice.
         </p>
       </div>
-      
+
       <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-900 p-6 sm:p-8 rounded-xl shadow-lg border border-gray-200 dark:border-gray-800">
-        
-        {uploadedFile ? (
-            <div className="mb-6">
-                <label className="block text-lg font-medium text-gray-700 dark:text-gray-200 mb-2">
-                    Uploaded PDF Report
-                </label>
-                <div className="mt-2 flex items-center justify-between p-4 bg-gray-50 dark:bg-black rounded-lg border border-gray-300 dark:border-gray-700">
-                    <div className="flex items-center gap-3 overflow-hidden">
-                        <FileIcon className="h-6 w-6 text-red-500 flex-shrink-0" />
-                        <span className="font-medium text-gray-700 dark:text-gray-200 truncate" title={uploadedFile.name}>
-                            {uploadedFile.name}
-                        </span>
+        <div className="mb-6">
+            <label htmlFor="report-upload" className="block text-lg font-medium text-gray-700 dark:text-gray-200 mb-2">
+                Upload PDFs or Photos
+            </label>
+            <div
+                className={`mt-1 flex justify-center px-6 pt-5 pb-6 border-2 border-dashed rounded-md cursor-pointer hover:border-red-500 dark:hover:border-red-500 transition-colors ${isDropTarget ? 'border-red-500' : 'border-gray-300 dark:border-gray-700'}`}
+                onClick={() => fileInputRef.current?.click()}
+                onDragOver={(e) => { if (draggedId === null) { e.preventDefault(); setIsDropTarget(true); } }}
+                onDragLeave={() => setIsDropTarget(false)}
+                onDrop={handleDrop}
+                >
+                <div className="space-y-1 text-center">
+                    <UploadIcon className="mx-auto h-12 w-12 text-gray-400" />
+                    <div className="flex text-sm text-gray-600 dark:text-gray-400">
+                        <p className="pl-1">{isPreparingPhotos ? 'Preparing photos...' : 'Click or drop files to add documents'}</p>
                     </div>
-                    <button type="button" onClick={handleRemoveFile} className="text-gray-400 hover:text-red-500 ml-4">
-                        <CloseIcon className="h-5 w-5" />
-                    </button>
+                    <p className="text-xs text-gray-500 dark:text-gray-500">Each PDF becomes a document; photos selected together become one document</p>
+                    <input ref={fileInputRef} id="report-upload" name="report-upload" type="file" multiple className="sr-only" onChange={handleFileChange} accept=".pdf,image/jpeg,image/png,image/webp,.heic,.heif"/>
                 </div>
             </div>
-        ) : (
-            <>
-                <div className="mb-6">
-                    <label htmlFor="report-upload" className="block text-lg font-medium text-gray-700 dark:text-gray-200 mb-2">
-                        Upload PDF Report
-                    </label>
-                    <div 
-                        className="mt-1 flex justify-center px-6 pt-5 pb-6 border-2 border-gray-300 dark:border-gray-700 border-dashed rounded-md cursor-pointer hover:border-red-500 dark:hover:border-red-500 transition-colors"
-                        onClick={() => fileInputRef.current?.click()}
-                        >
-                        <div className="space-y-1 text-center">
-                            <UploadIcon className="mx-auto h-12 w-12 text-gray-400" />
-                            <div className="flex text-sm text-gray-600 dark:text-gray-400">
-                                <p className="pl-1">Click to upload a report</p>
-                            </div>
-                            <p className="text-xs text-gray-500 dark:text-gray-500">Only PDF files are supported</p>
-                            <input ref={fileInputRef} id="report-upload" name="report-upload" type="file" className="sr-only" onChange={handleFileChange} accept=".pdf"/>
-                        </div>
-                    </div>
-                </div>
-                
-                <div className="mb-6">
-                    <label htmlFor="report-text" className="block text-lg font-medium text-gray-700 dark:text-gray-200 mb-2">
-                        Or Paste Your Report Text
-                    </label>
-                    <textarea
-                        id="report-text"
-                        rows={15}
-                        value={reportText}
-                        onChange={(e) => setReportText(e.target.value)}
-                        className="w-full p-4 bg-gray-50 dark:bg-black border border-gray-300 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 transition-colors duration-200 text-sm"
-                        placeholder="You can paste your report directly here..."
+        </div>
+
+        <div className="mb-6">
+            <div className="flex items-center justify-between mb-2">
+                <p className="block text-lg font-medium text-gray-700 dark:text-gray-200">
+                    Documents ({filledDocuments.length})
+                </p>
+                <button type="button" onClick={handleAddText} className="px-3 py-1 text-sm bg-gray-200 dark:bg-gray-700 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600">
+                    + Paste text
+                </button>
+            </div>
+            {documents.length > 1 && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">Drag the handle or use the arrows to reorder. Put the most recent results first.</p>
+            )}
+            <div className="space-y-3">
+                {documents.map((document, index) => (
+                    <ReportDocumentCard
+                        key={document.id}
+                        document={document}
+                        index={index}
+                        total={documents.length}
+                        isDragging={draggedId === document.id}
+                        onChange={(patch) => updateDocument(document.id, patch)}
+                        onRemove={() => handleRemove(document.id)}
+                        onMove={(toIndex) => moveDocument(index, toIndex)}
+                        onDragStart={() => setDraggedId(document.id)}
+                        onDragEnter={() => handleDragEnter(document.id)}
+                        onDragEnd={() => setDraggedId(null)}
                     />
-                </div>
-            </>
+                ))}
+            </div>
+        </div>
+
+        {quality && (
+          <div className="mb-6">
+            <ReportQualityNotice quality={quality} onProceed={() => submitDocuments(true)} />
+          </div>
         )}
 
         <div className="text-center">
           <button
             type="submit"
             className="inline-flex items-center justify-center px-8 py-3 bg-red-600 text-white font-semibold rounded-lg shadow-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-opacity-75 transition-transform transform hover:scale-105 disabled:bg-gray-400 disabled:cursor-not-allowed"
-            disabled={(!reportText.trim() && !uploadedFile) || isSubmitting}
+            disabled={filledDocuments.length === 0 || isSubmitting || isExtracting || isPreparingPhotos}
           >
             {isSubmitting ? (
               <>
@@ -169,7 +335,7 @@ const HealthInputForm: React.FC<HealthInputFormProps> = ({
             ) : (
               <>
                 <UploadIcon className="h-5 w-5 mr-2" />
-                Analyze Report
+                {filledDocuments.length > 1 ? `Analyze ${filledDocuments.length} Documents` : 'Analyze Report'}
               </>
             )}
           </button>
@@ -179,4 +345,4 @@ const HealthInputForm: React.FC<HealthInputFormProps> = ({
   );
 };
 
-export default HealthInputForm;
\ No newline at end of file
+export default HealthInputForm;
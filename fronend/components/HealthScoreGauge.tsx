@@ -1,64 +1,103 @@
 
 import React from 'react';
 import { RadialBarChart, RadialBar, ResponsiveContainer, PolarAngleAxis } from 'recharts';
+import { ScoreBreakdown } from '../types';
 
 interface HealthScoreGaugeProps {
-  score: number;
+  // The AI's healthScore; null for manually entered results that weren't analyzed
+  score: number | null;
+  // When it has an overall rule-based score, the gauge shows that instead and the AI score becomes a note
+  breakdown?: ScoreBreakdown | null;
 }
 
-const HealthScoreGauge: React.FC<HealthScoreGaugeProps> = ({ score }) => {
+const getColor = (value: number) => {
+  if (value >= 80) return '#10B981'; // Green
+  if (value >= 50) return '#F59E0B'; // Yellow
+  return '#EF4444'; // Red
+};
+
+const HealthScoreGauge: React.FC<HealthScoreGaugeProps> = ({ score: aiScore, breakdown }) => {
+  const hasRuleScore = !!breakdown && breakdown.overall !== null;
+  const score = hasRuleScore ? breakdown.overall as number : aiScore;
+
+  if (score === null) {
+    return <p className="text-center text-gray-500 dark:text-gray-400">Not enough recognised lab values to calculate a score.</p>;
+  }
   const data = [{ name: 'Health Score', value: score }];
-  
-  const getColor = (value: number) => {
-    if (value >= 80) return '#10B981'; // Green
-    if (value >= 50) return '#F59E0B'; // Yellow
-    return '#EF4444'; // Red
-  };
 
   return (
-    <div style={{ width: '100%', height: 250 }}>
-      <ResponsiveContainer>
-        <RadialBarChart
-          innerRadius="70%"
-          outerRadius="100%"
-          data={data}
-          startAngle={180}
-          endAngle={0}
-          barSize={30}
-        >
-          <PolarAngleAxis
-            type="number"
-            domain={[0, 100]}
-            angleAxisId={0}
-            tick={false}
-          />
-          <RadialBar
-            background
-            dataKey="value"
-            angleAxisId={0}
-            fill={getColor(score)}
-            cornerRadius={15}
-          />
-          <text
-            x="50%"
-            y="55%"
-            textAnchor="middle"
-            dominantBaseline="middle"
-            className="text-5xl font-bold fill-current text-gray-900 dark:text-white"
-          >
-            {score}
-          </text>
-          <text
-            x="50%"
-            y="70%"
-            textAnchor="middle"
-            dominantBaseline="middle"
-            className="text-lg font-medium fill-current text-gray-500 dark:text-gray-400"
+    <div className="w-full">
+      <div style={{ width: '100%', height: 250 }}>
+        <ResponsiveContainer>
+          <RadialBarChart
+            innerRadius="70%"
+            outerRadius="100%"
+            data={data}
+            startAngle={180}
+            endAngle={0}
+            barSize={30}
           >
-            / 100
-          </text>
-        </RadialBarChart>
-      </ResponsiveContainer>
+            <PolarAngleAxis
+              type="number"
+              domain={[0, 100]}
+              angleAxisId={0}
+              tick={false}
+            />
+            <RadialBar
+              background
+              dataKey="value"
+              angleAxisId={0}
+              fill={getColor(score)}
+              cornerRadius={15}
+            />
+            <text
+              x="50%"
+              y="55%"
+              textAnchor="middle"
+              dominantBaseline="middle"
+              className="text-5xl font-bold fill-current text-gray-900 dark:text-white"
+            >
+              {score}
+            </text>
+            <text
+              x="50%"
+              y="70%"
+              textAnchor="middle"
+              dominantBaseline="middle"
+              className="text-lg font-medium fill-current text-gray-500 dark:text-gray-400"
+            >
+              / 100
+            </text>
+          </RadialBarChart>
+        </ResponsiveContainer>
+      </div>
+      {hasRuleScore && (
+        <div className="-mt-8 space-y-2">
+          {aiScore !== null && <p className="text-center text-sm text-gray-500 dark:text-gray-400">AI estimate: {aiScore} / 100</p>}
+          {breakdown.categories.map(category => (
+            <details key={category.key} className="text-sm">
+              <summary className={`flex items-center gap-2 ${category.factors.length > 0 ? 'cursor-pointer' : 'list-none'}`}>
+                <span className="w-24 flex-shrink-0 text-gray-700 dark:text-gray-200">{category.label}</span>
+                <span className="flex-1 bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                  {category.score !== null && (
+                    <span className="block h-2 rounded-full" style={{ width: `${category.score}%`, backgroundColor: getColor(category.score) }}></span>
+                  )}
+                </span>
+                <span className="w-8 text-right font-semibold text-gray-900 dark:text-white">{category.score ?? '—'}</span>
+              </summary>
+              {category.factors.length > 0 && (
+                <ul className="mt-1 mb-2 ml-4 space-y-0.5 text-xs text-gray-600 dark:text-gray-400">
+                  {category.factors.map(factor => (
+                    <li key={factor.name}>
+                      <span className="font-medium">{factor.name}</span> {factor.value} {factor.unit}: {factor.reason} ({factor.score})
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </details>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
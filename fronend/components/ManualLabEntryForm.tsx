@@ -0,0 +1,171 @@
+import React, { useState, useEffect } from 'react';
+import { HealthReportAnalysis, LabTestOption, ManualLabResult } from '../types';
+import { getLabTests, saveLabResults } from '../services/geminiService';
+import { SaveIcon } from './icons/SaveIcon';
+
+interface ManualLabEntryFormProps {
+  onSaved: (result: HealthReportAnalysis) => void;
+}
+
+interface DraftResult {
+  id: number;
+  name: string;
+  value: string;
+  unit: string;
+  referenceLow: string;
+  referenceHigh: string;
+}
+
+let nextResultId = 1;
+
+const newResult = (): DraftResult => ({ id: nextResultId++, name: '', value: '', unit: '', referenceLow: '', referenceHigh: '' });
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// Matches a typed test name against the picker's tests by name or alias, ignoring case and punctuation
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+const findTest = (tests: LabTestOption[], name: string) => {
+  const key = normalizeName(name);
+  return key ? tests.find(test => normalizeName(test.name) === key || test.aliases.some(alias => normalizeName(alias) === key)) : undefined;
+};
+
+const toNumber = (value: string) => (value.trim() === '' ? null : Number(value));
+
+const inputClass = 'w-full p-2 bg-gray-50 dark:bg-black border border-gray-300 dark:border-gray-700 rounded-md text-sm text-gray-900 dark:text-white';
+
+// For results that arrive without a report to upload (read out over the phone, shown on a portal),
+// and for backfilling older results into the trend charts. They are stored as an analysis of their own.
+const ManualLabEntryForm: React.FC<ManualLabEntryFormProps> = ({ onSaved }) => {
+  const [tests, setTests] = useState<LabTestOption[]>([]);
+  const [results, setResults] = useState<DraftResult[]>(() => [newResult()]);
+  const [measuredOn, setMeasuredOn] = useState(today);
+  const [analyze, setAnalyze] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Without the list the form still works; tests just aren't suggested
+    getLabTests().then(setTests).catch(() => setTests([]));
+  }, []);
+
+  const updateResult = (id: number, patch: Partial<DraftResult>) => {
+    setResults(prev => prev.map(result => result.id === id ? { ...result, ...patch } : result));
+  };
+
+  // Picking a known test fills in its standard unit unless one was already typed
+  const handleNameChange = (result: DraftResult, name: string) => {
+    const test = findTest(tests, name);
+    updateResult(result.id, { name, unit: result.unit || (test ? test.units[0] : '') });
+  };
+
+  const filledResults = results.filter(result => result.name.trim() && result.value.trim());
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (filledResults.length === 0) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const payload: ManualLabResult[] = filledResults.map(result => ({
+        name: result.name.trim(),
+        value: Number(result.value),
+        unit: result.unit.trim(),
+        referenceLow: toNumber(result.referenceLow),
+        referenceHigh: toNumber(result.referenceHigh),
+      }));
+      onSaved(await saveLabResults({ results: payload, measuredOn, analyze }));
+    } catch (err: any) {
+      setError(err.message || 'Failed to save lab results.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="text-center mb-8">
+        <h2 className="text-3xl sm:text-4xl font-extrabold text-gray-900 dark:text-white">Enter Lab Results</h2>
+        <p className="mt-2 text-lg text-gray-600 dark:text-gray-300">
+          Type in results you don't have a report for, or add older results to your trends.
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-900 p-6 sm:p-8 rounded-xl shadow-lg border border-gray-200 dark:border-gray-800 space-y-6">
+        <label className="block max-w-xs">
+          <span className="block text-lg font-medium text-gray-700 dark:text-gray-200 mb-2">Test date</span>
+          <input type="date" required value={measuredOn} max={today()} onChange={(e) => setMeasuredOn(e.target.value)} className={inputClass} />
+        </label>
+
+        <div>
+          <p className="block text-lg font-medium text-gray-700 dark:text-gray-200 mb-2">Results</p>
+          <datalist id="lab-test-options">
+            {tests.map(test => <option key={test.name} value={test.name}>{test.aliases.slice(0, 3).join(', ')}</option>)}
+          </datalist>
+          <div className="space-y-3">
+            {results.map(result => {
+              const test = findTest(tests, result.name);
+              return (
+                <div key={result.id} className="grid grid-cols-2 sm:grid-cols-12 gap-2 items-end p-3 bg-gray-50 dark:bg-black rounded-lg">
+                  <label className="col-span-2 sm:col-span-4 text-xs text-gray-500 dark:text-gray-400">
+                    Test
+                    <input list="lab-test-options" value={result.name} onChange={(e) => handleNameChange(result, e.target.value)} placeholder="e.g. HbA1c" className={inputClass} />
+                  </label>
+                  <label className="sm:col-span-2 text-xs text-gray-500 dark:text-gray-400">
+                    Value
+                    <input type="number" step="any" value={result.value} onChange={(e) => updateResult(result.id, { value: e.target.value })} className={inputClass} />
+                  </label>
+                  <label className="sm:col-span-2 text-xs text-gray-500 dark:text-gray-400">
+                    Unit
+                    <input list={`lab-units-${result.id}`} value={result.unit} onChange={(e) => updateResult(result.id, { unit: e.target.value })} className={inputClass} />
+                    <datalist id={`lab-units-${result.id}`}>
+                      {(test ? test.units : []).map(unit => <option key={unit} value={unit} />)}
+                    </datalist>
+                  </label>
+                  <label className="sm:col-span-3 text-xs text-gray-500 dark:text-gray-400" title="As printed by the lab. Left empty, a standard range for your age and sex is used for known tests.">
+                    Range (optional)
+                    <span className="flex items-center gap-1">
+                      <input type="number" step="any" aria-label="Lower limit" value={result.referenceLow} onChange={(e) => updateResult(result.id, { referenceLow: e.target.value })} className={inputClass} />
+                      <span>–</span>
+                      <input type="number" step="any" aria-label="Upper limit" value={result.referenceHigh} onChange={(e) => updateResult(result.id, { referenceHigh: e.target.value })} className={inputClass} />
+                    </span>
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => setResults(prev => prev.length > 1 ? prev.filter(r => r.id !== result.id) : [newResult()])}
+                    className="sm:col-span-1 px-2 py-2 text-sm text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400"
+                    aria-label="Remove result"
+                  >
+                    Remove
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+          <button type="button" onClick={() => setResults(prev => [...prev, newResult()])} className="mt-3 px-3 py-1 text-sm bg-gray-200 dark:bg-gray-700 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600">
+            + Add result
+          </button>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+          <input type="checkbox" checked={analyze} onChange={(e) => setAnalyze(e.target.checked)} className="h-4 w-4" />
+          Also get an AI summary, potential risks and recommendations for these results
+        </label>
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+        <div className="text-center">
+          <button
+            type="submit"
+            className="inline-flex items-center justify-center px-8 py-3 bg-red-600 text-white font-semibold rounded-lg shadow-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-opacity-75 disabled:bg-gray-400 disabled:cursor-not-allowed"
+            disabled={filledResults.length === 0 || isSaving}
+          >
+            <SaveIcon className="h-5 w-5 mr-2" />
+            {isSaving ? (analyze ? 'Analyzing...' : 'Saving...') : `Save ${filledResults.length === 1 ? '1 Result' : `${filledResults.length} Results`}`}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ManualLabEntryForm;
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { Prediction, Biomarker, AnalyzedDocument } from '../types';
+
+interface PredictionEvidenceProps {
+  prediction: Prediction;
+  biomarkers?: Biomarker[];
+  documents?: AnalyzedDocument[];
+}
+
+const FLAG_COLORS: Record<Biomarker['flag'], string> = {
+  high: 'text-red-600 dark:text-red-400',
+  low: 'text-yellow-600 dark:text-yellow-400',
+  normal: 'text-green-600 dark:text-green-400',
+};
+
+// Expandable "Why?" section listing the report findings behind a prediction.
+const PredictionEvidence: React.FC<PredictionEvidenceProps> = ({ prediction, biomarkers = [], documents = [] }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const evidence = prediction.evidence || [];
+
+  if (!prediction.rationale && evidence.length === 0) {
+    return null;
+  }
+
+  const documentTitle = (number: number | null) =>
+    documents.length > 1 && number ? documents.find(d => d.number === number)?.title || `Document ${number}` : null;
+
+  return (
+    <div className="mt-2">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        className="text-xs font-semibold text-red-600 dark:text-red-400 hover:underline"
+      >
+        {isOpen ? 'Hide explanation' : 'Why?'}
+      </button>
+      {isOpen && (
+        <div className="mt-2 space-y-2 text-sm">
+          {prediction.rationale && <p className="text-gray-600 dark:text-gray-300">{prediction.rationale}</p>}
+          {evidence.length > 0 && (
+            <ul className="space-y-1">
+              {evidence.map((item, index) => {
+                const source = documentTitle(item.documentNumber);
+                if (item.type === 'biomarker') {
+                  const marker = biomarkers.find(b => b.name.toLowerCase() === item.text.toLowerCase());
+                  return (
+                    <li key={index} className="flex flex-wrap items-baseline gap-x-2 text-gray-700 dark:text-gray-200">
+                      <span className="font-medium">{item.text}</span>
+                      {marker && (
+                        <span className={FLAG_COLORS[marker.flag] || FLAG_COLORS.normal}>
+                          {marker.value} {marker.unit}{marker.referenceRange ? ` (ref. ${marker.referenceRange})` : ''}
+                        </span>
+                      )}
+                      {source && <span className="text-xs text-gray-500 dark:text-gray-400">{source}</span>}
+                    </li>
+                  );
+                }
+                return (
+                  <li key={index}>
+                    <blockquote className="border-l-2 border-gray-300 dark:border-gray-600 pl-3 italic text-gray-600 dark:text-gray-400">
+                      &ldquo;{item.text}&rdquo;
+                    </blockquote>
+                    {source && <span className="ml-3 text-xs text-gray-500 dark:text-gray-400">{source}</span>}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PredictionEvidence;
@@ -1,30 +1,78 @@
 import React, { useState, useEffect } from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import { getUserProfile, updateUserProfile } from '../services/geminiService';
-import { ProfileData, User } from '../types';
+import { getUserProfile, updateUserProfile, getAnalyses, getReportFile, getReportFiles, getSymptomOptions } from '../services/geminiService';
+import { ProfileData, User, AnalysisHistoryItem, ReportFile, Sex, UnitPreference, SymptomOptions } from '../types';
 import { UserIcon } from './icons/UserIcon';
 import { ChartIcon } from './icons/ChartIcon';
 import { EditIcon } from './icons/EditIcon';
 import { SaveIcon } from './icons/SaveIcon';
+import { FileIcon } from './icons/FileIcon';
+import BiomarkerExplorer from './BiomarkerExplorer';
+import EmergencyContactsCard from './EmergencyContactsCard';
+import SymptomCheckHistory from './SymptomCheckHistory';
+import SymptomDiaryCard from './SymptomDiaryCard';
+import StructuredSymptomList from './StructuredSymptomList';
 
 
 interface ProfileProps {
     user: User | null;
     onProfileUpdate: (user: User) => void;
+    onViewAnalysis: (id: number) => void;
+    onCompareAnalyses: (ids: [number, number]) => void;
 }
 
+const HISTORY_PAGE_SIZE = 10;
 
-const Profile: React.FC<ProfileProps> = ({ user: initialUser, onProfileUpdate }) => {
+const SEX_LABELS: Record<Sex, string> = { male: 'Male', female: 'Female' };
+const UNIT_PREFERENCE_LABELS: Record<UnitPreference, string> = {
+    conventional: 'Conventional (mg/dL)',
+    si: 'SI (mmol/L)',
+};
+
+const formDataFromUser = (user: User) => ({
+    medical_conditions: user.medical_conditions || '',
+    symptoms: user.symptoms || '',
+    structured_symptoms: user.structured_symptoms || [],
+    medications: user.medications || '',
+    allergies: user.allergies || '',
+    sex: user.sex || '',
+    height: user.height ? String(user.height) : '',
+    unit_preference: user.unit_preference || 'conventional',
+});
+
+
+const Profile: React.FC<ProfileProps> = ({ user: initialUser, onProfileUpdate, onViewAnalysis, onCompareAnalyses }) => {
     const [profileData, setProfileData] = useState<ProfileData | null>(null);
     const [isLoading, setIsLoading] = useState<boolean>(true);
     const [error, setError] = useState<string | null>(null);
     
     const [isEditing, setIsEditing] = useState(false);
     const [isSaving, setIsSaving] = useState(false);
-    const [formData, setFormData] = useState({
-        medical_conditions: '',
-        symptoms: ''
-    });
+    const [formData, setFormData] = useState(() => formDataFromUser({} as User));
+    const [symptomOptions, setSymptomOptions] = useState<SymptomOptions | null>(null);
+
+    const [history, setHistory] = useState<AnalysisHistoryItem[]>([]);
+    const [historyPage, setHistoryPage] = useState(1);
+    const [hasMoreHistory, setHasMoreHistory] = useState(false);
+    const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+    const [isComparing, setIsComparing] = useState(false);
+    const [compareSelection, setCompareSelection] = useState<number[]>([]);
+    // File lists for history items with several uploaded photos, keyed by analysis id
+    const [expandedFiles, setExpandedFiles] = useState<Record<number, ReportFile[]>>({});
+
+    const loadHistory = async (page: number) => {
+        setIsLoadingHistory(true);
+        try {
+            const data = await getAnalyses(page, HISTORY_PAGE_SIZE);
+            setHistory(prev => page === 1 ? data.analyses : [...prev, ...data.analyses]);
+            setHistoryPage(page);
+            setHasMoreHistory(data.hasMore);
+        } catch (err: any) {
+            setError(err.message || 'Failed to load analysis history.');
+        } finally {
+            setIsLoadingHistory(false);
+        }
+    };
 
     useEffect(() => {
         const fetchProfile = async () => {
@@ -32,10 +80,7 @@ const Profile: React.FC<ProfileProps> = ({ user: initialUser, onProfileUpdate })
             try {
                 const data = await getUserProfile();
                 setProfileData(data);
-                setFormData({
-                    medical_conditions: data.user.medical_conditions || '',
-                    symptoms: data.user.symptoms || ''
-                });
+                setFormData(formDataFromUser(data.user));
             } catch (err: any) {
                 setError(err.message || 'Failed to load profile.');
             } finally {
@@ -44,20 +89,61 @@ const Profile: React.FC<ProfileProps> = ({ user: initialUser, onProfileUpdate })
         };
 
         fetchProfile();
+        loadHistory(1);
+        // Only needed for the labels of body map symptoms
+        getSymptomOptions().then(setSymptomOptions).catch(() => setSymptomOptions(null));
     }, []);
 
+    const handleHistoryClick = (id: number) => {
+        if (!isComparing) {
+            onViewAnalysis(id);
+            return;
+        }
+        // Keep at most two selected; picking a third replaces the oldest pick
+        setCompareSelection(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id].slice(-2));
+    };
+
+    const handleViewOriginal = async (id: number, fileId?: number) => {
+        // Open the tab synchronously so popup blockers allow it, then point it at the file
+        const tab = window.open('', '_blank');
+        try {
+            const blob = await getReportFile(id, fileId);
+            const url = URL.createObjectURL(blob);
+            if (tab) tab.location.href = url;
+            else window.location.href = url;
+        } catch (err: any) {
+            tab?.close();
+            setError(err.message || 'Failed to open the original report.');
+        }
+    };
+
+    const handleToggleFiles = async (id: number) => {
+        if (expandedFiles[id]) {
+            setExpandedFiles(({ [id]: _, ...rest }) => rest);
+            return;
+        }
+        try {
+            const files = await getReportFiles(id);
+            setExpandedFiles(prev => ({ ...prev, [id]: files }));
+        } catch (err: any) {
+            setError(err.message || 'Failed to load the original files.');
+        }
+    };
+
+    const handleCompareToggle = () => {
+        setIsComparing(!isComparing);
+        setCompareSelection([]);
+    };
+
     const handleEditToggle = () => {
         setIsEditing(!isEditing);
         // Reset form data if canceling edit
         if (isEditing && profileData) {
-            setFormData({
-                medical_conditions: profileData.user.medical_conditions || '',
-                symptoms: profileData.user.symptoms || ''
-            });
+            setFormData(formDataFromUser(profileData.user));
         }
     };
 
-    const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement | HTMLInputElement | HTMLSelectElement>) => {
         const { name, value } = e.target;
         setFormData(prev => ({ ...prev, [name]: value }));
     };
@@ -66,7 +152,12 @@ const Profile: React.FC<ProfileProps> = ({ user: initialUser, onProfileUpdate })
         if (!profileData) return;
         setIsSaving(true);
         try {
-            const updatedUser = await updateUserProfile(formData);
+            const updatedUser = await updateUserProfile({
+                ...formData,
+                sex: (formData.sex || null) as Sex | null,
+                height: formData.height ? Number(formData.height) : null,
+                unit_preference: formData.unit_preference as UnitPreference,
+            });
             
             // Update local state
             setProfileData(prev => prev ? { ...prev, user: { ...prev.user, ...updatedUser }} : null);
@@ -106,10 +197,12 @@ const Profile: React.FC<ProfileProps> = ({ user: initialUser, onProfileUpdate })
     }
     
     const { user, analyses } = profileData;
+    const structuredSymptoms = isEditing ? formData.structured_symptoms : user.structured_symptoms || [];
 
     const chartData = analyses.map(item => ({
         date: new Date(item.created_at).toLocaleDateString(),
-        healthScore: item.health_score
+        healthScore: item.health_score,
+        ruleScore: item.rule_score
     })).reverse(); // a more natural progression from left to right
 
     const InfoCard: React.FC<{ label: string; value: string | number | undefined }> = ({ label, value }) => (
@@ -147,6 +240,33 @@ const Profile: React.FC<ProfileProps> = ({ user: initialUser, onProfileUpdate })
 
                     <InfoCard label="Age" value={user.age} />
                     <InfoCard label="Weight" value={user.weight ? `${user.weight} kg` : undefined} />
+                    {isEditing ? (
+                        <div className="bg-gray-50 dark:bg-black p-4 rounded-lg grid grid-cols-2 gap-3">
+                            <label className="text-sm text-gray-500 dark:text-gray-400">
+                                Sex
+                                <select name="sex" value={formData.sex} onChange={handleInputChange} className="w-full p-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md text-md text-gray-900 dark:text-white">
+                                    <option value="">Not specified</option>
+                                    {Object.entries(SEX_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                                </select>
+                            </label>
+                            <label className="text-sm text-gray-500 dark:text-gray-400">
+                                Height (cm)
+                                <input name="height" type="number" min="0" step="0.1" value={formData.height} onChange={handleInputChange} className="w-full p-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md text-md text-gray-900 dark:text-white" />
+                            </label>
+                            <label className="col-span-2 text-sm text-gray-500 dark:text-gray-400">
+                                Show lab values in
+                                <select name="unit_preference" value={formData.unit_preference} onChange={handleInputChange} className="w-full p-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md text-md text-gray-900 dark:text-white">
+                                    {Object.entries(UNIT_PREFERENCE_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                                </select>
+                            </label>
+                        </div>
+                    ) : (
+                        <>
+                            <InfoCard label="Sex" value={user.sex ? SEX_LABELS[user.sex] : undefined} />
+                            <InfoCard label="Height" value={user.height ? `${user.height} cm` : undefined} />
+                            <InfoCard label="Lab units" value={UNIT_PREFERENCE_LABELS[user.unit_preference || 'conventional']} />
+                        </>
+                    )}
                     
                     <div className="bg-gray-50 dark:bg-black p-4 rounded-lg">
                         <p className="text-sm text-gray-500 dark:text-gray-400 mb-1">Pre-existing Conditions</p>
@@ -163,6 +283,32 @@ const Profile: React.FC<ProfileProps> = ({ user: initialUser, onProfileUpdate })
                          ) : (
                             <p className="text-md text-gray-900 dark:text-white">{user.symptoms || 'None specified'}</p>
                          )}
+                         {structuredSymptoms.length > 0 && (
+                            <div className="mt-3">
+                                <StructuredSymptomList
+                                    symptoms={structuredSymptoms}
+                                    options={symptomOptions}
+                                    onRemove={isEditing ? (index) => setFormData(prev => ({ ...prev, structured_symptoms: prev.structured_symptoms.filter((_, i) => i !== index) })) : undefined}
+                                />
+                            </div>
+                         )}
+                         {isEditing && <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">Add symptoms on the body map in the Symptom Checker.</p>}
+                    </div>
+                    <div className="bg-gray-50 dark:bg-black p-4 rounded-lg">
+                        <p className="text-sm text-gray-500 dark:text-gray-400 mb-1">Current Medications</p>
+                         {isEditing ? (
+                             <textarea name="medications" value={formData.medications} onChange={handleInputChange} placeholder="e.g. Amlodipine 5 mg daily" className="w-full p-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md text-md text-gray-900 dark:text-white" rows={2}></textarea>
+                         ) : (
+                            <p className="text-md text-gray-900 dark:text-white">{user.medications || 'None specified'}</p>
+                         )}
+                    </div>
+                    <div className="bg-gray-50 dark:bg-black p-4 rounded-lg">
+                        <p className="text-sm text-gray-500 dark:text-gray-400 mb-1">Allergies</p>
+                         {isEditing ? (
+                             <textarea name="allergies" value={formData.allergies} onChange={handleInputChange} placeholder="e.g. Penicillin" className="w-full p-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md text-md text-gray-900 dark:text-white" rows={2}></textarea>
+                         ) : (
+                            <p className="text-md text-gray-900 dark:text-white">{user.allergies || 'None specified'}</p>
+                         )}
                     </div>
                 </div>
 
@@ -175,9 +321,11 @@ const Profile: React.FC<ProfileProps> = ({ user: initialUser, onProfileUpdate })
                                     <CartesianGrid strokeDasharray="3 3" className="stroke-gray-200 dark:stroke-gray-700" />
                                     <XAxis dataKey="date" className="text-xs fill-gray-500 dark:fill-gray-400" />
                                     <YAxis domain={[0, 100]} className="text-xs fill-gray-500 dark:fill-gray-400" />
-                                    <Tooltip contentStyle={{ backgroundColor: 'rgba(255, 255, 255, 0.8)', backdropFilter: 'blur(2px)', border: '1px solid #ddd' }} itemStyle={{color: '#ef4444'}}/>
+                                    <Tooltip contentStyle={{ backgroundColor: 'rgba(255, 255, 255, 0.8)', backdropFilter: 'blur(2px)', border: '1px solid #ddd' }} />
                                     <Legend />
-                                    <Line type="monotone" dataKey="healthScore" stroke="#ef4444" strokeWidth={2} activeDot={{ r: 8 }} />
+                                    {/* The rule-based score is reproducible, so it is the trend line; the AI score is shown for reference */}
+                                    <Line type="monotone" dataKey="ruleScore" name="Rule-based score" stroke="#ef4444" strokeWidth={2} activeDot={{ r: 8 }} connectNulls />
+                                    <Line type="monotone" dataKey="healthScore" name="AI score" stroke="#9ca3af" strokeWidth={1} strokeDasharray="4 4" />
                                 </LineChart>
                             </ResponsiveContainer>
                         </div>
@@ -189,26 +337,104 @@ const Profile: React.FC<ProfileProps> = ({ user: initialUser, onProfileUpdate })
                 </div>
             </div>
 
+            <EmergencyContactsCard />
+
+            <BiomarkerExplorer />
+
+            <SymptomDiaryCard />
+
+            <SymptomCheckHistory />
+
             <div className="bg-white dark:bg-gray-900 p-6 rounded-xl shadow-lg border border-gray-200 dark:border-gray-800">
-                <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-4">Analysis History</h2>
+                <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+                    <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Analysis History</h2>
+                    {history.length > 1 && (
+                        <div className="flex items-center gap-2">
+                            {isComparing && (
+                                <button
+                                    onClick={() => onCompareAnalyses([compareSelection[0], compareSelection[1]])}
+                                    disabled={compareSelection.length !== 2}
+                                    className="px-3 py-1 text-sm bg-red-600 text-white rounded-md hover:bg-red-700 disabled:bg-gray-400"
+                                >
+                                    Compare selected ({compareSelection.length}/2)
+                                </button>
+                            )}
+                            <button onClick={handleCompareToggle} className="px-3 py-1 text-sm bg-gray-200 dark:bg-gray-700 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600">
+                                {isComparing ? 'Cancel' : 'Compare'}
+                            </button>
+                        </div>
+                    )}
+                </div>
+                {isComparing && <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">Select two analyses to compare.</p>}
                 <div className="space-y-4">
-                    {analyses.length > 0 ? analyses.map(item => (
-                        <div key={item.id} className="bg-gray-50 dark:bg-black p-4 rounded-lg flex justify-between items-center gap-4">
-                            <div className="flex-1 min-w-0">
-                                <p className="font-semibold text-gray-800 dark:text-gray-200">Analysis from {new Date(item.created_at).toLocaleString()}</p>
-                                <p className="text-sm text-gray-600 dark:text-gray-400 truncate">{item.summary}</p>
-                            </div>
-                            <div className="text-right ml-4 flex-shrink-0">
-                                <p className="text-sm text-gray-500 dark:text-gray-400">Health Score</p>
-                                <p className="text-xl font-bold text-gray-900 dark:text-white">{item.health_score}</p>
+                    {history.length > 0 ? history.map(item => (
+                        <div key={item.id}>
+                            <div className="flex items-stretch gap-2">
+                                <button
+                                    onClick={() => handleHistoryClick(item.id)}
+                                    aria-pressed={isComparing ? compareSelection.includes(item.id) : undefined}
+                                    className={`flex-1 min-w-0 text-left bg-gray-50 dark:bg-black p-4 rounded-lg flex justify-between items-center gap-4 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors ${compareSelection.includes(item.id) ? 'ring-2 ring-red-500' : ''}`}
+                                >
+                                    <div className="flex-1 min-w-0">
+                                        <p className="font-semibold text-gray-800 dark:text-gray-200">
+                                            {item.source === 'manual'
+                                                ? `Lab results from ${new Date(item.created_at).toLocaleDateString()}`
+                                                : `Analysis from ${new Date(item.created_at).toLocaleString()}`}
+                                            {item.source === 'manual' && (
+                                                <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200">Entered manually</span>
+                                            )}
+                                            {item.low_confidence === 1 && (
+                                                <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-200" title="Analyzed despite a quality warning; not included in trends">Low confidence</span>
+                                            )}
+                                        </p>
+                                        <p className="text-sm text-gray-600 dark:text-gray-400 truncate">{item.summary}</p>
+                                    </div>
+                                    <div className="text-right ml-4 flex-shrink-0">
+                                        <p className="text-sm text-gray-500 dark:text-gray-400">Health Score</p>
+                                        <p className="text-xl font-bold text-gray-900 dark:text-white">{item.health_score ?? item.rule_score ?? '—'}</p>
+                                    </div>
+                                </button>
+                                {item.file_count > 0 && (
+                                    <button
+                                        onClick={() => item.file_count > 1 ? handleToggleFiles(item.id) : handleViewOriginal(item.id)}
+                                        aria-expanded={item.file_count > 1 ? !!expandedFiles[item.id] : undefined}
+                                        className="flex-shrink-0 w-24 bg-gray-50 dark:bg-black rounded-lg flex flex-col items-center justify-center gap-1 text-xs text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+                                    >
+                                        <FileIcon className="w-5 h-5" /> {item.file_count > 1 ? `Originals (${item.file_count})` : 'View original'}
+                                    </button>
+                                )}
                             </div>
+                            {expandedFiles[item.id] && (
+                                <div className="mt-2 ml-4 flex flex-wrap gap-2">
+                                    {expandedFiles[item.id].map((file, index) => (
+                                        <button
+                                            key={file.id}
+                                            onClick={() => handleViewOriginal(item.id, file.id)}
+                                            className="flex items-center gap-1 px-3 py-1 text-xs bg-gray-100 dark:bg-gray-800 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700"
+                                        >
+                                            <FileIcon className="w-4 h-4" /> {index + 1}. {file.file_name}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
                         </div>
-                    )) : (
+                    )) : !isLoadingHistory && (
                          <div className="text-center text-gray-500 dark:text-gray-400 py-8">
                             <p>You haven't analyzed any reports yet.</p>
                         </div>
                     )}
                 </div>
+                {hasMoreHistory && (
+                    <div className="mt-4 text-center">
+                        <button
+                            onClick={() => loadHistory(historyPage + 1)}
+                            disabled={isLoadingHistory}
+                            className="px-4 py-2 text-sm bg-gray-200 dark:bg-gray-700 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50"
+                        >
+                            {isLoadingHistory ? 'Loading...' : 'Load more'}
+                        </button>
+                    </div>
+                )}
             </div>
         </div>
     );
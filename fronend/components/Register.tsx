@@ -15,12 +15,14 @@ const Register: React.FC<RegisterProps> = ({ onRegister, switchToLogin, error })
         password: '',
         age: '',
         weight: '',
+        sex: '',
+        height: '',
         medical_conditions: '',
         symptoms: '',
     });
     const [isLoading, setIsLoading] = useState(false);
 
-    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
         setFormData({ ...formData, [e.target.name]: e.target.value });
     };
 
@@ -71,6 +73,18 @@ const Register: React.FC<RegisterProps> = ({ onRegister, switchToLogin, error })
                             <label className="block text-sm font-medium text-gray-700 dark:text-gray-200">Weight (kg)</label>
                             <input name="weight" type="number" step="0.1" required onChange={handleChange} className="w-full px-3 py-2 mt-1 bg-gray-50 dark:bg-black border border-gray-300 dark:border-gray-700 rounded-md text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-red-500"/>
                         </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-200">Sex (optional)</label>
+                            <select name="sex" value={formData.sex} onChange={handleChange} className="w-full px-3 py-2 mt-1 bg-gray-50 dark:bg-black border border-gray-300 dark:border-gray-700 rounded-md text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-red-500">
+                                <option value="">Prefer not to say</option>
+                                <option value="male">Male</option>
+                                <option value="female">Female</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-200">Height (cm, optional)</label>
+                            <input name="height" type="number" step="0.1" onChange={handleChange} className="w-full px-3 py-2 mt-1 bg-gray-50 dark:bg-black border border-gray-300 dark:border-gray-700 rounded-md text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-red-500"/>
+                        </div>
                     </div>
                     
                     <div>
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { ReportAttachment } from '../types';
+import { FileIcon } from './icons/FileIcon';
+import { CloseIcon } from './icons/CloseIcon';
+
+// A document being assembled in HealthInputForm before it is sent for analysis.
+export interface DraftDocument {
+  id: number;
+  title: string;
+  kind: 'pdf' | 'photos' | 'text';
+  // Pasted text, or the text extracted from a PDF for the user to review
+  text: string;
+  // Photos, or for a PDF the raw file, sent only when no text could be extracted
+  attachments: ReportAttachment[];
+  // The PDF itself, uploaded on its own after its text is analyzed so the original is kept with the analysis
+  file?: File;
+  // Progress message while a PDF is being read
+  status: string | null;
+  usedOcr: boolean;
+}
+
+interface ReportDocumentCardProps {
+  document: DraftDocument;
+  index: number;
+  total: number;
+  isDragging: boolean;
+  onChange: (patch: Partial<DraftDocument>) => void;
+  onRemove: () => void;
+  onMove: (toIndex: number) => void;
+  onDragStart: () => void;
+  onDragEnter: () => void;
+  onDragEnd: () => void;
+}
+
+const KIND_LABELS: Record<DraftDocument['kind'], string> = {
+  pdf: 'PDF',
+  photos: 'Photos',
+  text: 'Text',
+};
+
+const ReportDocumentCard: React.FC<ReportDocumentCardProps> = ({
+  document,
+  index,
+  total,
+  isDragging,
+  onChange,
+  onRemove,
+  onMove,
+  onDragStart,
+  onDragEnter,
+  onDragEnd,
+}) => {
+  // Only the handle starts a drag, so selecting text in the inputs still works
+  const [isHandleHeld, setIsHandleHeld] = useState(false);
+
+  const removePhoto = (photoIndex: number) => {
+    onChange({ attachments: document.attachments.filter((_, i) => i !== photoIndex) });
+  };
+
+  return (
+    <div
+      draggable={isHandleHeld}
+      onDragStart={(e) => { e.dataTransfer.effectAllowed = 'move'; onDragStart(); }}
+      onDragEnter={onDragEnter}
+      onDragOver={(e) => e.preventDefault()}
+      onDragEnd={() => { setIsHandleHeld(false); onDragEnd(); }}
+      className={`p-4 bg-gray-50 dark:bg-black rounded-lg border border-gray-300 dark:border-gray-700 transition-opacity ${isDragging ? 'opacity-50' : ''}`}
+    >
+      <div className="flex items-center gap-3">
+        <span
+          onMouseDown={() => setIsHandleHeld(true)}
+          onMouseUp={() => setIsHandleHeld(false)}
+          className="cursor-grab select-none text-gray-400"
+          title="Drag to reorder"
+          aria-hidden="true"
+        >&#x2630;</span>
+        <span className="flex-shrink-0 text-xs font-semibold px-2 py-0.5 rounded bg-gray-200 dark:bg-gray-800 text-gray-600 dark:text-gray-300">
+          {index + 1} &middot; {KIND_LABELS[document.kind]}
+        </span>
+        <input
+          type="text"
+          value={document.title}
+          onChange={(e) => onChange({ title: e.target.value })}
+          className="flex-1 min-w-0 bg-transparent border-b border-transparent hover:border-gray-300 dark:hover:border-gray-700 focus:border-red-500 focus:outline-none font-medium text-gray-700 dark:text-gray-200"
+          aria-label={`Title of document ${index + 1}`}
+          placeholder="e.g. Lipid panel"
+        />
+        <div className="flex items-center gap-1 flex-shrink-0">
+          <button type="button" onClick={() => onMove(index - 1)} disabled={index === 0} className="px-1 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 disabled:opacity-30" aria-label="Move up">&uarr;</button>
+          <button type="button" onClick={() => onMove(index + 1)} disabled={index === total - 1} className="px-1 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 disabled:opacity-30" aria-label="Move down">&darr;</button>
+          <button type="button" onClick={onRemove} className="ml-2 text-gray-400 hover:text-red-500" aria-label={`Remove document ${index + 1}`}>
+            <CloseIcon className="h-5 w-5" />
+          </button>
+        </div>
+      </div>
+
+      {document.kind === 'text' && (
+        <textarea
+          rows={8}
+          value={document.text}
+          onChange={(e) => onChange({ text: e.target.value })}
+          className="mt-3 w-full p-4 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 transition-colors duration-200 text-sm"
+          placeholder="You can paste your report directly here..."
+        />
+      )}
+
+      {document.kind === 'pdf' && (
+        document.status ? (
+          <p className="mt-3 text-sm text-gray-600 dark:text-gray-300 animate-pulse">{document.status}</p>
+        ) : document.text ? (
+          <div className="mt-3">
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+              Check the extracted values against your report and correct anything that was misread.
+              {document.usedOcr && ' Pages marked "scanned" were read with OCR and are more likely to contain mistakes.'}
+            </p>
+            <textarea
+              rows={10}
+              value={document.text}
+              onChange={(e) => onChange({ text: e.target.value })}
+              className="w-full p-4 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 transition-colors duration-200 text-sm font-mono"
+              aria-label={`Extracted text of document ${index + 1}`}
+            />
+          </div>
+        ) : (
+          <p className="mt-3 text-sm text-gray-500 dark:text-gray-400">
+            No text could be read from this PDF, so the file itself will be sent for analysis.
+          </p>
+        )
+      )}
+
+      {document.kind === 'photos' && (
+        <div className="mt-3 grid grid-cols-3 sm:grid-cols-5 gap-3">
+          {document.attachments.map((photo, photoIndex) => (
+            <div key={`${photo.name}-${photoIndex}`} className="relative aspect-[3/4] bg-white dark:bg-gray-900 rounded-lg border border-gray-300 dark:border-gray-700 overflow-hidden">
+              {photo.mimeType === 'image/jpeg' ? (
+                <img src={`data:${photo.mimeType};base64,${photo.data}`} alt={`Page ${photoIndex + 1}`} className="w-full h-full object-cover" />
+              ) : (
+                <div className="w-full h-full flex flex-col items-center justify-center p-2 text-center">
+                  <FileIcon className="h-8 w-8 text-red-500" />
+                  <span className="mt-1 text-xs text-gray-600 dark:text-gray-300 break-all">{photo.name}</span>
+                </div>
+              )}
+              <span className="absolute bottom-1 left-1 text-xs font-semibold bg-black/60 text-white px-1.5 rounded">{photoIndex + 1}</span>
+              <button type="button" onClick={() => removePhoto(photoIndex)} className="absolute top-1 right-1 bg-white/80 dark:bg-black/70 rounded-full p-0.5 text-gray-500 hover:text-red-500" aria-label={`Remove photo ${photoIndex + 1}`}>
+                <CloseIcon className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReportDocumentCard;
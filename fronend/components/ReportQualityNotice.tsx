@@ -0,0 +1,60 @@
+import React from 'react';
+import { ReportQuality } from '../types';
+
+interface ReportQualityNoticeProps {
+  quality: ReportQuality;
+  // Shown as an "Analyze anyway" button on low-confidence warnings before analysis
+  onProceed?: () => void;
+  // Set on a finished analysis, where the notice explains why it is left out of trends
+  isStoredResult?: boolean;
+}
+
+const ReportQualityNotice: React.FC<ReportQualityNoticeProps> = ({ quality, onProceed, isStoredResult = false }) => {
+  if (quality.status === 'ok') {
+    return null;
+  }
+  const isRejected = quality.status === 'rejected';
+  const title = isRejected
+    ? 'These documents could not be analyzed'
+    : isStoredResult
+      ? 'Low-confidence analysis'
+      : 'The results may be unreliable';
+
+  return (
+    <div
+      role="alert"
+      className={`p-4 rounded-lg border ${isRejected
+        ? 'bg-red-50 dark:bg-red-900/20 border-red-300 dark:border-red-700 text-red-800 dark:text-red-200'
+        : 'bg-yellow-50 dark:bg-yellow-900/20 border-yellow-300 dark:border-yellow-700 text-yellow-800 dark:text-yellow-200'}`}
+    >
+      <p className="font-semibold">{title}</p>
+      <ul className="mt-2 list-disc list-inside text-sm space-y-1">
+        {quality.reasons.map((reason, index) => <li key={index}>{reason}</li>)}
+      </ul>
+      {isStoredResult ? (
+        <p className="mt-2 text-sm">This analysis is not included in your health score or biomarker trends.</p>
+      ) : quality.guidance.length > 0 && (
+        <div className="mt-3 text-sm">
+          <p className="font-medium">What you can do:</p>
+          <ul className="mt-1 list-disc list-inside space-y-1">
+            {quality.guidance.map((tip, index) => <li key={index}>{tip}</li>)}
+          </ul>
+        </div>
+      )}
+      {!isRejected && onProceed && (
+        <div className="mt-3 flex flex-wrap items-center gap-3">
+          <button
+            type="button"
+            onClick={onProceed}
+            className="px-4 py-1.5 text-sm font-semibold bg-yellow-600 text-white rounded-md hover:bg-yellow-700"
+          >
+            Analyze anyway
+          </button>
+          <span className="text-xs">The result will be marked as low confidence and left out of your trends.</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReportQualityNotice;
@@ -3,14 +3,21 @@
 import React from 'react';
 import { HealthReportAnalysis } from '../types';
 import HealthScoreGauge from './HealthScoreGauge';
+import BiomarkerTable from './BiomarkerTable';
+import PredictionEvidence from './PredictionEvidence';
+import ReportQualityNotice from './ReportQualityNotice';
 import { UploadIcon } from './icons/UploadIcon';
 
 interface ResultsDisplayProps {
   result: HealthReportAnalysis | null;
   onNewAnalysis: () => void;
+  // Used when showing a past analysis instead of the one just completed
+  title?: string;
+  subtitle?: string;
+  onBack?: () => void;
 }
 
-const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ result, onNewAnalysis }) => {
+const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ result, onNewAnalysis, title, subtitle, onBack }) => {
   if (!result) {
     return (
       <div className="text-center p-8">
@@ -26,26 +33,54 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ result, onNewAnalysis }
     );
   }
 
-  const { healthScore, summary, predictions, recommendations } = result;
+  const { healthScore, summary, predictions, recommendations, biomarkers = [], documents = [] } = result;
+  const documentTitle = (number: number) => documents.find(d => d.number === number)?.title || `Document ${number}`;
 
   return (
     <div className="max-w-6xl mx-auto">
+      {onBack && (
+        <button onClick={onBack} className="mb-4 text-sm font-medium text-red-600 hover:underline">
+          &larr; Back
+        </button>
+      )}
       <div className="text-center mb-8">
-        <h2 className="text-3xl sm:text-4xl font-extrabold text-gray-900 dark:text-white">Your Health Analysis Results</h2>
-        <p className="mt-2 text-lg text-gray-600 dark:text-gray-300">Here's what our AI found in your report.</p>
+        <h2 className="text-3xl sm:text-4xl font-extrabold text-gray-900 dark:text-white">{title || 'Your Health Analysis Results'}</h2>
+        <p className="mt-2 text-lg text-gray-600 dark:text-gray-300">{subtitle || (result.source === 'manual' ? "Your lab results are saved. Here's how they compare with their reference ranges." : "Here's what our AI found in your report.")}</p>
       </div>
+      {result.lowConfidence && result.quality && (
+        <div className="mb-6">
+          <ReportQualityNotice quality={result.quality} isStoredResult />
+        </div>
+      )}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 animate-fade-in">
         <div className="lg:col-span-1 bg-white dark:bg-gray-900 p-6 rounded-xl shadow-lg border border-gray-200 dark:border-gray-800 flex flex-col items-center justify-center">
           <h3 className="text-xl font-bold mb-4 text-gray-900 dark:text-white">Overall Health Score</h3>
-          <HealthScoreGauge score={healthScore} />
+          <HealthScoreGauge score={healthScore} breakdown={result.scoreBreakdown} />
         </div>
 
         <div className="lg:col-span-2 space-y-6">
           <div className="bg-white dark:bg-gray-900 p-6 rounded-xl shadow-lg border border-gray-200 dark:border-gray-800">
-            <h3 className="text-xl font-bold mb-3 text-gray-900 dark:text-white">AI Summary</h3>
+            <h3 className="text-xl font-bold mb-3 text-gray-900 dark:text-white">{healthScore === null ? 'Summary' : 'AI Summary'}</h3>
             <p className="text-gray-600 dark:text-gray-300">{summary}</p>
           </div>
 
+          {documents.length > 1 && (
+            <div className="bg-white dark:bg-gray-900 p-6 rounded-xl shadow-lg border border-gray-200 dark:border-gray-800">
+              <h3 className="text-xl font-bold mb-3 text-gray-900 dark:text-white">Documents Analyzed</h3>
+              <ol className="space-y-2">
+                {documents.map(doc => (
+                  <li key={doc.number} className="bg-gray-50 dark:bg-black p-3 rounded-lg">
+                    <p className="font-semibold text-gray-700 dark:text-gray-200">
+                      {doc.number}. {doc.title}
+                      {doc.type && <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">{doc.type}</span>}
+                    </p>
+                    {doc.summary && <p className="text-sm text-gray-600 dark:text-gray-400">{doc.summary}</p>}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+
           <div className="bg-white dark:bg-gray-900 p-6 rounded-xl shadow-lg border border-gray-200 dark:border-gray-800">
             <h3 className="text-xl font-bold mb-4 text-gray-900 dark:text-white">Potential Health Risks</h3>
             <div className="space-y-3">
@@ -60,11 +95,22 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ result, onNewAnalysis }
                    <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2.5">
                         <div className={`h-2.5 rounded-full ${pred.probability > 0.7 ? 'bg-red-500' : pred.probability > 0.4 ? 'bg-yellow-500' : 'bg-green-500'}`} style={{ width: `${pred.probability * 100}%` }}></div>
                    </div>
+                   {documents.length > 1 && pred.documentNumbers && pred.documentNumbers.length > 0 && (
+                     <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                       Based on: {pred.documentNumbers.map(documentTitle).join(', ')}
+                     </p>
+                   )}
+                   <PredictionEvidence prediction={pred} biomarkers={biomarkers} documents={documents} />
                 </div>
               )) : <p className="text-gray-500 dark:text-gray-400">No significant risks were detected based on the provided report.</p>}
             </div>
           </div>
 
+          <div className="bg-white dark:bg-gray-900 p-6 rounded-xl shadow-lg border border-gray-200 dark:border-gray-800">
+            <h3 className="text-xl font-bold mb-3 text-gray-900 dark:text-white">Lab Values</h3>
+            <BiomarkerTable biomarkers={biomarkers} documents={documents} />
+          </div>
+
           <div className="bg-white dark:bg-gray-900 p-6 rounded-xl shadow-lg border border-gray-200 dark:border-gray-800">
             <h3 className="text-xl font-bold mb-3 text-gray-900 dark:text-white">Recommendations</h3>
             <ul className="list-disc list-inside space-y-2 text-gray-600 dark:text-gray-300">
@@ -0,0 +1,163 @@
+import React, { useState, useEffect } from 'react';
+import { RiskScoresResult, RiskInputDefinition } from '../types';
+import { getRiskScores } from '../services/geminiService';
+import { PulseIcon } from './icons/PulseIcon';
+
+const OPTION_LABELS: Record<string, string> = {
+  male: 'Male',
+  female: 'Female',
+  none: 'None',
+  extended: 'Grandparent, aunt, uncle or cousin',
+  immediate: 'Parent, sibling or child',
+  african_american: 'African American',
+  other: 'Other',
+};
+
+const CATEGORY_COLORS: Record<string, string> = {
+  Low: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  'Normal weight': 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  G1: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  G2: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  Borderline: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  'Slightly elevated': 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  Overweight: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  Underweight: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+};
+const DEFAULT_CATEGORY_COLOR = 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300';
+
+const InputField: React.FC<{ definition: RiskInputDefinition; value: string; onChange: (value: string) => void }> = ({ definition, value, onChange }) => {
+  const className = 'w-full p-2 bg-gray-50 dark:bg-black border border-gray-300 dark:border-gray-700 rounded-md text-sm';
+  return (
+    <label className="block text-sm">
+      <span className="text-gray-700 dark:text-gray-300">
+        {definition.label}{definition.unit ? ` (${definition.unit})` : ''}{definition.optional ? ' – optional' : ''}
+      </span>
+      {definition.type === 'number' ? (
+        <input type="number" min="0" step="any" value={value} onChange={(e) => onChange(e.target.value)} className={`mt-1 ${className}`} />
+      ) : (
+        <select value={value} onChange={(e) => onChange(e.target.value)} className={`mt-1 ${className}`}>
+          <option value="">Select...</option>
+          {definition.type === 'boolean' ? (
+            <>
+              <option value="yes">Yes</option>
+              <option value="no">No</option>
+            </>
+          ) : (definition.options || []).map(option => (
+            <option key={option} value={option}>{OPTION_LABELS[option] || option}</option>
+          ))}
+        </select>
+      )}
+    </label>
+  );
+};
+
+// Validated clinical risk scores, computed on the server from the profile and stored lab values.
+// Anything a calculator still needs can be entered here and is sent along with the next request.
+const RiskScoresCard: React.FC = () => {
+  const [result, setResult] = useState<RiskScoresResult | null>(null);
+  const [provided, setProvided] = useState<Record<string, string>>({});
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadScores = async (inputs: Record<string, string>) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setResult(await getRiskScores(inputs));
+    } catch (err: any) {
+      setError(err.message || 'Failed to calculate risk scores.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadScores({});
+  }, []);
+
+  const handleCalculate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const filled = Object.fromEntries(Object.entries(provided).filter(([, value]) => value !== ''));
+    loadScores(filled);
+    setIsFormOpen(false);
+  };
+
+  const missingKeys = new Set(result ? result.scores.flatMap(score => score.missingInputs) : []);
+  // Keep fields the user already filled in so they can be corrected, plus any optional ones
+  const formDefinitions = result
+    ? result.definitions.filter(d => missingKeys.has(d.key) || d.key in provided || (d.optional && missingKeys.size > 0))
+    : [];
+  const labelFor = (key: string) => result?.definitions.find(d => d.key === key)?.label || key;
+
+  return (
+    <div className="bg-white dark:bg-gray-900 p-6 rounded-xl shadow-lg border border-gray-200 dark:border-gray-800">
+      <h3 className="text-xl font-bold mb-1 text-gray-900 dark:text-white flex items-center gap-2">
+        <PulseIcon className="w-6 h-6 text-red-500" /> Clinical Risk Scores
+      </h3>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">Published screening formulas applied to your profile and lab results. They estimate risk; they are not a diagnosis.</p>
+
+      {isLoading && !result ? (
+        <div className="space-y-3 animate-pulse">
+          <div className="h-4 bg-gray-200 dark:bg-gray-700 rounded w-3/4"></div>
+          <div className="h-4 bg-gray-200 dark:bg-gray-700 rounded w-1/2"></div>
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      ) : result && (
+        <div className="space-y-4">
+          {result.scores.map(score => (
+            <div key={score.id} className="p-4 bg-gray-50 dark:bg-black rounded-lg">
+              <div className="flex items-center justify-between gap-3">
+                <p className="font-semibold text-gray-800 dark:text-gray-200" title={score.description}>{score.name}</p>
+                {score.status === 'ok' && (
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <span className="text-lg font-bold text-gray-900 dark:text-white">{score.value} <span className="text-xs font-normal text-gray-500">{score.unit}</span></span>
+                    <span className={`px-2 py-0.5 text-xs font-medium rounded ${CATEGORY_COLORS[score.category || ''] || DEFAULT_CATEGORY_COLOR}`}>{score.category}</span>
+                  </div>
+                )}
+              </div>
+              {score.status === 'missing_inputs' ? (
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">Needs: {score.missingInputs.map(labelFor).join(', ')}</p>
+              ) : (
+                <p className="mt-1 text-sm text-gray-600 dark:text-gray-300">{score.interpretation}</p>
+              )}
+              {score.status === 'ok' && <p className="mt-1 text-xs text-gray-400 dark:text-gray-500">{score.reference}</p>}
+            </div>
+          ))}
+
+          {formDefinitions.length > 0 && (
+            isFormOpen ? (
+              <form onSubmit={handleCalculate} className="space-y-3">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {formDefinitions.map(definition => (
+                    <InputField
+                      key={definition.key}
+                      definition={definition}
+                      value={provided[definition.key] || ''}
+                      onChange={(value) => setProvided(prev => ({ ...prev, [definition.key]: value }))}
+                    />
+                  ))}
+                </div>
+                <div className="flex gap-3">
+                  <button type="submit" disabled={isLoading} className="px-4 py-2 bg-red-600 text-white font-semibold rounded-lg shadow-md hover:bg-red-700 disabled:bg-gray-400">
+                    {isLoading ? 'Calculating...' : 'Calculate'}
+                  </button>
+                  <button type="button" onClick={() => setIsFormOpen(false)} className="px-4 py-2 bg-gray-200 dark:bg-gray-700 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600">
+                    Cancel
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <button onClick={() => setIsFormOpen(true)} className="text-sm font-semibold text-red-600 dark:text-red-400 hover:underline">
+                Add missing details
+              </button>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RiskScoresCard;
@@ -0,0 +1,158 @@
+import React, { useState, useEffect } from 'react';
+import { SosInfo, HospitalFinderResult } from '../types';
+import { getSosInfo, findNearbyHospitals } from '../services/geminiService';
+import { SosIcon } from './icons/SosIcon';
+
+interface Coordinates {
+  latitude: number;
+  longitude: number;
+  accuracy: number;
+}
+
+type LocationState = 'locating' | 'found' | 'unavailable';
+
+const SEX_LABELS: Record<string, string> = { male: 'Male', female: 'Female' };
+
+// Phone numbers are stored as typed; tel: and sms: links get only the digits and a leading +
+const dialable = (phone: string) => phone.replace(/[^\d+]/g, '');
+
+// The card shared with contacts or read out to the ambulance dispatcher
+const buildSosMessage = (info: SosInfo, coords: Coordinates | null) => {
+  const { user } = info;
+  const details = [user.age ? `${user.age} years` : '', user.sex ? SEX_LABELS[user.sex] : ''].filter(Boolean).join(', ');
+  return [
+    `EMERGENCY: ${user.name} needs help.`,
+    coords
+      ? `Location: https://maps.google.com/?q=${coords.latitude.toFixed(6)},${coords.longitude.toFixed(6)} (within ${Math.round(coords.accuracy)} m)`
+      : 'Location: unavailable',
+    details ? `Patient: ${details}` : '',
+    `Conditions: ${user.medical_conditions || 'None known'}`,
+    `Medications: ${user.medications || 'None known'}`,
+    `Allergies: ${user.allergies || 'None known'}`,
+  ].filter(Boolean).join('\n');
+};
+
+// One-tap emergency screen: call buttons, the user's location and medical info to share, nearest hospitals
+const SosScreen: React.FC = () => {
+  const [info, setInfo] = useState<SosInfo | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [coords, setCoords] = useState<Coordinates | null>(null);
+  const [locationState, setLocationState] = useState<LocationState>('locating');
+  const [hospitals, setHospitals] = useState<HospitalFinderResult | null>(null);
+  const [hospitalError, setHospitalError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    getSosInfo().then(setInfo).catch((err: any) => setError(err.message || 'Failed to load emergency information.'));
+
+    if (!navigator.geolocation) {
+      setLocationState('unavailable');
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(async (position) => {
+      const { latitude, longitude, accuracy } = position.coords;
+      setCoords({ latitude, longitude, accuracy });
+      setLocationState('found');
+      try {
+        setHospitals(await findNearbyHospitals({ lat: latitude, lon: longitude }));
+      } catch (err: any) {
+        setHospitalError('Nearby hospitals could not be found. Call 102 for an ambulance.');
+      }
+    }, () => {
+      setLocationState('unavailable');
+    }, { enableHighAccuracy: true, timeout: 10000 });
+  }, []);
+
+  const message = info ? buildSosMessage(info, coords) : '';
+
+  const handleShare = async () => {
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: 'Emergency', text: message });
+        return;
+      } catch (err: any) {
+        if (err?.name === 'AbortError') return;
+      }
+    }
+    await navigator.clipboard.writeText(message);
+    setCopied(true);
+  };
+
+  // Prefills every contact as a recipient; without contacts the user picks them in the SMS app
+  const smsHref = info && info.contacts.length > 0
+    ? `sms:${info.contacts.map(c => dialable(c.phone)).join(',')}?body=${encodeURIComponent(message)}`
+    : `sms:?body=${encodeURIComponent(message)}`;
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div className="text-center">
+        <h2 className="text-3xl sm:text-4xl font-extrabold text-red-600 flex items-center justify-center gap-2"><SosIcon className="w-8 h-8" /> Emergency SOS</h2>
+        <p className="mt-2 text-lg text-gray-600 dark:text-gray-300">Tap a number to call. Share your location and medical details with the people helping you.</p>
+      </div>
+
+      {error && (
+        <div className="bg-red-100 dark:bg-red-900/20 border border-red-400 dark:border-red-600 text-red-700 dark:text-red-300 px-4 py-3 rounded-lg text-center" role="alert">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {/* The ambulance button must work even when the server can't be reached */}
+        {(info ? info.emergencyNumbers : [{ label: 'Ambulance', number: '102' }]).map(({ label, number }) => (
+          <a key={number} href={`tel:${number}`} className="flex items-center justify-center gap-3 p-5 bg-red-600 hover:bg-red-700 text-white rounded-xl shadow-lg text-2xl font-bold">
+            <SosIcon className="w-7 h-7" /> {label} {number}
+          </a>
+        ))}
+        {info?.contacts.map(contact => (
+          <a key={contact.id} href={`tel:${dialable(contact.phone)}`} className="flex flex-col items-center justify-center p-4 bg-white dark:bg-gray-900 border-2 border-red-600 rounded-xl shadow text-gray-900 dark:text-white hover:bg-red-50 dark:hover:bg-red-900/20">
+            <span className="text-xl font-bold">Call {contact.name}</span>
+            <span className="text-sm text-gray-500 dark:text-gray-400">{[contact.relationship, contact.phone].filter(Boolean).join(' · ')}</span>
+          </a>
+        ))}
+      </div>
+      {info && info.contacts.length === 0 && (
+        <p className="text-sm text-center text-gray-500 dark:text-gray-400">Add emergency contacts on your Profile page to call them from here.</p>
+      )}
+
+      <div className="bg-white dark:bg-gray-900 p-6 rounded-xl shadow-lg border border-gray-200 dark:border-gray-800">
+        <div className="flex flex-wrap justify-between items-center gap-3 mb-3">
+          <h3 className="text-xl font-bold text-gray-900 dark:text-white">Share with helpers</h3>
+          <div className="flex gap-2">
+            <a href={smsHref} className="px-3 py-1 text-sm bg-gray-200 dark:bg-gray-700 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600">Send SMS</a>
+            <button onClick={handleShare} disabled={!info} className="px-3 py-1 text-sm bg-red-600 text-white rounded-md hover:bg-red-700 disabled:bg-gray-400">
+              {copied ? 'Copied' : 'Share'}
+            </button>
+          </div>
+        </div>
+        {locationState === 'locating' && <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">Finding your location... please allow location access if prompted.</p>}
+        {locationState === 'unavailable' && <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">Your location is unavailable. Tell the dispatcher where you are.</p>}
+        <pre className="whitespace-pre-wrap font-sans text-md bg-gray-50 dark:bg-black p-4 rounded-lg text-gray-900 dark:text-white">{info ? message : 'Loading your details...'}</pre>
+      </div>
+
+      <div className="bg-white dark:bg-gray-900 p-6 rounded-xl shadow-lg border border-gray-200 dark:border-gray-800">
+        <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-3">Nearest Hospitals</h3>
+        {locationState === 'unavailable' ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Without your location nearby hospitals can't be found. Use the Hospitals page to search by place name.</p>
+        ) : hospitalError ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">{hospitalError}</p>
+        ) : !hospitals ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Searching for nearby hospitals...</p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600 dark:text-gray-300 mb-3">{hospitals.summary}</p>
+            <div className="space-y-2">
+              {hospitals.hospitals.map((h, idx) => (
+                <a key={idx} href={h.uri} target="_blank" rel="noopener noreferrer" className="block p-3 bg-gray-50 dark:bg-black rounded-lg border border-gray-200 dark:border-gray-800 hover:border-red-500 dark:hover:border-red-500">
+                  <p className="font-semibold text-red-600">{h.name}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">Click to view on map</p>
+                </a>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SosScreen;
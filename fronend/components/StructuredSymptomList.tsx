@@ -0,0 +1,41 @@
+import React from 'react';
+import { StructuredSymptom, SymptomOptions } from '../types';
+
+interface StructuredSymptomListProps {
+    symptoms: StructuredSymptom[];
+    options: SymptomOptions | null; // for labels; raw values are shown until it loads
+    onRemove?: (index: number) => void;
+}
+
+const labelFor = (list: { value: string; label: string }[] | undefined, value: string | null) =>
+    value ? (list?.find(item => item.value === value)?.label || value) : null;
+
+const StructuredSymptomList: React.FC<StructuredSymptomListProps> = ({ symptoms, options, onRemove }) => (
+    <ul className="space-y-2">
+        {symptoms.map((symptom, index) => {
+            const location = options?.regions.find(region => region.id === symptom.location)?.label || symptom.location;
+            const details = [
+                location,
+                `${symptom.severity}/10`,
+                symptom.onsetDate ? `since ${new Date(`${symptom.onsetDate}T00:00:00`).toLocaleDateString()}` : null,
+                labelFor(options?.durations, symptom.duration),
+                labelFor(options?.patterns, symptom.pattern),
+            ].filter(Boolean).join(' · ');
+            return (
+                <li key={`${symptom.location}-${symptom.name}`} className="flex justify-between items-start gap-3 p-3 bg-white dark:bg-gray-800 rounded-lg">
+                    <div>
+                        <p className="font-semibold text-gray-900 dark:text-white">{symptom.name}</p>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">{details}</p>
+                    </div>
+                    {onRemove && (
+                        <button type="button" onClick={() => onRemove(index)} className="shrink-0 text-sm text-red-600 hover:underline" aria-label={`Remove ${symptom.name}`}>
+                            Remove
+                        </button>
+                    )}
+                </li>
+            );
+        })}
+    </ul>
+);
+
+export default StructuredSymptomList;
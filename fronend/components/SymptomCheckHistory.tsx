@@ -0,0 +1,167 @@
+import React, { useState, useEffect } from 'react';
+import { SymptomCheck, Urgency } from '../types';
+import { getSymptomChecks, getSymptomCheck, updateSymptomCheckOutcome } from '../services/geminiService';
+import { SymptomIcon } from './icons/SymptomsIcon';
+import { SaveIcon } from './icons/SaveIcon';
+
+const URGENCY_BADGES: Record<Urgency, string> = {
+  routine: '',
+  urgent: 'bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-200',
+  emergency: 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-200',
+};
+
+const outcomeLabel = (check: SymptomCheck) => {
+  const { diagnosis, resolved } = check.outcome;
+  if (diagnosis && resolved) return `Diagnosed as ${diagnosis}, resolved`;
+  if (diagnosis) return `Diagnosed as ${diagnosis}`;
+  return resolved ? 'Resolved' : null;
+};
+
+// Past symptom checks in Profile. Opening one shows what was asked and predicted, and lets the user
+// record what it actually turned out to be.
+const SymptomCheckHistory: React.FC = () => {
+  const [checks, setChecks] = useState<SymptomCheck[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [openCheck, setOpenCheck] = useState<SymptomCheck | null>(null);
+  const [diagnosis, setDiagnosis] = useState('');
+  const [resolved, setResolved] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    getSymptomChecks()
+      .then(setChecks)
+      .catch((err: any) => setError(err.message || 'Failed to load symptom checks.'))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleToggle = async (id: number) => {
+    if (openCheck?.id === id) {
+      setOpenCheck(null);
+      return;
+    }
+    setError(null);
+    try {
+      const check = await getSymptomCheck(id);
+      setOpenCheck(check);
+      setDiagnosis(check.outcome.diagnosis || '');
+      setResolved(check.outcome.resolved);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load the symptom check.');
+    }
+  };
+
+  const handleSaveOutcome = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!openCheck) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const updated = await updateSymptomCheckOutcome(openCheck.id, { diagnosis: diagnosis.trim() || null, resolved });
+      setChecks(prev => prev.map(check => check.id === updated.id ? updated : check));
+      setOpenCheck(prev => prev ? { ...prev, outcome: updated.outcome } : prev);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save the outcome.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-900 p-6 rounded-xl shadow-lg border border-gray-200 dark:border-gray-800">
+      <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-4 flex items-center gap-2"><SymptomIcon className="w-6 h-6" /> Symptom Checks</h2>
+      {error && <p className="mb-3 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {isLoading ? (
+        <p className="text-gray-500 dark:text-gray-400">Loading symptom checks...</p>
+      ) : checks.length === 0 ? (
+        <p className="text-gray-500 dark:text-gray-400">No symptom checks yet. Use the Symptoms page to run one.</p>
+      ) : (
+        <ul className="space-y-3">
+          {checks.map(check => {
+            const outcome = outcomeLabel(check);
+            const isOpen = openCheck?.id === check.id;
+            return (
+              <li key={check.id} className="bg-gray-50 dark:bg-black rounded-lg">
+                <button onClick={() => handleToggle(check.id)} className="w-full text-left p-4" aria-expanded={isOpen}>
+                  <div className="flex flex-wrap justify-between items-center gap-2">
+                    <p className="font-semibold text-gray-900 dark:text-white">{new Date(check.created_at).toLocaleString()}</p>
+                    <div className="flex flex-wrap gap-2 text-xs">
+                      {check.interviewId && <span className="px-2 py-0.5 rounded-full bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200">Guided interview</span>}
+                      {check.triage && check.triage.urgency !== 'routine' && (
+                        <span className={`px-2 py-0.5 rounded-full capitalize ${URGENCY_BADGES[check.triage.urgency]}`}>{check.triage.urgency}</span>
+                      )}
+                      {outcome && <span className="px-2 py-0.5 rounded-full bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-200">{outcome}</span>}
+                    </div>
+                  </div>
+                  <p className="text-sm text-gray-600 dark:text-gray-300 mt-1 line-clamp-2">{check.symptoms}</p>
+                  {check.predictions.length > 0 && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Top prediction: {check.predictions[0].disease} ({(check.predictions[0].probability * 100).toFixed(0)}%)
+                    </p>
+                  )}
+                </button>
+
+                {isOpen && openCheck && (
+                  <div className="px-4 pb-4 space-y-4 border-t border-gray-200 dark:border-gray-800 pt-4">
+                    {openCheck.transcript && openCheck.transcript.length > 0 && (
+                      <dl className="text-sm divide-y divide-gray-200 dark:divide-gray-800">
+                        {openCheck.transcript.map(entry => (
+                          <div key={entry.questionId} className="py-1 sm:grid sm:grid-cols-2 sm:gap-4">
+                            <dt className="text-gray-500 dark:text-gray-400">{entry.question}</dt>
+                            <dd className="text-gray-900 dark:text-white">{entry.answerText}</dd>
+                          </div>
+                        ))}
+                      </dl>
+                    )}
+                    {openCheck.triage && openCheck.triage.reasons.length > 0 && (
+                      <ul className="text-sm list-disc ml-5 text-gray-600 dark:text-gray-300">
+                        {openCheck.triage.reasons.map(reason => <li key={reason}>{reason}</li>)}
+                      </ul>
+                    )}
+                    <div className="space-y-2">
+                      {openCheck.predictions.map(pred => (
+                        <div key={pred.disease} className="flex justify-between gap-3 text-sm">
+                          <span>
+                            <span className="font-semibold text-red-600">{pred.disease}</span>
+                            <span className="text-gray-500 dark:text-gray-400"> · {pred.specialist}</span>
+                          </span>
+                          <span className="font-semibold text-gray-800 dark:text-gray-100">{(pred.probability * 100).toFixed(0)}%</span>
+                        </div>
+                      ))}
+                    </div>
+
+                    <form onSubmit={handleSaveOutcome} className="flex flex-wrap items-end gap-3">
+                      <label className="flex-1 min-w-[12rem] text-sm text-gray-500 dark:text-gray-400">
+                        What was it diagnosed as?
+                        <input
+                          list={`check-${openCheck.id}-predictions`}
+                          value={diagnosis}
+                          onChange={(e) => setDiagnosis(e.target.value)}
+                          placeholder="Not diagnosed"
+                          className="w-full p-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md text-md text-gray-900 dark:text-white"
+                        />
+                        <datalist id={`check-${openCheck.id}-predictions`}>
+                          {openCheck.predictions.map(pred => <option key={pred.disease} value={pred.disease} />)}
+                        </datalist>
+                      </label>
+                      <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200 py-2">
+                        <input type="checkbox" checked={resolved} onChange={(e) => setResolved(e.target.checked)} className="h-4 w-4" />
+                        Resolved
+                      </label>
+                      <button type="submit" disabled={isSaving} className="flex items-center gap-1 px-3 py-2 text-sm bg-red-600 text-white rounded-md hover:bg-red-700 disabled:bg-gray-400">
+                        <SaveIcon className="w-4 h-4" /> {isSaving ? 'Saving...' : 'Save outcome'}
+                      </button>
+                    </form>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SymptomCheckHistory;
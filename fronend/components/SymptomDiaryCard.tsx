@@ -0,0 +1,292 @@
+import React, { useState, useEffect } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { SymptomDiary, SymptomDiaryEntry, SymptomDiaryEntryInput, DiarySymptom } from '../types';
+import { getSymptomDiary, saveSymptomDiaryEntry, deleteSymptomDiaryEntry } from '../services/geminiService';
+import { SaveIcon } from './icons/SaveIcon';
+
+// The calendar shows this many whole weeks, ending with the current one
+const CALENDAR_WEEKS = 13;
+
+const OVERALL_LABELS = ['Very poor', 'Poor', 'Okay', 'Good', 'Very good'];
+
+const inputClass = 'w-full p-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md text-sm text-gray-900 dark:text-white';
+
+// Dates are handled as local YYYY-MM-DD strings, so "today" is the user's today
+const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const formatDay = (dateString: string) => new Date(`${dateString}T00:00:00`).toLocaleDateString();
+
+// Every day of the calendar, starting on the Sunday CALENDAR_WEEKS - 1 weeks before this week's
+const calendarDays = () => {
+  const today = new Date();
+  const start = addDays(today, -today.getDay() - (CALENDAR_WEEKS - 1) * 7);
+  return Array.from({ length: CALENDAR_WEEKS * 7 }, (_, i) => addDays(start, i));
+};
+
+// Heatmap colour for a day, by its worst symptom
+const dayClass = (entry: SymptomDiaryEntry | undefined) => {
+  if (!entry) return 'bg-gray-100 dark:bg-gray-800';
+  const worst = Math.max(-1, ...entry.symptoms.map(s => s.severity));
+  if (worst >= 8) return 'bg-red-600';
+  if (worst >= 6) return 'bg-orange-500';
+  if (worst >= 3) return 'bg-yellow-400';
+  return 'bg-green-400';
+};
+
+const emptyEntry = (entryDate: string): SymptomDiaryEntryInput => ({ entryDate, overall: null, symptoms: [], notes: '' });
+
+// Daily symptom log in Profile: a calendar heatmap to pick and colour days, and a severity chart per symptom
+const SymptomDiaryCard: React.FC = () => {
+  const [days] = useState(calendarDays);
+  const [diary, setDiary] = useState<SymptomDiary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<SymptomDiaryEntryInput | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [selectedTrend, setSelectedTrend] = useState('');
+
+  const today = toDateString(new Date());
+
+  const loadDiary = async () => {
+    try {
+      const data = await getSymptomDiary(toDateString(days[0]), today);
+      setDiary(data);
+      setSelectedTrend(prev => data.trends.some(t => t.name === prev) ? prev : data.trends[0]?.name || '');
+    } catch (err: any) {
+      setError(err.message || 'Failed to load the symptom diary.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadDiary();
+  }, []);
+
+  const entryFor = (date: string) => diary?.entries.find(entry => entry.entryDate === date);
+  const formEntry = form ? entryFor(form.entryDate) : undefined;
+
+  const openDay = (date: string) => {
+    const entry = entryFor(date);
+    setForm(entry ? { entryDate: entry.entryDate, overall: entry.overall, symptoms: entry.symptoms, notes: entry.notes } : emptyEntry(date));
+    setError(null);
+  };
+
+  const updateSymptom = (index: number, patch: Partial<DiarySymptom>) => {
+    setForm(prev => prev ? { ...prev, symptoms: prev.symptoms.map((s, i) => i === index ? { ...s, ...patch } : s) } : prev);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const symptoms = form.symptoms.filter(s => s.name.trim());
+      await saveSymptomDiaryEntry({ ...form, symptoms }, formEntry?.id);
+      setForm(null);
+      // Reloaded rather than patched, so the trends are recomputed by the server
+      await loadDiary();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save the diary entry.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!formEntry || !window.confirm(`Delete the diary entry for ${formatDay(formEntry.entryDate)}?`)) return;
+    setError(null);
+    try {
+      await deleteSymptomDiaryEntry(formEntry.id);
+      setForm(null);
+      await loadDiary();
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete the diary entry.');
+    }
+  };
+
+  const trend = diary?.trends.find(t => t.name === selectedTrend);
+  const chartData = trend ? trend.points.map(point => ({ date: formatDay(point.date), severity: point.severity })) : [];
+
+  return (
+    <div className="bg-white dark:bg-gray-900 p-6 rounded-xl shadow-lg border border-gray-200 dark:border-gray-800 space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Symptom Diary</h2>
+        <button onClick={() => openDay(today)} className="px-3 py-1 text-sm bg-red-600 text-white rounded-md hover:bg-red-700">
+          {entryFor(today) ? "Edit today's entry" : 'Log today'}
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {isLoading ? (
+        <p className="text-gray-500 dark:text-gray-400">Loading your symptom diary...</p>
+      ) : (
+        <div>
+          <div className="overflow-x-auto">
+            <div className="grid grid-flow-col grid-rows-7 gap-1 w-max" role="grid" aria-label="Symptom diary calendar">
+              {days.map(day => {
+                const date = toDateString(day);
+                const entry = entryFor(date);
+                if (date > today) return <span key={date} className="w-4 h-4" />;
+                return (
+                  <button
+                    key={date}
+                    type="button"
+                    onClick={() => openDay(date)}
+                    title={`${formatDay(date)}${entry ? `: ${entry.symptoms.map(s => `${s.name} ${s.severity}/10`).join(', ') || 'no symptoms'}` : ''}`}
+                    aria-label={formatDay(date)}
+                    className={`w-4 h-4 rounded-sm ${dayClass(entry)} ${form?.entryDate === date ? 'ring-2 ring-offset-1 ring-gray-900 dark:ring-white' : ''}`}
+                  />
+                );
+              })}
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-3 mt-2 text-xs text-gray-500 dark:text-gray-400">
+            <span>Worst symptom of the day:</span>
+            <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-green-400" /> 0-2</span>
+            <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-yellow-400" /> 3-5</span>
+            <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-orange-500" /> 6-7</span>
+            <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-red-600" /> 8-10</span>
+          </div>
+        </div>
+      )}
+
+      {form && (
+        <form onSubmit={handleSubmit} className="bg-gray-50 dark:bg-black p-4 rounded-lg space-y-4">
+          <p className="font-semibold text-gray-900 dark:text-white">{formatDay(form.entryDate)}</p>
+          <div>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-1">How do you feel overall?</p>
+            <div className="flex flex-wrap gap-2">
+              {OVERALL_LABELS.map((label, i) => (
+                <button
+                  key={label}
+                  type="button"
+                  aria-pressed={form.overall === i + 1}
+                  onClick={() => setForm(prev => prev ? { ...prev, overall: prev.overall === i + 1 ? null : i + 1 } : prev)}
+                  className={`px-3 py-1 rounded-full text-sm ${form.overall === i + 1 ? 'bg-red-600 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm text-gray-500 dark:text-gray-400">Symptoms</p>
+            {form.symptoms.map((symptom, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-3">
+                <input
+                  list="diary-symptom-names"
+                  value={symptom.name}
+                  onChange={(e) => updateSymptom(index, { name: e.target.value })}
+                  placeholder="e.g. Headache"
+                  maxLength={100}
+                  className={`${inputClass} flex-1 min-w-[10rem]`}
+                  aria-label="Symptom"
+                />
+                <input
+                  type="range"
+                  min={0}
+                  max={10}
+                  step={1}
+                  value={symptom.severity}
+                  onChange={(e) => updateSymptom(index, { severity: Number(e.target.value) })}
+                  className="w-32 accent-red-600"
+                  aria-label={`Severity of ${symptom.name || 'symptom'}`}
+                />
+                <span className="w-12 text-sm font-semibold text-gray-900 dark:text-white">{symptom.severity}/10</span>
+                <button
+                  type="button"
+                  onClick={() => setForm(prev => prev ? { ...prev, symptoms: prev.symptoms.filter((_, i) => i !== index) } : prev)}
+                  className="text-sm text-red-600 hover:underline"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <datalist id="diary-symptom-names">
+              {diary?.trends.map(t => <option key={t.name} value={t.name} />)}
+            </datalist>
+            <button
+              type="button"
+              onClick={() => setForm(prev => prev ? { ...prev, symptoms: [...prev.symptoms, { name: '', severity: 5, location: null }] } : prev)}
+              className="px-3 py-1 text-sm bg-gray-200 dark:bg-gray-700 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600"
+            >
+              Add symptom
+            </button>
+          </div>
+
+          <label className="block text-sm text-gray-500 dark:text-gray-400">
+            Notes
+            <textarea
+              value={form.notes}
+              onChange={(e) => setForm(prev => prev ? { ...prev, notes: e.target.value } : prev)}
+              rows={2}
+              maxLength={2000}
+              placeholder="e.g. Slept badly, skipped lunch"
+              className={inputClass}
+            />
+          </label>
+
+          <div className="flex flex-wrap justify-end gap-2">
+            {formEntry && (
+              <button type="button" onClick={handleDelete} className="px-3 py-1 text-sm text-red-600 hover:underline mr-auto">
+                Delete entry
+              </button>
+            )}
+            <button type="button" onClick={() => setForm(null)} className="px-3 py-1 text-sm bg-gray-200 dark:bg-gray-700 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600">
+              Cancel
+            </button>
+            <button type="submit" disabled={isSaving} className="flex items-center gap-1 px-3 py-1 text-sm bg-red-600 text-white rounded-md hover:bg-red-700 disabled:bg-gray-400">
+              <SaveIcon className="w-4 h-4" /> {isSaving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {diary && diary.trends.length > 0 && (
+        <div>
+          <div className="flex flex-wrap justify-between items-center gap-3 mb-3">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Severity over time</h3>
+            <select
+              value={selectedTrend}
+              onChange={(e) => setSelectedTrend(e.target.value)}
+              className="bg-gray-100 dark:bg-black border border-gray-300 dark:border-gray-700 rounded-lg text-sm px-3 py-1.5 focus:ring-2 focus:ring-red-500 focus:border-red-500"
+              aria-label="Select symptom"
+            >
+              {diary.trends.map(t => <option key={t.name} value={t.name}>{t.name} ({t.days} {t.days === 1 ? 'day' : 'days'})</option>)}
+            </select>
+          </div>
+          {trend && (
+            <>
+              <p className="text-sm text-gray-600 dark:text-gray-300 mb-3">
+                Average severity <span className="font-semibold">{trend.averageSeverity}/10</span> on the {trend.days} {trend.days === 1 ? 'day' : 'days'} it was logged.
+              </p>
+              {chartData.length > 1 ? (
+                <div style={{ width: '100%', height: 250 }}>
+                  <ResponsiveContainer>
+                    <LineChart data={chartData} margin={{ top: 5, right: 20, left: -10, bottom: 5 }}>
+                      <CartesianGrid strokeDasharray="3 3" className="stroke-gray-200 dark:stroke-gray-700" />
+                      <XAxis dataKey="date" className="text-xs fill-gray-500 dark:fill-gray-400" />
+                      <YAxis domain={[0, 10]} className="text-xs fill-gray-500 dark:fill-gray-400" />
+                      <Tooltip contentStyle={{ backgroundColor: 'rgba(255, 255, 255, 0.8)', backdropFilter: 'blur(2px)', border: '1px solid #ddd' }} itemStyle={{color: '#ef4444'}} formatter={(value: number) => [`${value}/10`, trend.name]} />
+                      <Line type="monotone" dataKey="severity" stroke="#ef4444" strokeWidth={2} activeDot={{ r: 8 }} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              ) : (
+                <p className="text-center text-gray-500 dark:text-gray-400 py-6">Log this symptom on another day to see a trend.</p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SymptomDiaryCard;
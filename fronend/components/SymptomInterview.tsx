@@ -0,0 +1,147 @@
+import React, { useState, useEffect } from 'react';
+import { SymptomInterview as Interview, InterviewQuestion, InterviewAnswer } from '../types';
+import { answerSymptomInterview } from '../services/geminiService';
+import EmergencyBanner from './EmergencyBanner';
+import SymptomPredictionList from './SymptomPredictionList';
+
+interface SymptomInterviewProps {
+    interview: Interview;
+    onChange: (interview: Interview) => void;
+    onRestart: () => void;
+    onOpenSos?: () => void;
+}
+
+const optionClass = 'flex items-center gap-3 p-3 bg-gray-50 dark:bg-black rounded-lg cursor-pointer border';
+
+const emptyAnswer = (question: InterviewQuestion): InterviewAnswer =>
+    question.type === 'multi' ? [] : question.type === 'scale' ? 5 : '';
+
+// Steps through the follow-up questions of a started interview, then shows its predictions
+const SymptomInterview: React.FC<SymptomInterviewProps> = ({ interview, onChange, onRestart, onOpenSos }) => {
+    const question = interview.nextQuestion;
+    const [answer, setAnswer] = useState<InterviewAnswer>(() => question ? emptyAnswer(question) : '');
+    const [isSending, setIsSending] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (question) setAnswer(emptyAnswer(question));
+    }, [question?.id]);
+
+    const canSubmit = !!question && (question.type !== 'choice' || answer !== '');
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!question || !canSubmit) return;
+        setIsSending(true);
+        setError(null);
+        try {
+            onChange(await answerSymptomInterview(interview.id, question.id, answer));
+        } catch (err: any) {
+            setError(err.message || 'Failed to save the answer.');
+        } finally {
+            setIsSending(false);
+        }
+    };
+
+    const toggleOption = (value: string) => {
+        const selected = answer as string[];
+        setAnswer(selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value]);
+    };
+
+    const renderInput = (q: InterviewQuestion) => {
+        switch (q.type) {
+            case 'choice':
+                return (
+                    <div className="space-y-2">
+                        {q.options!.map(option => (
+                            <label key={option.value} className={`${optionClass} ${answer === option.value ? 'border-red-500' : 'border-transparent'}`}>
+                                <input type="radio" name={q.id} value={option.value} checked={answer === option.value} onChange={() => setAnswer(option.value)} className="h-4 w-4" />
+                                <span className="text-gray-900 dark:text-white">{option.label}</span>
+                            </label>
+                        ))}
+                    </div>
+                );
+            case 'multi':
+                return (
+                    <div className="space-y-2">
+                        {q.options!.map(option => (
+                            <label key={option.value} className={`${optionClass} ${(answer as string[]).includes(option.value) ? 'border-red-500' : 'border-transparent'}`}>
+                                <input type="checkbox" checked={(answer as string[]).includes(option.value)} onChange={() => toggleOption(option.value)} className="h-4 w-4" />
+                                <span className="text-gray-900 dark:text-white">{option.label}</span>
+                            </label>
+                        ))}
+                        <p className="text-sm text-gray-500 dark:text-gray-400">Leave all unticked if none apply.</p>
+                    </div>
+                );
+            case 'scale':
+                return (
+                    <div className="flex items-center gap-4">
+                        <input type="range" min={1} max={10} step={1} value={answer as number} onChange={(e) => setAnswer(Number(e.target.value))} className="flex-1 accent-red-600" />
+                        <span className="w-14 text-2xl font-bold text-gray-900 dark:text-white text-right">{answer}/10</span>
+                    </div>
+                );
+            default:
+                return (
+                    <textarea rows={4} value={answer as string} onChange={(e) => setAnswer(e.target.value)} className="w-full p-4 bg-gray-50 dark:bg-black border border-gray-300 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 text-sm" />
+                );
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            {interview.triage && interview.triage.urgency !== 'routine' && (
+                <EmergencyBanner triage={interview.triage} onOpenSos={onOpenSos} />
+            )}
+
+            <div className="bg-white dark:bg-gray-900 p-6 sm:p-8 rounded-xl shadow-lg border border-gray-200 dark:border-gray-800 space-y-3">
+                <div className="flex justify-between items-start gap-3">
+                    <div>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">Your symptoms</p>
+                        <p className="text-gray-900 dark:text-white whitespace-pre-line">{interview.initialSymptoms}</p>
+                    </div>
+                    <button type="button" onClick={onRestart} className="shrink-0 px-3 py-1 text-sm bg-gray-200 dark:bg-gray-700 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600">
+                        Start over
+                    </button>
+                </div>
+                {interview.transcript.length > 0 && (
+                    <dl className="divide-y divide-gray-200 dark:divide-gray-800 text-sm">
+                        {interview.transcript.map(entry => (
+                            <div key={entry.questionId} className="py-2 sm:grid sm:grid-cols-2 sm:gap-4">
+                                <dt className="text-gray-500 dark:text-gray-400">{entry.question}</dt>
+                                <dd className="text-gray-900 dark:text-white">{entry.answerText}</dd>
+                            </div>
+                        ))}
+                    </dl>
+                )}
+            </div>
+
+            {question && (
+                <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-900 p-6 sm:p-8 rounded-xl shadow-lg border border-gray-200 dark:border-gray-800 space-y-4">
+                    <p className="text-lg font-medium text-gray-700 dark:text-gray-200">
+                        {question.text}
+                        {question.optional && <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">(optional)</span>}
+                    </p>
+                    {renderInput(question)}
+                    {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+                    <div className="text-center">
+                        <button
+                            type="submit"
+                            className="inline-flex items-center justify-center px-8 py-3 bg-red-600 text-white font-semibold rounded-lg shadow-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-opacity-75 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                            disabled={!canSubmit || isSending}
+                        >
+                            {isSending ? 'Saving...' : 'Next'}
+                        </button>
+                    </div>
+                </form>
+            )}
+
+            {interview.predictions && (
+                <div className="mt-8">
+                    <SymptomPredictionList predictions={interview.predictions} />
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SymptomInterview;
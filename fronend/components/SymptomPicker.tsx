@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { StructuredSymptom, SymptomOptions, SymptomDuration, SymptomPattern } from '../types';
+import BodyMap from './BodyMap';
+import StructuredSymptomList from './StructuredSymptomList';
+
+interface SymptomPickerProps {
+    options: SymptomOptions;
+    value: StructuredSymptom[];
+    onChange: (symptoms: StructuredSymptom[]) => void;
+}
+
+interface Draft {
+    name: string;
+    severity: number;
+    onsetDate: string;
+    duration: SymptomDuration | '';
+    pattern: SymptomPattern | '';
+}
+
+const EMPTY_DRAFT: Draft = { name: '', severity: 5, onsetDate: '', duration: '', pattern: '' };
+
+const inputClass = 'w-full p-2 bg-gray-50 dark:bg-black border border-gray-300 dark:border-gray-700 rounded-md text-sm text-gray-900 dark:text-white';
+
+// Today in the user's time zone, as the onset date input expects it
+const localToday = () => {
+    const now = new Date();
+    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+// Click a region of the body map, then describe what is wrong there. The same symptom in the same
+// region is replaced rather than added twice.
+const SymptomPicker: React.FC<SymptomPickerProps> = ({ options, value, onChange }) => {
+    const [regionId, setRegionId] = useState<string | null>(null);
+    const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+
+    const region = options.regions.find(r => r.id === regionId);
+
+    const handleSelect = (id: string) => {
+        setRegionId(id === regionId ? null : id);
+        setDraft(EMPTY_DRAFT);
+    };
+
+    const handleAdd = () => {
+        if (!region || !draft.name.trim()) return;
+        const symptom: StructuredSymptom = {
+            name: draft.name.trim(),
+            location: region.id,
+            severity: draft.severity,
+            onsetDate: draft.onsetDate || null,
+            duration: draft.duration || null,
+            pattern: draft.pattern || null,
+        };
+        const isSame = (s: StructuredSymptom) => s.location === symptom.location && s.name.toLowerCase() === symptom.name.toLowerCase();
+        onChange([...value.filter(s => !isSame(s)), symptom]);
+        setDraft(EMPTY_DRAFT);
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <BodyMap regions={options.regions} selected={regionId} marked={value.map(s => s.location)} onSelect={handleSelect} />
+
+                {region ? (
+                    <div className="space-y-3">
+                        <p className="font-semibold text-gray-900 dark:text-white">{region.label}</p>
+                        <div className="flex flex-wrap gap-2">
+                            {region.symptoms.map(name => (
+                                <button
+                                    key={name}
+                                    type="button"
+                                    onClick={() => setDraft(prev => ({ ...prev, name }))}
+                                    className={`px-3 py-1 rounded-full text-sm ${draft.name === name ? 'bg-red-600 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600'}`}
+                                >
+                                    {name}
+                                </button>
+                            ))}
+                        </div>
+                        <label className="block text-sm text-gray-500 dark:text-gray-400">
+                            Symptom
+                            <input value={draft.name} onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))} placeholder="Pick one above or type your own" maxLength={100} className={inputClass} />
+                        </label>
+                        <label className="block text-sm text-gray-500 dark:text-gray-400">
+                            Severity: <span className="font-semibold text-gray-900 dark:text-white">{draft.severity}/10</span>
+                            <input type="range" min={0} max={10} step={1} value={draft.severity} onChange={(e) => setDraft(prev => ({ ...prev, severity: Number(e.target.value) }))} className="w-full accent-red-600" />
+                        </label>
+                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                            <label className="block text-sm text-gray-500 dark:text-gray-400">
+                                Started on
+                                <input type="date" max={localToday()} value={draft.onsetDate} onChange={(e) => setDraft(prev => ({ ...prev, onsetDate: e.target.value }))} className={inputClass} />
+                            </label>
+                            <label className="block text-sm text-gray-500 dark:text-gray-400">
+                                Duration
+                                <select value={draft.duration} onChange={(e) => setDraft(prev => ({ ...prev, duration: e.target.value as SymptomDuration | '' }))} className={inputClass}>
+                                    <option value="">Not sure</option>
+                                    {options.durations.map(d => <option key={d.value} value={d.value}>{d.label}</option>)}
+                                </select>
+                            </label>
+                            <label className="block text-sm text-gray-500 dark:text-gray-400">
+                                Pattern
+                                <select value={draft.pattern} onChange={(e) => setDraft(prev => ({ ...prev, pattern: e.target.value as SymptomPattern | '' }))} className={inputClass}>
+                                    <option value="">Not sure</option>
+                                    {options.patterns.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+                                </select>
+                            </label>
+                        </div>
+                        <button type="button" onClick={handleAdd} disabled={!draft.name.trim()} className="px-4 py-2 text-sm bg-red-600 text-white rounded-md hover:bg-red-700 disabled:bg-gray-400 disabled:cursor-not-allowed">
+                            Add symptom
+                        </button>
+                    </div>
+                ) : (
+                    <p className="self-center text-center text-gray-500 dark:text-gray-400">Click where it hurts or feels wrong to add a symptom.</p>
+                )}
+            </div>
+
+            {value.length > 0 && (
+                <StructuredSymptomList symptoms={value} options={options} onRemove={(index) => onChange(value.filter((_, i) => i !== index))} />
+            )}
+        </div>
+    );
+};
+
+export default SymptomPicker;
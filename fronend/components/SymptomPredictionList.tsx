@@ -0,0 +1,35 @@
+import React from 'react';
+import { SymptomPrediction } from '../types';
+
+interface SymptomPredictionListProps {
+    predictions: SymptomPrediction[];
+}
+
+const SymptomPredictionList: React.FC<SymptomPredictionListProps> = ({ predictions }) => (
+    <>
+        <div className="bg-yellow-100 dark:bg-yellow-900/30 border-l-4 border-yellow-500 text-yellow-800 dark:text-yellow-200 p-4 rounded-r-lg mb-6" role="alert">
+            <p className="font-bold">Disclaimer</p>
+            <p>This AI-powered analysis is for informational purposes only and is not a substitute for professional medical diagnosis or advice. Always consult a qualified healthcare provider for any health concerns.</p>
+        </div>
+        <h3 className="text-2xl font-bold text-gray-900 dark:text-white mb-4 text-center">Potential Conditions</h3>
+        <div className="space-y-4">
+            {predictions.map((pred, index) => (
+                <div key={index} className="bg-white dark:bg-gray-900 p-5 rounded-xl shadow-lg border border-gray-200 dark:border-gray-800">
+                    <div className="flex justify-between items-start mb-2">
+                        <h4 className="text-xl font-bold text-red-600">{pred.disease}</h4>
+                        <span className="font-bold text-lg text-gray-800 dark:text-gray-100">
+                            {(pred.probability * 100).toFixed(0)}%
+                            <span className="text-sm font-normal text-gray-500 dark:text-gray-400 ml-1">Likelihood</span>
+                        </span>
+                    </div>
+                    <p className="text-gray-600 dark:text-gray-300 mb-3">{pred.description}</p>
+                    <div className="text-sm text-gray-500 dark:text-gray-400">
+                        <span className="font-semibold">Recommended Specialist:</span> {pred.specialist}
+                    </div>
+                </div>
+            ))}
+        </div>
+    </>
+);
+
+export default SymptomPredictionList;
@@ -1,5 +1,5 @@
 // Implementing the service to handle API calls to the backend.
-import { HealthReportAnalysis, ProfileData, SymptomPrediction, Hospital, HospitalFinderResult, User, ChatMessage } from '../types';
+import { HealthReportAnalysis, ProfileData, SymptomCheckResult, TriageResult, Hospital, HospitalFinderResult, User, ChatMessage, BiomarkerSummary, BiomarkerHistory, StoredAnalysis, AnalysisPage, AnalysisComparison, ReportDocument, ReportFile, ReportQuality, RiskScoresResult, LabTestOption, ManualLabResult, EmergencyContact, EmergencyContactInput, SosInfo, SymptomInterview, InterviewAnswer, SymptomCheck, SymptomOptions, StructuredSymptom, SymptomDiary, SymptomDiaryEntry, SymptomDiaryEntryInput, Conversation, ConversationRef, StoredChatMessage, SearchResult, SearchResultKind, ChatSource } from '../types';
 
 const API_BASE_URL = 'http://localhost:3001';
 
@@ -11,6 +11,9 @@ interface VoiceConfig {
 interface ChatResponse {
     response: string;
     audio?: string; // audio is base64 string
+    triage?: TriageResult;
+    sources: ChatSource[];
+    conversation: ConversationRef;
 }
 
 
@@ -27,7 +30,19 @@ const getAuthHeaders = (): Record<string, string> => {
     };
 }
 
-export const analyzeHealthReport = async (payload: { reportText?: string; fileData?: { data: string; mimeType:string } }): Promise<HealthReportAnalysis> => {
+// Thrown by analyzeHealthReport when the quality check rejects the documents, or flags them as
+// low confidence and the request did not set acceptLowConfidence.
+export class ReportQualityError extends Error {
+    quality: ReportQuality;
+
+    constructor(message: string, quality: ReportQuality) {
+        super(message);
+        this.name = 'ReportQualityError';
+        this.quality = quality;
+    }
+}
+
+export const analyzeHealthReport = async (payload: { documents: ReportDocument[]; acceptLowConfidence?: boolean }): Promise<HealthReportAnalysis> => {
     try {
         const response = await fetch(`${API_BASE_URL}/ai/analyze`, {
             method: 'POST',
@@ -36,6 +51,9 @@ export const analyzeHealthReport = async (payload: { reportText?: string; fileDa
         });
 
         const data = await response.json();
+        if (response.status === 422 && data.quality) {
+            throw new ReportQualityError(data.error, data.quality);
+        }
         if (!response.ok) {
             throw new Error(data.error || 'Failed to analyze health report.');
         }
@@ -46,12 +64,49 @@ export const analyzeHealthReport = async (payload: { reportText?: string; fileDa
     }
 };
 
-export const getChatResponse = async (prompt: string, history: ChatMessage[], voiceConfig: VoiceConfig): Promise<ChatResponse> => {
+export const getLabTests = async (): Promise<LabTestOption[]> => {
+    try {
+        const response = await fetch(`${API_BASE_URL}/ai/lab-tests`, {
+            method: 'GET',
+            headers: getAuthHeaders(),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || 'Failed to fetch lab tests.');
+        }
+        return data.tests;
+    } catch (error) {
+        console.error("Error in getLabTests:", error);
+        throw error;
+    }
+};
+
+// Saves typed-in lab results as an analysis; with `analyze` the AI also summarizes them
+export const saveLabResults = async (payload: { results: ManualLabResult[]; measuredOn?: string; analyze: boolean }): Promise<HealthReportAnalysis> => {
+    try {
+        const response = await fetch(`${API_BASE_URL}/ai/lab-results`, {
+            method: 'POST',
+            headers: getAuthHeaders(),
+            body: JSON.stringify(payload),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || 'Failed to save lab results.');
+        }
+        return data;
+    } catch (error) {
+        console.error("Error in saveLabResults:", error);
+        throw error;
+    }
+};
+
+// Without a conversationId the server starts a new conversation and returns it
+export const getChatResponse = async (prompt: string, history: ChatMessage[], conversationId: number | null, voiceConfig: VoiceConfig): Promise<ChatResponse> => {
     try {
         const response = await fetch(`${API_BASE_URL}/ai/chat`, {
             method: 'POST',
             headers: getAuthHeaders(),
-            body: JSON.stringify({ message: prompt, history, voiceConfig }),
+            body: JSON.stringify({ message: prompt, history, conversationId, voiceConfig }),
         });
 
         const data = await response.json();
@@ -65,19 +120,163 @@ export const getChatResponse = async (prompt: string, history: ChatMessage[], vo
     }
 };
 
-export const getChatHistory = async (): Promise<Array<{ id: number; role: string; message: string; metadata: any; created_at: string }>> => {
+export interface ChatStreamHandlers {
+    onDelta: (text: string) => void;
+    onConversation?: (conversation: ConversationRef) => void;
+    onTriage?: (triage: TriageResult) => void;
+    onMessage?: (message: { id: number | null; response: string; sources: ChatSource[] }) => void;
+    onAudio?: (audio: string) => void;
+}
+
+// Streams a chat reply from the SSE endpoint. EventSource can't send POST bodies or auth headers,
+// so the event stream is read from the fetch body directly. Abort `signal` to cancel mid-stream.
+// Without a conversationId the server starts a new conversation and reports it through onConversation.
+export const streamChatResponse = async (prompt: string, history: ChatMessage[], conversationId: number | null, voiceConfig: VoiceConfig, handlers: ChatStreamHandlers, signal?: AbortSignal): Promise<void> => {
+    const response = await fetch(`${API_BASE_URL}/ai/chat/stream`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ message: prompt, history, conversationId, voiceConfig }),
+        signal,
+    });
+
+    if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to get chat response.');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    const dispatch = (rawEvent: string) => {
+        let event = 'message';
+        let data = '';
+        for (const line of rawEvent.split('\n')) {
+            if (line.startsWith('event:')) event = line.slice(6).trim();
+            else if (line.startsWith('data:')) data += line.slice(5).trim();
+        }
+        const payload = data ? JSON.parse(data) : {};
+        switch (event) {
+            case 'conversation':
+                handlers.onConversation?.(payload);
+                break;
+            case 'triage':
+                handlers.onTriage?.(payload);
+                break;
+            case 'delta':
+                handlers.onDelta(payload.text);
+                break;
+            case 'message':
+                handlers.onMessage?.(payload);
+                break;
+            case 'audio':
+                handlers.onAudio?.(payload.audio);
+                break;
+            case 'error':
+                throw new Error(payload.error || 'Failed to get chat response.');
+        }
+    };
+
+    while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        let boundary = buffer.indexOf('\n\n');
+        while (boundary !== -1) {
+            dispatch(buffer.slice(0, boundary));
+            buffer = buffer.slice(boundary + 2);
+            boundary = buffer.indexOf('\n\n');
+        }
+    }
+};
+
+// Pinned first, then the most recently active
+export const getConversations = async (): Promise<Conversation[]> => {
+    try {
+        const response = await fetch(`${API_BASE_URL}/ai/conversations`, {
+            method: 'GET',
+            headers: getAuthHeaders(),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || 'Failed to fetch conversations.');
+        }
+        return data.conversations;
+    } catch (error) {
+        console.error('Error in getConversations:', error);
+        throw error;
+    }
+};
+
+export const getConversationMessages = async (id: number): Promise<{ conversation: Conversation; messages: StoredChatMessage[] }> => {
     try {
-        const response = await fetch(`${API_BASE_URL}/ai/chats`, {
+        const response = await fetch(`${API_BASE_URL}/ai/conversations/${id}/messages`, {
             method: 'GET',
             headers: getAuthHeaders(),
         });
         const data = await response.json();
         if (!response.ok) {
-            throw new Error(data.error || 'Failed to fetch chat history.');
+            throw new Error(data.error || 'Failed to fetch the conversation.');
+        }
+        return data;
+    } catch (error) {
+        console.error('Error in getConversationMessages:', error);
+        throw error;
+    }
+};
+
+// Renames and/or pins a conversation; fields left out are unchanged
+export const updateConversation = async (id: number, update: { title?: string; pinned?: boolean }): Promise<Conversation> => {
+    try {
+        const response = await fetch(`${API_BASE_URL}/ai/conversations/${id}`, {
+            method: 'PUT',
+            headers: getAuthHeaders(),
+            body: JSON.stringify(update),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || 'Failed to update the conversation.');
         }
-        return data.chats || [];
+        return data.conversation;
     } catch (error) {
-        console.error('Error in getChatHistory:', error);
+        console.error('Error in updateConversation:', error);
+        throw error;
+    }
+};
+
+export const deleteConversation = async (id: number): Promise<void> => {
+    try {
+        const response = await fetch(`${API_BASE_URL}/ai/conversations/${id}`, {
+            method: 'DELETE',
+            headers: getAuthHeaders(),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || 'Failed to delete the conversation.');
+        }
+    } catch (error) {
+        console.error('Error in deleteConversation:', error);
+        throw error;
+    }
+};
+
+// Full-text search over chat messages, analyses and symptom checks, best matches first
+export const searchHistory = async (query: string, kind?: SearchResultKind, signal?: AbortSignal): Promise<SearchResult[]> => {
+    try {
+        const params = new URLSearchParams({ q: query });
+        if (kind) params.set('type', kind);
+        const response = await fetch(`${API_BASE_URL}/ai/search?${params.toString()}`, {
+            method: 'GET',
+            headers: getAuthHeaders(),
+            signal,
+        });
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || 'Search failed.');
+        }
+        return data.results;
+    } catch (error) {
+        console.error("Error in searchHistory:", error);
         throw error;
     }
 };
@@ -99,24 +298,130 @@ export const getUserProfile = async (): Promise<ProfileData> => {
     }
 };
 
-export const predictSymptoms = async (symptoms: string): Promise<SymptomPrediction[]> => {
+export const getSymptomOptions = async (): Promise<SymptomOptions> => {
+    try {
+        const response = await fetch(`${API_BASE_URL}/ai/symptom-options`, {
+            method: 'GET',
+            headers: getAuthHeaders(),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || 'Failed to fetch symptom options.');
+        }
+        return data;
+    } catch (error) {
+        console.error("Error in getSymptomOptions:", error);
+        throw error;
+    }
+};
+
+// Either argument may be empty, but not both
+export const predictSymptoms = async (symptoms: string, structuredSymptoms: StructuredSymptom[] = []): Promise<SymptomCheckResult> => {
     try {
         const response = await fetch(`${API_BASE_URL}/ai/predict-symptoms`, {
             method: 'POST',
             headers: getAuthHeaders(),
-            body: JSON.stringify({ symptoms }),
+            body: JSON.stringify({ symptoms, structuredSymptoms }),
         });
         const data = await response.json();
         if (!response.ok) {
             throw new Error(data.error || 'Failed to predict diseases from symptoms.');
         }
-        return data.predictions;
+        return data;
     } catch (error) {
         console.error("Error in predictSymptoms:", error);
         throw error;
     }
 };
 
+export const startSymptomInterview = async (symptoms: string, structuredSymptoms: StructuredSymptom[] = []): Promise<SymptomInterview> => {
+    try {
+        const response = await fetch(`${API_BASE_URL}/ai/symptom-interviews`, {
+            method: 'POST',
+            headers: getAuthHeaders(),
+            body: JSON.stringify({ symptoms, structuredSymptoms }),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || 'Failed to start the symptom interview.');
+        }
+        return data;
+    } catch (error) {
+        console.error("Error in startSymptomInterview:", error);
+        throw error;
+    }
+};
+
+export const answerSymptomInterview = async (id: number, questionId: string, answer: InterviewAnswer): Promise<SymptomInterview> => {
+    try {
+        const response = await fetch(`${API_BASE_URL}/ai/symptom-interviews/${id}/answers`, {
+            method: 'POST',
+            headers: getAuthHeaders(),
+            body: JSON.stringify({ questionId, answer }),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || 'Failed to save the answer.');
+        }
+        return data;
+    } catch (error) {
+        console.error("Error in answerSymptomInterview:", error);
+        throw error;
+    }
+};
+
+export const getSymptomChecks = async (): Promise<SymptomCheck[]> => {
+    try {
+        const response = await fetch(`${API_BASE_URL}/ai/symptom-checks`, {
+            method: 'GET',
+            headers: getAuthHeaders(),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || 'Failed to fetch symptom checks.');
+        }
+        return data.checks;
+    } catch (error) {
+        console.error("Error in getSymptomChecks:", error);
+        throw error;
+    }
+};
+
+export const getSymptomCheck = async (id: number): Promise<SymptomCheck> => {
+    try {
+        const response = await fetch(`${API_BASE_URL}/ai/symptom-checks/${id}`, {
+            method: 'GET',
+            headers: getAuthHeaders(),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || 'Failed to fetch the symptom check.');
+        }
+        return data;
+    } catch (error) {
+        console.error("Error in getSymptomCheck:", error);
+        throw error;
+    }
+};
+
+export const updateSymptomCheckOutcome = async (id: number, outcome: { diagnosis: string | null; resolved: boolean }): Promise<SymptomCheck> => {
+    try {
+        const response = await fetch(`${API_BASE_URL}/ai/symptom-checks/${id}/outcome`, {
+            method: 'PUT',
+            headers: getAuthHeaders(),
+            body: JSON.stringify(outcome),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || 'Failed to save the outcome.');
+        }
+        return data;
+    } catch (error) {
+        console.error("Error in updateSymptomCheckOutcome:", error);
+        throw error;
+    }
+};
+
 export const findNearbyHospitals = async (location: { lat?: number; lon?: number; query?: string }): Promise<HospitalFinderResult> => {
     try {
         const response = await fetch(`${API_BASE_URL}/ai/find-hospitals`, {
@@ -155,6 +460,130 @@ export const getLatestAnalysis = async (): Promise<HealthReportAnalysis | null>
     }
 };
 
+export const getAnalyses = async (page = 1, limit = 10): Promise<AnalysisPage> => {
+    try {
+        const response = await fetch(`${API_BASE_URL}/ai/analyses?page=${page}&limit=${limit}`, {
+            method: 'GET',
+            headers: getAuthHeaders(),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || 'Failed to fetch analyses.');
+        }
+        return data;
+    } catch (error) {
+        console.error("Error in getAnalyses:", error);
+        throw error;
+    }
+};
+
+export const getAnalysis = async (id: number): Promise<StoredAnalysis> => {
+    try {
+        const response = await fetch(`${API_BASE_URL}/ai/analyses/${id}`, {
+            method: 'GET',
+            headers: getAuthHeaders(),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || 'Failed to fetch analysis.');
+        }
+        return data;
+    } catch (error) {
+        console.error("Error in getAnalysis:", error);
+        throw error;
+    }
+};
+
+// Stores the original of a document that was analyzed from its text. The file is sent as-is, not as base64 JSON.
+export const uploadReportFile = async (analysisId: number, file: File, documentNumber: number): Promise<void> => {
+    try {
+        const query = new URLSearchParams({ name: file.name, document: String(documentNumber) });
+        const response = await fetch(`${API_BASE_URL}/ai/analyses/${analysisId}/files?${query}`, {
+            method: 'POST',
+            headers: { ...getAuthHeaders(), 'Content-Type': file.type },
+            body: file,
+        });
+        if (!response.ok) {
+            const data = await response.json().catch(() => ({}));
+            throw new Error(data.error || 'Failed to upload the original report.');
+        }
+    } catch (error) {
+        console.error("Error in uploadReportFile:", error);
+        throw error;
+    }
+};
+
+export const getReportFiles = async (analysisId: number): Promise<ReportFile[]> => {
+    try {
+        const response = await fetch(`${API_BASE_URL}/ai/analyses/${analysisId}/files`, {
+            method: 'GET',
+            headers: getAuthHeaders(),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || 'Failed to fetch report files.');
+        }
+        return data.files;
+    } catch (error) {
+        console.error("Error in getReportFiles:", error);
+        throw error;
+    }
+};
+
+// Fetches an original uploaded file (the first one when fileId is omitted). It needs the auth header, so it can't be a plain link.
+export const getReportFile = async (analysisId: number, fileId?: number): Promise<Blob> => {
+    try {
+        const path = fileId ? `files/${fileId}` : 'file';
+        const response = await fetch(`${API_BASE_URL}/ai/analyses/${analysisId}/${path}`, {
+            method: 'GET',
+            headers: getAuthHeaders(),
+        });
+        if (!response.ok) {
+            const data = await response.json().catch(() => ({}));
+            throw new Error(data.error || 'Failed to download the original report.');
+        }
+        return await response.blob();
+    } catch (error) {
+        console.error("Error in getReportFile:", error);
+        throw error;
+    }
+};
+
+export const compareAnalyses = async (baseId: number, targetId: number): Promise<AnalysisComparison> => {
+    try {
+        const response = await fetch(`${API_BASE_URL}/ai/analyses/compare?base=${baseId}&target=${targetId}`, {
+            method: 'GET',
+            headers: getAuthHeaders(),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || 'Failed to compare analyses.');
+        }
+        return data;
+    } catch (error) {
+        console.error("Error in compareAnalyses:", error);
+        throw error;
+    }
+};
+
+export const getComparisonNarrative = async (baseId: number, targetId: number): Promise<string> => {
+    try {
+        const response = await fetch(`${API_BASE_URL}/ai/analyses/compare/narrative`, {
+            method: 'POST',
+            headers: getAuthHeaders(),
+            body: JSON.stringify({ baseId, targetId }),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || 'Failed to generate comparison summary.');
+        }
+        return data.narrative;
+    } catch (error) {
+        console.error("Error in getComparisonNarrative:", error);
+        throw error;
+    }
+};
+
 export const getHealthTips = async (analysis: HealthReportAnalysis): Promise<string[]> => {
     try {
         const response = await fetch(`${API_BASE_URL}/ai/health-tips`, {
@@ -190,3 +619,181 @@ export const updateUserProfile = async (payload: Partial<User>): Promise<User> =
         throw error;
     }
 };
+
+export const getBiomarkers = async (): Promise<BiomarkerSummary[]> => {
+    try {
+        const response = await fetch(`${API_BASE_URL}/ai/biomarkers`, {
+            method: 'GET',
+            headers: getAuthHeaders(),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || 'Failed to fetch biomarkers.');
+        }
+        return data.biomarkers;
+    } catch (error) {
+        console.error("Error in getBiomarkers:", error);
+        throw error;
+    }
+};
+
+export const getBiomarkerHistory = async (name: string): Promise<BiomarkerHistory> => {
+    try {
+        const response = await fetch(`${API_BASE_URL}/ai/biomarkers/${encodeURIComponent(name)}/history`, {
+            method: 'GET',
+            headers: getAuthHeaders(),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || 'Failed to fetch biomarker history.');
+        }
+        return data;
+    } catch (error) {
+        console.error("Error in getBiomarkerHistory:", error);
+        throw error;
+    }
+};
+
+// `provided` holds calculator inputs the user entered; they override values derived on the server
+export const getRiskScores = async (provided: Record<string, string> = {}): Promise<RiskScoresResult> => {
+    try {
+        const query = new URLSearchParams(provided).toString();
+        const response = await fetch(`${API_BASE_URL}/ai/risk-scores${query ? `?${query}` : ''}`, {
+            method: 'GET',
+            headers: getAuthHeaders(),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || 'Failed to calculate risk scores.');
+        }
+        return data;
+    } catch (error) {
+        console.error("Error in getRiskScores:", error);
+        throw error;
+    }
+};
+
+// Without a range the server returns the last 90 days
+export const getSymptomDiary = async (from?: string, to?: string): Promise<SymptomDiary> => {
+    try {
+        const params = new URLSearchParams();
+        if (from) params.set('from', from);
+        if (to) params.set('to', to);
+        const response = await fetch(`${API_BASE_URL}/ai/symptom-diary?${params.toString()}`, {
+            method: 'GET',
+            headers: getAuthHeaders(),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || 'Failed to fetch the symptom diary.');
+        }
+        return data;
+    } catch (error) {
+        console.error("Error in getSymptomDiary:", error);
+        throw error;
+    }
+};
+
+// Adds a day's entry, or updates it when an id is given
+export const saveSymptomDiaryEntry = async (entry: SymptomDiaryEntryInput, id?: number): Promise<SymptomDiaryEntry> => {
+    try {
+        const response = await fetch(`${API_BASE_URL}/ai/symptom-diary${id ? `/${id}` : ''}`, {
+            method: id ? 'PUT' : 'POST',
+            headers: getAuthHeaders(),
+            body: JSON.stringify(entry),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || 'Failed to save the diary entry.');
+        }
+        return data.entry;
+    } catch (error) {
+        console.error("Error in saveSymptomDiaryEntry:", error);
+        throw error;
+    }
+};
+
+export const deleteSymptomDiaryEntry = async (id: number): Promise<void> => {
+    try {
+        const response = await fetch(`${API_BASE_URL}/ai/symptom-diary/${id}`, {
+            method: 'DELETE',
+            headers: getAuthHeaders(),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || 'Failed to delete the diary entry.');
+        }
+    } catch (error) {
+        console.error("Error in deleteSymptomDiaryEntry:", error);
+        throw error;
+    }
+};
+
+export const getEmergencyContacts = async (): Promise<EmergencyContact[]> => {
+    try {
+        const response = await fetch(`${API_BASE_URL}/ai/profile/emergency-contacts`, {
+            method: 'GET',
+            headers: getAuthHeaders(),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || 'Failed to fetch emergency contacts.');
+        }
+        return data.contacts;
+    } catch (error) {
+        console.error("Error in getEmergencyContacts:", error);
+        throw error;
+    }
+};
+
+// Adds a contact, or updates it when an id is given
+export const saveEmergencyContact = async (contact: EmergencyContactInput, id?: number): Promise<EmergencyContact> => {
+    try {
+        const response = await fetch(`${API_BASE_URL}/ai/profile/emergency-contacts${id ? `/${id}` : ''}`, {
+            method: id ? 'PUT' : 'POST',
+            headers: getAuthHeaders(),
+            body: JSON.stringify(contact),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || 'Failed to save the emergency contact.');
+        }
+        return data.contact;
+    } catch (error) {
+        console.error("Error in saveEmergencyContact:", error);
+        throw error;
+    }
+};
+
+export const deleteEmergencyContact = async (id: number): Promise<void> => {
+    try {
+        const response = await fetch(`${API_BASE_URL}/ai/profile/emergency-contacts/${id}`, {
+            method: 'DELETE',
+            headers: getAuthHeaders(),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || 'Failed to delete the emergency contact.');
+        }
+    } catch (error) {
+        console.error("Error in deleteEmergencyContact:", error);
+        throw error;
+    }
+};
+
+export const getSosInfo = async (): Promise<SosInfo> => {
+    try {
+        const response = await fetch(`${API_BASE_URL}/ai/sos`, {
+            method: 'GET',
+            headers: getAuthHeaders(),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || 'Failed to load emergency information.');
+        }
+        return data;
+    } catch (error) {
+        console.error("Error in getSosInfo:", error);
+        throw error;
+    }
+};
@@ -0,0 +1,62 @@
+// Shrinks photographed reports before upload. Phone photos are often 4000px+ and several MB each,
+// which is far more than the model needs to read a lab report.
+import { ReportAttachment } from '../types';
+
+// Longest side after downscaling; enough to keep small print on a lab report legible
+const MAX_IMAGE_DIMENSION = 2000;
+const JPEG_QUALITY = 0.85;
+
+const HEIC_TYPES = ['image/heic', 'image/heif'];
+
+export const isHeic = (file: File) =>
+    HEIC_TYPES.includes(file.type) || /\.(heic|heif)$/i.test(file.name);
+
+export const isSupportedImage = (file: File) =>
+    ['image/jpeg', 'image/png', 'image/webp'].includes(file.type) || isHeic(file);
+
+const readAsBase64 = (blob: Blob): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve((reader.result as string).split(',')[1]);
+        reader.onerror = () => reject(new Error('Failed to read the file.'));
+        reader.readAsDataURL(blob);
+    });
+
+/**
+ * Turns a photo into an upload-ready attachment. The image is decoded with its EXIF orientation
+ * applied, scaled down to MAX_IMAGE_DIMENSION and re-encoded as JPEG, which also strips the EXIF
+ * data. HEIC can't be decoded by most browsers, so when decoding fails it is sent unchanged.
+ */
+export const prepareImageAttachment = async (file: File): Promise<ReportAttachment> => {
+    const mimeType = isHeic(file) ? (file.type || 'image/heic') : file.type;
+    let bitmap: ImageBitmap;
+    try {
+        bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    } catch (err) {
+        if (isHeic(file)) {
+            return { name: file.name, mimeType, data: await readAsBase64(file) };
+        }
+        throw new Error(`Could not read the image ${file.name}.`);
+    }
+
+    const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) {
+        throw new Error('Canvas is not supported in this browser.');
+    }
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+    if (!blob) {
+        throw new Error(`Could not process the image ${file.name}.`);
+    }
+    return {
+        name: file.name.replace(/\.[^.]+$/, '') + '.jpg',
+        mimeType: 'image/jpeg',
+        data: await readAsBase64(blob),
+    };
+};
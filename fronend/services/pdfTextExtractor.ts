@@ -0,0 +1,124 @@
+// Extracts report text from PDFs in the browser so only text has to be sent to the backend.
+// PDF.js is loaded globally from index.html; tesseract.js is imported on demand for scanned pages.
+
+interface PdfTextItem {
+    str: string;
+    hasEOL?: boolean;
+}
+
+interface PdfPage {
+    getTextContent: () => Promise<{ items: PdfTextItem[] }>;
+    getViewport: (options: { scale: number }) => { width: number; height: number };
+    render: (options: { canvasContext: CanvasRenderingContext2D; viewport: { width: number; height: number } }) => { promise: Promise<void> };
+}
+
+interface PdfDocument {
+    numPages: number;
+    getPage: (pageNumber: number) => Promise<PdfPage>;
+    destroy: () => Promise<void>;
+}
+
+declare global {
+    interface Window {
+        pdfjsLib?: {
+            getDocument: (source: { data: ArrayBuffer }) => { promise: Promise<PdfDocument> };
+        };
+    }
+}
+
+export interface ExtractedPage {
+    pageNumber: number;
+    text: string;
+    source: 'text' | 'ocr';
+}
+
+export interface ExtractionProgress {
+    pageNumber: number;
+    totalPages: number;
+    stage: 'text' | 'ocr';
+}
+
+// Pages with fewer characters than this in their text layer are treated as scanned images
+const MIN_TEXT_LAYER_CHARS = 20;
+// Render scale for OCR; higher is more accurate but slower
+const OCR_RENDER_SCALE = 2;
+// Reports are read as English and Nepali
+const OCR_LANGUAGES = ['eng', 'nep'];
+
+// The worker, core and language files are copied to /tesseract by vite.config.ts. The worker is
+// started from a blob URL, so the paths must be absolute.
+const ocrAssetPaths = () => {
+    const base = `${window.location.origin}/tesseract`;
+    return { workerPath: `${base}/worker.min.js`, corePath: `${base}/core`, langPath: `${base}/lang` };
+};
+
+const readTextLayer = async (page: PdfPage): Promise<string> => {
+    const content = await page.getTextContent();
+    return content.items
+        .map(item => item.str + (item.hasEOL ? '\n' : ' '))
+        .join('')
+        .replace(/[ \t]+\n/g, '\n')
+        .replace(/[ \t]{2,}/g, ' ')
+        .trim();
+};
+
+const renderPageToCanvas = async (page: PdfPage): Promise<HTMLCanvasElement> => {
+    const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+    const canvas = document.createElement('canvas');
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+        throw new Error('Canvas is not supported in this browser.');
+    }
+    await page.render({ canvasContext: context, viewport }).promise;
+    return canvas;
+};
+
+/**
+ * Reads every page of a PDF. Pages without a usable text layer are rendered and run through OCR.
+ * The OCR worker is only created if a scanned page is found, and is shared across pages.
+ */
+export const extractPdfText = async (file: File, onProgress?: (progress: ExtractionProgress) => void): Promise<ExtractedPage[]> => {
+    if (!window.pdfjsLib) {
+        throw new Error('PDF reader failed to load. Please refresh the page and try again.');
+    }
+
+    const pdf = await window.pdfjsLib.getDocument({ data: await file.arrayBuffer() }).promise;
+    let ocrWorker: Awaited<ReturnType<typeof import('tesseract.js')['createWorker']>> | null = null;
+    const pages: ExtractedPage[] = [];
+
+    try {
+        for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+            onProgress?.({ pageNumber, totalPages: pdf.numPages, stage: 'text' });
+            const page = await pdf.getPage(pageNumber);
+            const text = await readTextLayer(page);
+
+            if (text.length >= MIN_TEXT_LAYER_CHARS) {
+                pages.push({ pageNumber, text, source: 'text' });
+                continue;
+            }
+
+            onProgress?.({ pageNumber, totalPages: pdf.numPages, stage: 'ocr' });
+            if (!ocrWorker) {
+                const { createWorker } = await import('tesseract.js');
+                ocrWorker = await createWorker(OCR_LANGUAGES, undefined, ocrAssetPaths());
+            }
+            const canvas = await renderPageToCanvas(page);
+            const { data } = await ocrWorker.recognize(canvas);
+            pages.push({ pageNumber, text: data.text.trim(), source: 'ocr' });
+        }
+    } finally {
+        await ocrWorker?.terminate();
+        await pdf.destroy();
+    }
+
+    return pages;
+};
+
+// Joins pages into one editable document, with a marker line before each page.
+export const formatExtractedPages = (pages: ExtractedPage[]): string =>
+    pages
+        .filter(page => page.text)
+        .map(page => `--- Page ${page.pageNumber}${page.source === 'ocr' ? ' (scanned)' : ''} ---\n${page.text}`)
+        .join('\n\n');
@@ -7,18 +7,145 @@ export enum Page {
   Profile = 'Profile',
   SymptomPredictor = 'SymptomPredictor',
   HospitalFinder = 'HospitalFinder',
+  ManualEntry = 'ManualEntry',
+  AnalysisDetail = 'AnalysisDetail',
+  AnalysisCompare = 'AnalysisCompare',
+  Sos = 'Sos',
+}
+
+export interface PredictionEvidence {
+  type: 'quote' | 'biomarker';
+  // The quoted report snippet, or the name of an entry in the analysis' biomarkers
+  text: string;
+  documentNumber: number | null;
 }
 
 export interface Prediction {
   disease: string;
   probability: number;
+  documentNumbers?: number[]; // bundle documents supporting this prediction, 1-based
+  rationale?: string;
+  evidence?: PredictionEvidence[];
+}
+
+export type BiomarkerFlag = 'high' | 'low' | 'normal';
+
+export interface Biomarker {
+  name: string;
+  value: number;
+  unit: string;
+  referenceRange: string;
+  referenceLow: number | null;
+  referenceHigh: number | null;
+  flag: BiomarkerFlag;
+  documentNumber?: number | null; // bundle document the value was read from, 1-based
+  // Set when the value was converted to the standard unit from the one printed on the report
+  originalValue?: number;
+  originalUnit?: string;
+  referenceSource?: 'report' | 'table'; // limits printed on the report, or age/sex-specific defaults
+}
+
+// Provenance for one document of an analyzed bundle
+export interface AnalyzedDocument {
+  number: number;
+  title: string;
+  type: string;
+  summary: string;
+  fileNames: string[];
+  hasText: boolean;
+}
+
+export interface ScoreFactor {
+  name: string;
+  value: number;
+  unit: string;
+  score: number;
+  reason: string;
+}
+
+export interface CategoryScore {
+  key: 'cardiovascular' | 'metabolic' | 'renal' | 'hepatic' | 'hematologic' | 'lifestyle';
+  label: string;
+  weight: number;
+  score: number | null; // null when nothing in the category was measured
+  factors: ScoreFactor[];
+}
+
+export interface ScoreBreakdown {
+  version: number;
+  overall: number | null;
+  categories: CategoryScore[];
+  unscored: string[]; // biomarkers the scoring rules don't cover
+}
+
+// What the pre-analysis quality check found for one document
+export interface DocumentQuality {
+  number: number;
+  title: string;
+  isMedicalReport: boolean;
+  documentType: string;
+  legibility: 'clear' | 'partial' | 'unreadable';
+  language: string | null; // ISO 639-1 code, null when it couldn't be checked
+  issues: string[];
+}
+
+export interface ReportQuality {
+  status: 'ok' | 'low_confidence' | 'rejected';
+  reasons: string[];
+  guidance: string[];
+  documents: DocumentQuality[];
 }
 
 export interface HealthReportAnalysis {
-  healthScore: number;
+  id?: number; // the stored analysis; missing if it couldn't be saved
+  healthScore: number | null; // the AI's score; null for manually entered results saved without analysis
   summary: string;
   predictions: Prediction[];
   recommendations: string[];
+  biomarkers: Biomarker[];
+  documents?: AnalyzedDocument[]; // missing on analyses made before bundles were supported
+  quality?: ReportQuality | null; // null on analyses made before quality checks
+  lowConfidence?: boolean; // left out of health score and biomarker trends
+  // Deterministic score computed by the backend from the biomarkers and profile; null when no lab value could be scored
+  ruleScore?: number | null;
+  scoreBreakdown?: ScoreBreakdown | null;
+  source?: AnalysisSource;
+}
+
+// 'report' for uploaded or pasted reports, 'manual' for lab results typed in by the user
+export type AnalysisSource = 'report' | 'manual';
+
+export interface StoredAnalysis extends HealthReportAnalysis {
+  id: number;
+  created_at: string;
+  report_data: string;
+}
+
+export interface BiomarkerSummary {
+  name: string;
+  count: number;
+  latestValue: number;
+  unit: string;
+  latestFlag: BiomarkerFlag;
+  lastMeasuredAt: string;
+}
+
+export interface BiomarkerHistoryPoint {
+  analysisId: number;
+  date: string;
+  value: number;
+  unit: string;
+  flag: BiomarkerFlag;
+  referenceLow: number | null;
+  referenceHigh: number | null;
+}
+
+export interface BiomarkerHistory {
+  name: string;
+  unit: string;
+  referenceLow: number | null;
+  referenceHigh: number | null;
+  points: BiomarkerHistoryPoint[];
 }
 
 export interface User {
@@ -27,10 +154,44 @@ export interface User {
   email: string;
   age?: number;
   weight?: number;
+  sex?: Sex | null;
+  height?: number | null; // cm
+  unit_preference?: UnitPreference;
   medical_conditions?: string;
   symptoms?: string;
+  medications?: string | null;
+  allergies?: string | null;
+  structured_symptoms?: StructuredSymptom[]; // the latest symptoms picked on the body map
 }
 
+export interface EmergencyContactInput {
+  name: string;
+  relationship: string;
+  phone: string;
+}
+
+export interface EmergencyContact extends EmergencyContactInput {
+  id: number;
+  created_at: string;
+}
+
+export interface EmergencyNumber {
+  label: string;
+  number: string;
+}
+
+// What the SOS screen shows: key medical info, contacts to call and the local emergency numbers
+export interface SosInfo {
+  user: Pick<User, 'name' | 'age' | 'sex' | 'medical_conditions' | 'medications' | 'allergies'>;
+  contacts: EmergencyContact[];
+  emergencyNumbers: EmergencyNumber[];
+}
+
+export type Sex = 'male' | 'female';
+
+// 'conventional' shows lab values as mg/dL etc., 'si' as mmol/L etc. where the test has an SI unit
+export type UnitPreference = 'conventional' | 'si';
+
 export interface AuthResponse {
   token: string;
   user: User;
@@ -39,10 +200,103 @@ export interface AuthResponse {
 export interface AnalysisHistoryItem {
     id: number;
     summary: string;
-    health_score: number;
+    health_score: number | null;
+    rule_score: number | null;
+    created_at: string;
+    file_count: number; // uploaded files stored for this analysis, 0 for pasted text
+    low_confidence: number; // 1 when analyzed despite a quality warning
+    source: AnalysisSource;
+}
+
+// A file sent to /ai/analyze, with base64 data (no data-URL prefix)
+export interface ReportAttachment {
+    name: string;
+    mimeType: string;
+    data: string;
+}
+
+// One document of the bundle sent to /ai/analyze: its text, its files, or both
+export interface ReportDocument {
+    title: string;
+    reportText?: string;
+    attachments?: ReportAttachment[];
+}
+
+// A test offered by the manual entry form, with the units it can be entered in (canonical first)
+export interface LabTestOption {
+    name: string;
+    category: string;
+    units: string[];
+    aliases: string[];
+}
+
+// One lab result typed into the manual entry form
+export interface ManualLabResult {
+    name: string;
+    value: number;
+    unit: string;
+    referenceLow?: number | null;
+    referenceHigh?: number | null;
+}
+
+export interface ReportFile {
+    id: number;
+    document_number: number;
+    file_name: string;
+    mime_type: string;
+    size_bytes: number;
+    checksum: string;
     created_at: string;
 }
 
+export interface AnalysisPage {
+    analyses: AnalysisHistoryItem[];
+    page: number;
+    limit: number;
+    total: number;
+    hasMore: boolean;
+}
+
+export interface PredictionChange {
+    disease: string;
+    before: number;
+    after: number;
+    delta: number;
+}
+
+export interface BiomarkerChange {
+    name: string;
+    unit: string;
+    unitBefore: string; // the unit of `before`, which can differ from unit
+    before: number;
+    after: number;
+    delta: number | null; // null when the units differ
+    flagBefore: BiomarkerFlag;
+    flagAfter: BiomarkerFlag;
+}
+
+export interface AnalysisComparison {
+    // `base` is always the earlier of the two analyses
+    base: StoredAnalysis;
+    target: StoredAnalysis;
+    comparison: {
+        scoreDelta: number | null;
+        ruleScoreDelta: number | null; // null unless both analyses have a rule-based score
+        predictions: {
+            appeared: Prediction[];
+            resolved: Prediction[];
+            changed: PredictionChange[];
+            unchanged: PredictionChange[];
+        };
+        recommendations: {
+            added: string[];
+            removed: string[];
+            kept: string[];
+        };
+        biomarkers: BiomarkerChange[];
+    };
+}
+
 export interface ProfileData {
     user: User;
     analyses: AnalysisHistoryItem[];
@@ -55,6 +309,132 @@ export interface SymptomPrediction {
   specialist: string;
 }
 
+export type SymptomDuration = 'under_1_day' | '1_3_days' | '4_7_days' | '1_4_weeks' | 'over_1_month';
+export type SymptomPattern = 'constant' | 'comes_and_goes' | 'worsening' | 'improving';
+
+// A symptom picked on the body map
+export interface StructuredSymptom {
+  name: string;
+  location: string; // a BodyRegion id
+  severity: number; // 0-10
+  onsetDate: string | null; // YYYY-MM-DD
+  duration: SymptomDuration | null;
+  pattern: SymptomPattern | null;
+}
+
+export interface BodyRegion {
+  id: string;
+  label: string;
+  symptoms: string[]; // suggested when the region is selected
+}
+
+export interface SymptomOptions {
+  regions: BodyRegion[];
+  durations: { value: SymptomDuration; label: string }[];
+  patterns: { value: SymptomPattern; label: string }[];
+}
+
+export interface DiarySymptom {
+  name: string;
+  severity: number; // 0-10
+  location: string | null; // a BodyRegion id
+}
+
+export interface SymptomDiaryEntryInput {
+  entryDate: string; // YYYY-MM-DD
+  overall: number | null; // how the user feels overall, 1 (very poor) to 5 (very good)
+  symptoms: DiarySymptom[];
+  notes: string;
+}
+
+export interface SymptomDiaryEntry extends SymptomDiaryEntryInput {
+  id: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// One symptom's severity on the days it was logged
+export interface SymptomTrend {
+  name: string;
+  days: number;
+  averageSeverity: number;
+  points: { date: string; severity: number }[];
+}
+
+export interface SymptomDiary {
+  from: string;
+  to: string;
+  entries: SymptomDiaryEntry[]; // oldest first
+  trends: SymptomTrend[]; // most often logged first
+}
+
+export interface SymptomCheckResult {
+  predictions: SymptomPrediction[];
+  triage: TriageResult;
+  id: number | null; // the saved symptom check; null if it couldn't be saved
+}
+
+export interface SymptomCheckOutcome {
+  diagnosis: string | null;
+  resolved: boolean;
+  updated_at: string | null;
+}
+
+// A past symptom check as listed in Profile
+export interface SymptomCheck {
+  id: number;
+  symptoms: string;
+  structuredSymptoms: StructuredSymptom[];
+  predictions: SymptomPrediction[];
+  triage: TriageResult | null;
+  interviewId: number | null; // set when the check was a guided interview
+  transcript?: InterviewTranscriptEntry[]; // only when a single check is fetched
+  outcome: SymptomCheckOutcome;
+  created_at: string;
+}
+
+export interface InterviewQuestion {
+  id: string;
+  text: string;
+  type: 'choice' | 'multi' | 'scale' | 'text';
+  options?: { value: string; label: string }[];
+  optional?: boolean;
+}
+
+// string for choice and text questions, a list of option values for multi, 1-10 for scale
+export type InterviewAnswer = string | string[] | number;
+
+export interface InterviewTranscriptEntry {
+  questionId: string;
+  question: string;
+  answer: InterviewAnswer;
+  answerText: string;
+}
+
+export interface SymptomInterview {
+  id: number;
+  status: 'in_progress' | 'complete';
+  initialSymptoms: string;
+  structuredSymptoms: StructuredSymptom[];
+  transcript: InterviewTranscriptEntry[];
+  nextQuestion: InterviewQuestion | null;
+  predictions: SymptomPrediction[] | null; // set once the interview is complete
+  triage: TriageResult | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export type Urgency = 'routine' | 'urgent' | 'emergency';
+
+// Server-side triage of a chat message or symptom description
+export interface TriageResult {
+  urgency: Urgency;
+  reasons: string[];
+  source: 'rules' | 'model';
+  // Empty for routine messages
+  emergencyNumbers: EmergencyNumber[];
+}
+
 export interface Hospital {
   name: string;
   uri: string;
@@ -69,3 +449,87 @@ export interface ChatMessage {
   role: 'user' | 'model';
   parts: { text: string }[];
 }
+
+// A stored record a chat reply drew on; the reply cites it as [ref], e.g. [R1]
+export interface ChatSource {
+  ref: string;
+  kind: 'analysis' | 'symptom_check' | 'diary_entry';
+  id: number;
+  title: string;
+  date: string;
+}
+
+// A message as stored on the server
+export interface StoredChatMessage {
+  id: number;
+  conversationId: number | null;
+  role: 'user' | 'ai';
+  message: string;
+  // Also holds triage and provider details the client doesn't read
+  metadata: { sources?: ChatSource[] } | null;
+  created_at: string;
+}
+
+export interface ConversationRef {
+  id: number;
+  title: string | null; // null until the first exchange has been titled
+}
+
+export type SearchResultKind = 'chat' | 'analysis' | 'symptom_check';
+
+export interface SearchSnippetPart {
+  text: string;
+  match: boolean; // true for the words that matched the search
+}
+
+export interface SearchResult {
+  kind: SearchResultKind;
+  id: number; // of the chat message, analysis or symptom check
+  conversationId: number | null; // set for chat results
+  role: 'user' | 'ai' | null;
+  title: string;
+  snippet: SearchSnippetPart[];
+  created_at: string;
+}
+
+export interface Conversation {
+  id: number;
+  title: string;
+  pinned: boolean;
+  messageCount: number;
+  lastMessage: string | null; // the first 120 characters
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RiskInputDefinition {
+    key: string;
+    label: string;
+    type: 'number' | 'boolean' | 'select';
+    unit?: string;
+    options?: string[];
+    optional?: boolean;
+}
+
+export type RiskInputValue = number | boolean | string;
+
+export interface RiskScore {
+    id: string;
+    name: string;
+    description: string;
+    reference: string;
+    status: 'ok' | 'missing_inputs' | 'not_applicable' | 'out_of_range';
+    value: number | null;
+    unit: string | null;
+    category: string | null;
+    interpretation: string | null;
+    missingInputs: string[]; // RiskInputDefinition keys
+}
+
+export interface RiskScoresResult {
+    inputs: Record<string, RiskInputValue>;
+    // Where each input came from: the profile, a stored report, profile conditions, or the request itself
+    sources: Record<string, 'profile' | 'report' | 'conditions' | 'provided'>;
+    definitions: RiskInputDefinition[];
+    scores: RiskScore[];
+}
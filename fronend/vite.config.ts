@@ -1,6 +1,17 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { viteStaticCopy } from 'vite-plugin-static-copy';
+
+// tesseract.js fetches its worker, WASM core and language data at runtime; serve them from /tesseract
+// instead of its default CDN. Only the LSTM cores are needed for the default OCR engine.
+const tesseractAssets = viteStaticCopy({
+  targets: [
+    { src: 'node_modules/tesseract.js/dist/worker.min.js', dest: 'tesseract' },
+    { src: 'node_modules/tesseract.js-core/tesseract-core-*lstm.wasm.js', dest: 'tesseract/core' },
+    { src: 'node_modules/@tesseract.js-data/{eng,nep}/4.0.0_best_int/*.traineddata.gz', dest: 'tesseract/lang' },
+  ],
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,7 +20,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), tesseractAssets],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)